@@ -0,0 +1,154 @@
+import { readFileSync } from 'fs';
+import { z } from 'zod';
+import { DEFAULT_REDACTION, RedactionConfig, redactionSchema } from './redaction.js';
+import { FathomMeeting } from './types.js';
+
+// Access policy deciding which meetings may ever leave the server.
+//
+// Rules are evaluated in order and the first rule whose conditions all match decides.
+// Meetings matching no rule get `default_effect`. Text conditions are glob patterns
+// (`*` any characters, `?` one character) matched against the whole value, case-insensitively.
+
+const ruleSchema = z.object({
+  id: z.string().min(1),
+  effect: z.enum(['allow', 'deny']),
+  description: z.string().optional(),
+  // recorded_by.team
+  teams: z.array(z.string()).optional(),
+  // true: the recorder has no team (private calls)
+  no_team: z.boolean().optional(),
+  // recorded_by.email
+  recorder_emails: z.array(z.string()).optional(),
+  // any calendar invitee's email domain
+  invitee_domains: z.array(z.string()).optional(),
+  // true: at least one external invitee; false: internal-only meeting
+  external: z.boolean().optional(),
+  // title or meeting_title
+  title_patterns: z.array(z.string()).optional()
+}).strict();
+
+const policySchema = z.object({
+  default_effect: z.enum(['allow', 'deny']).default('allow'),
+  rules: z.array(ruleSchema).default([]),
+  // PII redaction applied to tool output for clients using this policy
+  redaction: redactionSchema.optional()
+}).strict();
+
+export type PolicyRule = z.infer<typeof ruleSchema>;
+export type PolicyConfig = z.infer<typeof policySchema>;
+
+export interface PolicyDecision {
+  allowed: boolean;
+  // id of the deciding rule, or null when the default effect applied
+  rule: string | null;
+  reason: string;
+}
+
+// Built-in policy used when no policy file is configured
+export const DEFAULT_POLICY: PolicyConfig = {
+  default_effect: 'allow',
+  rules: [
+    { id: 'deny-sensitive-teams', effect: 'deny', description: 'Executive, Personal and No Team meetings', teams: ['Executive', 'Personal', 'No Team'] },
+    { id: 'deny-private-calls', effect: 'deny', description: 'Meetings recorded outside any team', no_team: true }
+  ]
+};
+
+function globToRegExp(pattern: string): RegExp {
+  const escaped = pattern.trim().replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.');
+  return new RegExp(`^${escaped}$`, 'i');
+}
+
+interface CompiledRule {
+  rule: PolicyRule;
+  teams?: RegExp[];
+  recorderEmails?: RegExp[];
+  inviteeDomains?: RegExp[];
+  titlePatterns?: RegExp[];
+}
+
+export class AccessPolicy {
+  private config: PolicyConfig;
+  private rules: CompiledRule[];
+
+  constructor(config: PolicyConfig = DEFAULT_POLICY) {
+    this.config = policySchema.parse(config);
+    this.rules = this.config.rules.map(rule => ({
+      rule,
+      teams: rule.teams?.map(globToRegExp),
+      recorderEmails: rule.recorder_emails?.map(globToRegExp),
+      inviteeDomains: rule.invitee_domains?.map(globToRegExp),
+      titlePatterns: rule.title_patterns?.map(globToRegExp)
+    }));
+  }
+
+  // Load a JSON policy file, or the built-in default policy when no path is given
+  static load(filePath?: string): AccessPolicy {
+    if (!filePath) {
+      return new AccessPolicy(DEFAULT_POLICY);
+    }
+
+    const raw = JSON.parse(readFileSync(filePath, 'utf8'));
+    const result = policySchema.safeParse(raw);
+    if (!result.success) {
+      const issues = result.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`).join('; ');
+      throw new Error(`Invalid access policy ${filePath}: ${issues}`);
+    }
+    return new AccessPolicy(result.data);
+  }
+
+  getConfig(): PolicyConfig {
+    return this.config;
+  }
+
+  getRedaction(): RedactionConfig {
+    return this.config.redaction || DEFAULT_REDACTION;
+  }
+
+  evaluate(meeting: FathomMeeting): PolicyDecision {
+    for (const compiled of this.rules) {
+      if (this.matches(compiled, meeting)) {
+        return {
+          allowed: compiled.rule.effect === 'allow',
+          rule: compiled.rule.id,
+          reason: compiled.rule.description || `Matched rule ${compiled.rule.id}`
+        };
+      }
+    }
+
+    return {
+      allowed: this.config.default_effect === 'allow',
+      rule: null,
+      reason: `No rule matched; default effect is ${this.config.default_effect}`
+    };
+  }
+
+  isAllowed(meeting: FathomMeeting): boolean {
+    return this.evaluate(meeting).allowed;
+  }
+
+  private matches(compiled: CompiledRule, meeting: FathomMeeting): boolean {
+    const { rule } = compiled;
+    const team = meeting.recorded_by?.team || '';
+    const invitees = meeting.calendar_invitees || [];
+
+    if (rule.no_team !== undefined && (team === '') !== rule.no_team) return false;
+    if (compiled.teams && !(team && compiled.teams.some(re => re.test(team)))) return false;
+
+    const recorderEmail = meeting.recorded_by?.email || '';
+    if (compiled.recorderEmails && !compiled.recorderEmails.some(re => re.test(recorderEmail))) return false;
+
+    if (compiled.inviteeDomains) {
+      const domains = invitees.map(invitee => invitee.email_domain || invitee.email?.split('@')[1] || '');
+      if (!domains.some(domain => compiled.inviteeDomains!.some(re => re.test(domain)))) return false;
+    }
+
+    if (rule.external !== undefined && invitees.some(invitee => invitee.is_external) !== rule.external) return false;
+
+    if (compiled.titlePatterns) {
+      const titles = [meeting.title, meeting.meeting_title].filter((title): title is string => !!title);
+      if (!titles.some(title => compiled.titlePatterns!.some(re => re.test(title)))) return false;
+    }
+
+    return true;
+  }
+}
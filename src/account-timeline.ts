@@ -0,0 +1,206 @@
+import { z } from "zod";
+import { FathomClient } from "./fathom-client.js";
+import { logger } from "./logger.js";
+import { buildDateRange, fetchAllMeetings } from "./meeting-lookup.js";
+import { dateString, defineTool, meetingHeaderOutput } from "./tool-registry.js";
+import { FathomMeeting } from "./types.js";
+
+const accountTimelineInput = z.object({
+  domain: z.string().trim().min(1)
+    .describe("Company email domain (e.g. acme.com)"),
+  days_back: z.number().int().min(1).max(365).default(365)
+    .describe("Number of days of history to include (default: 365, max: 365)"),
+  created_after: dateString().optional()
+    .describe("Only include meetings created after this date (ISO 8601 format). Overrides days_back if provided."),
+  created_before: dateString().optional()
+    .describe("Only include meetings created before this date (ISO 8601 format)")
+});
+
+const crmRecordOutput = z.object({ name: z.string().nullish(), record_url: z.string().nullish() });
+
+export const accountTimelineTool = defineTool({
+  name: "account_timeline",
+  description: "Chronological history of every meeting with a company (by email domain): dates, attendees from each side, summary headlines, action items and their completion, and linked CRM companies and deals. Also reports the first contact date, meeting cadence and days since the last meeting. Use it before renewal or account review calls. SECURITY: Meetings excluded by the access policy are never included.",
+  inputSchema: accountTimelineInput,
+  outputSchema: z.object({
+    domain: z.string(),
+    total_meetings: z.number(),
+    first_contact: z.string().nullable(),
+    last_meeting: z.string().nullable(),
+    days_since_last_meeting: z.number().nullable(),
+    average_days_between_meetings: z.number().nullable(),
+    median_days_between_meetings: z.number().nullable(),
+    meetings_per_month: z.number().nullable(),
+    action_items: z.object({ open: z.number(), completed: z.number() }),
+    contacts: z.array(z.object({ name: z.string().nullish(), email: z.string(), meetings: z.number(), last_seen: z.string() })),
+    crm: z.object({
+      companies: z.array(crmRecordOutput),
+      deals: z.array(crmRecordOutput.extend({ amount: z.number().nullish() })),
+      total_deal_amount: z.number(),
+      contacts: z.array(crmRecordOutput.extend({ email: z.string().nullish() }))
+    }),
+    filters_applied: z.object({ created_after: z.string().optional(), created_before: z.string().optional() }),
+    warning: z.string().optional(),
+    timeline: z.array(z.object({
+      ...meetingHeaderOutput,
+      recorded_by: z.string().nullish(),
+      attendees: z.object({
+        account: z.array(z.string()),
+        internal: z.array(z.string()),
+        other_external: z.array(z.string())
+      }),
+      headline: z.string().nullable(),
+      action_items: z.array(z.object({
+        description: z.string(),
+        completed: z.boolean(),
+        assignee: z.string().nullish()
+      })),
+      action_items_open: z.number(),
+      action_items_completed: z.number()
+    }))
+  }),
+  handler: accountTimeline
+});
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HEADLINE_LENGTH = 200;
+
+// First line of the summary that is not a heading, without markdown formatting
+function summaryHeadline(meeting: FathomMeeting): string | null {
+  const markdown = meeting.default_summary?.markdown_formatted;
+  if (!markdown) return null;
+
+  const line = markdown.split('\n')
+    .map(text => text.replace(/\[([^\]]*)\]\([^)]*\)/g, '$1').replace(/[*_`>]/g, '').replace(/^\s*[-+]\s+/, '').trim())
+    .find(text => text && !text.startsWith('#'));
+  if (!line) return null;
+  return line.length > HEADLINE_LENGTH ? `${line.slice(0, HEADLINE_LENGTH - 1)}…` : line;
+}
+
+function meetingDate(meeting: FathomMeeting): string {
+  return meeting.scheduled_start_time || meeting.created_at;
+}
+
+function daysBetween(from: string, to: number): number {
+  return Math.floor((to - new Date(from).getTime()) / DAY_MS);
+}
+
+// Dedupe CRM records across meetings by record URL (or name when there is none)
+function collectCrm(meetings: FathomMeeting[]) {
+  const companies = new Map<string, { name: string; record_url: string }>();
+  const deals = new Map<string, { name: string; amount: number; record_url: string }>();
+  const contacts = new Map<string, { name: string; email: string; record_url: string }>();
+
+  for (const meeting of meetings) {
+    const crm = meeting.crm_matches;
+    if (!crm || crm.error) continue;
+    crm.companies?.forEach(company => companies.set(company.record_url || company.name, company));
+    crm.deals?.forEach(deal => deals.set(deal.record_url || deal.name, deal));
+    crm.contacts?.forEach(contact => contacts.set(contact.record_url || contact.email, contact));
+  }
+
+  const dealList = [...deals.values()];
+  return {
+    companies: [...companies.values()],
+    deals: dealList,
+    total_deal_amount: dealList.reduce((total, deal) => total + (deal.amount || 0), 0),
+    contacts: [...contacts.values()]
+  };
+}
+
+// Average and median number of days between consecutive meetings (chronological order)
+function cadence(meetings: FathomMeeting[]) {
+  const times = meetings.map(meeting => new Date(meetingDate(meeting)).getTime());
+  const gaps = times.slice(1).map((time, index) => (time - times[index]) / DAY_MS);
+  if (gaps.length === 0) {
+    return { average_days_between_meetings: null, median_days_between_meetings: null, meetings_per_month: null };
+  }
+
+  const sorted = [...gaps].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  const median = sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+  const average = gaps.reduce((total, gap) => total + gap, 0) / gaps.length;
+  const spanDays = (times[times.length - 1] - times[0]) / DAY_MS;
+
+  return {
+    average_days_between_meetings: Math.round(average * 10) / 10,
+    median_days_between_meetings: Math.round(median * 10) / 10,
+    meetings_per_month: spanDays > 0 ? Math.round(meetings.length / (spanDays / 30) * 10) / 10 : null
+  };
+}
+
+export async function accountTimeline(fathomClient: FathomClient, args: z.input<typeof accountTimelineInput>) {
+  const domain = args.domain.toLowerCase().replace(/^@/, '');
+
+  const dateRange = buildDateRange({ days_back: 365, ...args });
+  const { meetings, warning } = await fetchAllMeetings(fathomClient, {
+    calendar_invitees_domains: [domain],
+    include_summary: true,
+    include_transcript: false,
+    include_action_items: true,
+    include_crm_matches: true,
+    ...dateRange
+  });
+
+  // Oldest first
+  meetings.sort((a, b) => Date.parse(meetingDate(a)) - Date.parse(meetingDate(b)));
+  logger.debug('Account timeline', { domain, meetings: meetings.length });
+
+  const contacts = new Map<string, { name: string; email: string; meetings: number; last_seen: string }>();
+  const timeline = meetings.map(meeting => {
+    const invitees = meeting.calendar_invitees || [];
+    const fromAccount = invitees.filter(invitee => (invitee.email_domain || invitee.email?.split('@')[1] || '').toLowerCase() === domain);
+    fromAccount.forEach(invitee => {
+      const key = invitee.email.toLowerCase();
+      const contact = contacts.get(key) || { name: invitee.name, email: invitee.email, meetings: 0, last_seen: '' };
+      contact.meetings++;
+      contact.last_seen = meetingDate(meeting);
+      contacts.set(key, contact);
+    });
+
+    const actionItems = meeting.action_items || [];
+    return {
+      recording_id: meeting.recording_id,
+      date: meetingDate(meeting),
+      title: meeting.title || meeting.meeting_title,
+      url: meeting.share_url || meeting.url,
+      recorded_by: meeting.recorded_by?.name,
+      attendees: {
+        account: fromAccount.map(invitee => invitee.name || invitee.email),
+        internal: invitees.filter(invitee => !invitee.is_external).map(invitee => invitee.name || invitee.email),
+        other_external: invitees.filter(invitee => invitee.is_external && !fromAccount.includes(invitee)).map(invitee => invitee.name || invitee.email)
+      },
+      headline: summaryHeadline(meeting),
+      action_items: actionItems.map(item => ({
+        description: item.description,
+        completed: item.completed,
+        assignee: item.assignee?.name || item.assignee?.email
+      })),
+      action_items_open: actionItems.filter(item => !item.completed).length,
+      action_items_completed: actionItems.filter(item => item.completed).length
+    };
+  });
+
+  const now = Date.now();
+  const first = meetings[0];
+  const last = meetings[meetings.length - 1];
+
+  return {
+    domain,
+    total_meetings: meetings.length,
+    // Within the look-back window; older meetings are not scanned
+    first_contact: first ? meetingDate(first) : null,
+    last_meeting: last ? meetingDate(last) : null,
+    days_since_last_meeting: last ? daysBetween(meetingDate(last), now) : null,
+    ...cadence(meetings),
+    action_items: {
+      open: timeline.reduce((total, entry) => total + entry.action_items_open, 0),
+      completed: timeline.reduce((total, entry) => total + entry.action_items_completed, 0)
+    },
+    contacts: [...contacts.values()].sort((a, b) => b.meetings - a.meetings),
+    crm: collectCrm(meetings),
+    filters_applied: dateRange,
+    ...(warning ? { warning } : {}),
+    timeline
+  };
+}
@@ -0,0 +1,266 @@
+import { createHash } from "crypto";
+import { z } from "zod";
+import { collectActionItems, FlatActionItem, groupItems, listActionItemsInput } from "./action-items.js";
+import { FathomClient } from "./fathom-client.js";
+import { logger } from "./logger.js";
+import { RedactionArgs, redactResult } from "./redaction.js";
+import { defineTool } from "./tool-registry.js";
+
+export const ACTION_ITEM_FORMATS = ['csv', 'ics', 'markdown'] as const;
+export type ActionItemFormat = typeof ACTION_ITEM_FORMATS[number];
+
+const exportActionItemsInput = listActionItemsInput.omit({ group_by: true }).extend({
+  format: z.enum(ACTION_ITEM_FORMATS).default("markdown")
+    .describe("Output format: csv, ics (iCalendar to-dos) or markdown (checklists grouped by assignee)"),
+  limit: z.number().int().min(1).max(1000).default(1000)
+    .describe("Maximum number of action items to export, most recent meetings first (max: 1000)")
+});
+
+export type ExportActionItemsArgs = z.input<typeof exportActionItemsInput>;
+
+export const exportActionItemsTool = defineTool({
+  name: "export_action_items",
+  description: "Export action items across Fathom meetings as a file to import into a tracker: CSV (description, assignee, meeting title, date, playback URL, completed), iCalendar VTODO entries for calendar and task apps, or Markdown checklists grouped by assignee. Takes the same filters as list_action_items (assignee, team, completion state, date range, external domain). SECURITY: Meetings excluded by the access policy are never included.",
+  inputSchema: exportActionItemsInput,
+  outputSchema: z.object({
+    format: z.enum(ACTION_ITEM_FORMATS),
+    filename: z.string(),
+    total_found: z.number(),
+    exported: z.number(),
+    has_more: z.boolean(),
+    open: z.number(),
+    completed: z.number(),
+    meetings_scanned: z.number(),
+    filters_applied: z.object({
+      assignee_emails: z.array(z.string()),
+      assignee_teams: z.array(z.string()),
+      status: z.string(),
+      calendar_invitees_domains: z.array(z.string()),
+      created_after: z.string().optional(),
+      created_before: z.string().optional()
+    }),
+    warning: z.string().optional(),
+    assignees: z.array(z.object({ name: z.string().nullish(), email: z.string().nullish(), open: z.number(), completed: z.number() })),
+    content: z.string()
+  }),
+  handler: exportActionItems,
+  redactsResult: true
+});
+
+export const ACTION_ITEM_CONTENT_TYPES: Record<ActionItemFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  ics: 'text/calendar; charset=utf-8',
+  markdown: 'text/markdown; charset=utf-8'
+};
+
+const FILE_EXTENSIONS: Record<ActionItemFormat, string> = {
+  csv: 'csv',
+  ics: 'ics',
+  markdown: 'md'
+};
+
+const CSV_COLUMNS = ['description', 'assignee', 'assignee_email', 'meeting_title', 'meeting_date', 'playback_url', 'completed'];
+
+// RFC 4180 quoting. Cells starting with a formula character get a leading apostrophe so
+// spreadsheets never evaluate text that came from a meeting.
+function csvCell(value: string): string {
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+function renderCsv(items: FlatActionItem[]): string {
+  const rows = items.map(item => [
+    item.description,
+    item.assignee?.name || '',
+    item.assignee?.email || '',
+    item.meeting.title || '',
+    item.meeting.date || '',
+    item.playback_url || '',
+    item.completed ? 'true' : 'false'
+  ]);
+  return [CSV_COLUMNS, ...rows].map(row => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+}
+
+// RFC 5545 TEXT escaping
+function icsText(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+// Content lines longer than 75 octets are folded onto continuation lines starting with a space
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = Buffer.byteLength(char);
+    if (octets + size > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+function icsDate(date: string | number): string {
+  return new Date(date).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+// UIDs derive from the meeting and the item text, so re-importing an export updates the to-dos instead of duplicating them
+function todoUid(item: FlatActionItem): string {
+  const hash = createHash('sha256').update(`${item.meeting.recording_id}\n${item.description}`).digest('hex').slice(0, 16);
+  return `fathom-${item.meeting.recording_id}-${hash}@mcp-fathom-server`;
+}
+
+function renderIcs(items: FlatActionItem[]): string {
+  const stamp = icsDate(Date.now());
+  const todos = items.flatMap(item => {
+    const details = [
+      `Meeting: ${item.meeting.title || 'Untitled meeting'}${item.meeting.date ? ` (${item.meeting.date.slice(0, 10)})` : ''}`,
+      item.assignee ? `Assignee: ${item.assignee.name || item.assignee.email}` : null,
+      item.playback_url ? `Playback: ${item.playback_url}` : null
+    ].filter((line): line is string => line !== null);
+    const url = item.playback_url || item.meeting.url;
+
+    return [
+      'BEGIN:VTODO',
+      `UID:${todoUid(item)}`,
+      `DTSTAMP:${stamp}`,
+      ...(item.meeting.date && !Number.isNaN(Date.parse(item.meeting.date)) ? [`CREATED:${icsDate(item.meeting.date)}`] : []),
+      `SUMMARY:${icsText(item.description)}`,
+      `DESCRIPTION:${icsText(details.join('\n'))}`,
+      ...(url ? [`URL:${url}`] : []),
+      `STATUS:${item.completed ? 'COMPLETED' : 'NEEDS-ACTION'}`,
+      ...(item.completed ? ['PERCENT-COMPLETE:100'] : []),
+      'END:VTODO'
+    ];
+  });
+
+  const lines = ['BEGIN:VCALENDAR', 'VERSION:2.0', 'PRODID:-//mcp-fathom-server//Action items//EN', 'CALSCALE:GREGORIAN', ...todos, 'END:VCALENDAR'];
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+// Brackets would otherwise end the link text of the meeting link early
+function markdownLinkText(value: string): string {
+  return value.replace(/([\\[\]])/g, '\\$1');
+}
+
+// Section of the Markdown export
+interface AssigneeSection {
+  label: string;
+  open: number;
+  completed: number;
+  items: FlatActionItem[];
+}
+
+// GitHub task lists, one section per assignee, open items first
+function renderMarkdown(items: FlatActionItem[], sections: AssigneeSection[]): string {
+  const lines = ['# Action items'];
+  for (const group of sections) {
+    lines.push('', `## ${group.label} (${group.open} open, ${group.completed} completed)`, '');
+    const ordered = [...group.items].sort((a, b) => Number(a.completed) - Number(b.completed));
+    for (const item of ordered) {
+      const title = markdownLinkText(item.meeting.title || 'Untitled meeting');
+      const meeting = item.meeting.url ? `[${title}](${item.meeting.url})` : title;
+      const date = item.meeting.date ? `, ${item.meeting.date.slice(0, 10)}` : '';
+      const playback = item.playback_url ? ` · [playback](${item.playback_url})` : '';
+      lines.push(`- [${item.completed ? 'x' : ' '}] ${item.description.replace(/\s*\n\s*/g, ' ')} (${meeting}${date}${playback})`);
+    }
+  }
+  if (items.length === 0) {
+    lines.push('', '_No action items match the filters._');
+  }
+  return `${lines.join('\n')}\n`;
+}
+
+// Markdown sections default to the assignees of the items
+export function renderActionItems(
+  items: FlatActionItem[],
+  format: ActionItemFormat,
+  sections: AssigneeSection[] = groupItems(items, 'assignee')
+): string {
+  switch (format) {
+    case 'csv':
+      return renderCsv(items);
+    case 'ics':
+      return renderIcs(items);
+    default:
+      return renderMarkdown(items, sections);
+  }
+}
+
+// Query parameters of the HTTP download as tool arguments: lists are comma-separated and
+// numbers are parsed, then the result is validated like tool arguments
+export function actionItemArgsFromQuery(query: Record<string, unknown>): Record<string, unknown> {
+  const list = (value: unknown) => (Array.isArray(value) ? value : String(value).split(','))
+    .map(entry => String(entry).trim())
+    .filter(Boolean);
+  const args: Record<string, unknown> = { ...query };
+  for (const key of ['assignee_emails', 'assignee_teams', 'calendar_invitees_domains']) {
+    if (query[key] !== undefined) args[key] = list(query[key]);
+  }
+  for (const key of ['days_back', 'limit']) {
+    if (query[key] !== undefined) args[key] = Number(query[key]);
+  }
+  delete args.redact;
+  delete args.pseudonymize_names;
+  return args;
+}
+
+// Fetch, filter, redact and render action items; shared by the tool and the HTTP download route.
+// Redaction runs on the items before rendering: once rendered, iCalendar line folding or CSV
+// quoting can split an email or a name so that the patterns no longer find it.
+export async function exportActionItems(fathomClient: FathomClient, args: ExportActionItemsArgs & RedactionArgs) {
+  const format = args.format || 'markdown';
+  const { items, meetingsScanned, dateRange, warning } = await collectActionItems(fathomClient, args);
+  const limit = Math.min(args.limit || 1000, 1000);
+  const exported = items.slice(0, limit);
+  logger.debug('Exporting action items', { format, items: exported.length, meetings: meetingsScanned });
+
+  // Assignees as people (name and email) also let pseudonymization find their names in the items.
+  // Sections are grouped on the real emails, which redaction would make identical.
+  const groups = groupItems(exported, 'assignee');
+  const people = groups.map(group => ({
+    name: group.items[0].assignee?.name,
+    email: group.items[0].assignee?.email,
+    open: group.open,
+    completed: group.completed
+  }));
+  const redacted = redactResult(fathomClient.getAccessPolicy().getRedaction(), { assignees: people, items: exported }, args) as {
+    assignees: typeof people;
+    items: FlatActionItem[];
+    filters_applied?: Record<string, unknown>;
+  };
+  const position = new Map(exported.map((item, index) => [item, index]));
+  const sections = groups.map((group, index) => ({
+    label: redacted.assignees[index].name || redacted.assignees[index].email || 'Unassigned',
+    open: group.open,
+    completed: group.completed,
+    items: group.items.map(item => redacted.items[position.get(item)!])
+  }));
+
+  return {
+    format,
+    filename: `fathom-action-items-${new Date().toISOString().slice(0, 10)}.${FILE_EXTENSIONS[format]}`,
+    total_found: items.length,
+    exported: exported.length,
+    has_more: items.length > limit,
+    open: exported.filter(item => !item.completed).length,
+    completed: exported.filter(item => item.completed).length,
+    meetings_scanned: meetingsScanned,
+    filters_applied: {
+      assignee_emails: args.assignee_emails || [],
+      assignee_teams: args.assignee_teams || [],
+      status: args.status || 'all',
+      calendar_invitees_domains: args.calendar_invitees_domains || [],
+      ...dateRange,
+      ...redacted.filters_applied
+    },
+    ...(warning ? { warning } : {}),
+    assignees: redacted.assignees,
+    content: renderActionItems(redacted.items, format, sections)
+  };
+}
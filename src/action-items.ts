@@ -0,0 +1,196 @@
+import { z } from "zod";
+import { FathomClient } from "./fathom-client.js";
+import { buildDateRange, fetchAllMeetings } from "./meeting-lookup.js";
+import { dateString, defineTool, meetingHeaderOutput } from "./tool-registry.js";
+import { FathomListMeetingsParams, FathomMeeting } from "./types.js";
+
+export const listActionItemsInput = z.object({
+  assignee_emails: z.array(z.string()).optional()
+    .describe("Only include items assigned to these email addresses"),
+  assignee_teams: z.array(z.string()).optional()
+    .describe("Only include items whose assignee belongs to one of these teams"),
+  status: z.enum(["all", "open", "completed"]).default("all")
+    .describe("Filter by completion state"),
+  calendar_invitees_domains: z.array(z.string()).optional()
+    .describe("Only include meetings with attendees from these company domains (e.g. acme.com)"),
+  days_back: z.number().int().min(1).max(365).default(180)
+    .describe("Number of days to look back from today (default: 180, max: 365)"),
+  created_after: dateString().optional()
+    .describe("Only include meetings created after this date (ISO 8601 format). Overrides days_back if provided."),
+  created_before: dateString().optional()
+    .describe("Only include meetings created before this date (ISO 8601 format)"),
+  group_by: z.enum(["none", "assignee", "meeting"]).default("none")
+    .describe("Group the action items by assignee or by meeting"),
+  limit: z.number().int().min(1).max(1000).default(200)
+    .describe("Maximum number of action items to return (max: 1000)")
+});
+
+export type ListActionItemsArgs = z.input<typeof listActionItemsInput>;
+
+export const actionItemOutput = z.object({
+  description: z.string(),
+  completed: z.boolean(),
+  user_generated: z.boolean().nullish(),
+  assignee: z.object({ name: z.string().nullish(), email: z.string().nullish(), team: z.string().nullish() }).nullish(),
+  recording_timestamp: z.string().nullish(),
+  playback_url: z.string().nullish(),
+  meeting: z.object(meetingHeaderOutput)
+});
+
+const actionItemCounts = {
+  open: z.number(),
+  completed: z.number()
+};
+
+export const listActionItemsTool = defineTool({
+  name: "list_action_items",
+  description: "List action items across Fathom meetings as one flat list, with filters on assignee, team, completion state, date range and external domain. Results can be grouped by assignee or by meeting, and every item links back to its meeting and playback timestamp. SECURITY: Meetings excluded by the access policy are never included.",
+  inputSchema: listActionItemsInput,
+  outputSchema: z.object({
+    total_found: z.number(),
+    showing: z.number(),
+    has_more: z.boolean(),
+    ...actionItemCounts,
+    meetings_scanned: z.number(),
+    filters_applied: z.object({
+      assignee_emails: z.array(z.string()),
+      assignee_teams: z.array(z.string()),
+      status: z.string(),
+      calendar_invitees_domains: z.array(z.string()),
+      created_after: z.string().optional(),
+      created_before: z.string().optional(),
+      group_by: z.string()
+    }),
+    warning: z.string().optional(),
+    groups: z.array(z.object({ key: z.string(), label: z.string(), items: z.array(actionItemOutput), ...actionItemCounts })).optional(),
+    action_items: z.array(actionItemOutput).optional()
+  }),
+  handler: listActionItems
+});
+
+export interface FlatActionItem {
+  description: string;
+  completed: boolean;
+  user_generated: boolean;
+  assignee?: {
+    name: string;
+    email: string;
+    team: string;
+  };
+  recording_timestamp?: string;
+  playback_url?: string;
+  meeting: {
+    recording_id: number;
+    title: string;
+    date: string;
+    url: string;
+  };
+}
+
+// Flatten the action items of one meeting, linking each back to its meeting
+export function flattenActionItems(meeting: FathomMeeting): FlatActionItem[] {
+  return (meeting.action_items || []).map(item => ({
+    description: item.description,
+    completed: item.completed,
+    user_generated: item.user_generated,
+    assignee: item.assignee,
+    recording_timestamp: item.recording_timestamp,
+    playback_url: item.recording_playback_url,
+    meeting: {
+      recording_id: meeting.recording_id,
+      title: meeting.title || meeting.meeting_title,
+      date: meeting.scheduled_start_time || meeting.created_at,
+      url: meeting.share_url || meeting.url
+    }
+  }));
+}
+
+// Fetch meetings matching the filters and return their action items as one flat list
+export async function collectActionItems(fathomClient: FathomClient, args: ListActionItemsArgs) {
+  const apiParams: FathomListMeetingsParams = {
+    include_action_items: true,
+    include_summary: false,
+    include_transcript: false,
+    include_crm_matches: false,
+    ...buildDateRange(args)
+  };
+  if (args.calendar_invitees_domains?.length) {
+    apiParams.calendar_invitees_domains = args.calendar_invitees_domains;
+  }
+
+  const { meetings, warning } = await fetchAllMeetings(fathomClient, apiParams);
+
+  const emails: string[] = (args.assignee_emails || []).map((email: string) => email.toLowerCase());
+  const teams: string[] = (args.assignee_teams || []).map((team: string) => team.toLowerCase());
+  const status = args.status || 'all';
+
+  const items = meetings.flatMap(flattenActionItems).filter(item => {
+    if (status === 'open' && item.completed) return false;
+    if (status === 'completed' && !item.completed) return false;
+    if (emails.length > 0 && !emails.includes(item.assignee?.email?.toLowerCase() || '')) return false;
+    if (teams.length > 0 && !teams.includes(item.assignee?.team?.toLowerCase() || '')) return false;
+    return true;
+  });
+
+  // Most recent meetings first
+  items.sort((a, b) => Date.parse(b.meeting.date) - Date.parse(a.meeting.date));
+
+  return {
+    items,
+    meetingsScanned: meetings.length,
+    warning,
+    dateRange: { created_after: apiParams.created_after, created_before: apiParams.created_before }
+  };
+}
+
+export function groupItems(items: FlatActionItem[], groupBy: 'assignee' | 'meeting') {
+  const groups = new Map<string, { key: string; label: string; items: FlatActionItem[] }>();
+
+  for (const item of items) {
+    const key = groupBy === 'assignee'
+      ? item.assignee?.email?.toLowerCase() || 'unassigned'
+      : String(item.meeting.recording_id);
+    const label = groupBy === 'assignee'
+      ? item.assignee?.name || item.assignee?.email || 'Unassigned'
+      : item.meeting.title;
+
+    if (!groups.has(key)) {
+      groups.set(key, { key, label, items: [] });
+    }
+    groups.get(key)!.items.push(item);
+  }
+
+  return [...groups.values()].map(group => ({
+    ...group,
+    open: group.items.filter(item => !item.completed).length,
+    completed: group.items.filter(item => item.completed).length
+  }));
+}
+
+export async function listActionItems(fathomClient: FathomClient, args: ListActionItemsArgs) {
+  const { items, meetingsScanned, dateRange, warning } = await collectActionItems(fathomClient, args);
+  const limit = Math.min(args.limit || 200, 1000);
+  const shown = items.slice(0, limit);
+  const groupBy = args.group_by || 'none';
+
+  return {
+    total_found: items.length,
+    showing: shown.length,
+    has_more: items.length > limit,
+    open: items.filter(item => !item.completed).length,
+    completed: items.filter(item => item.completed).length,
+    meetings_scanned: meetingsScanned,
+    filters_applied: {
+      assignee_emails: args.assignee_emails || [],
+      assignee_teams: args.assignee_teams || [],
+      status: args.status || 'all',
+      calendar_invitees_domains: args.calendar_invitees_domains || [],
+      ...dateRange,
+      group_by: groupBy
+    },
+    ...(warning ? { warning } : {}),
+    ...(groupBy === 'assignee' || groupBy === 'meeting'
+      ? { groups: groupItems(shown, groupBy) }
+      : { action_items: shown })
+  };
+}
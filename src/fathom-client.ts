@@ -1,18 +1,87 @@
-import axios, { AxiosInstance, AxiosError } from 'axios';
-import { FathomListMeetingsParams, FathomListMeetingsResponse, FathomMeeting } from './types.js';
+import axios, { AxiosInstance, AxiosError, AxiosResponse } from 'axios';
+import {
+  FathomListMeetingsParams,
+  FathomListMeetingsResponse,
+  FathomMeeting,
+  FathomRecordingSummaryResponse,
+  FathomRecordingTranscriptResponse
+} from './types.js';
+import { AccessPolicy } from './access-policy.js';
+import { toFathomError } from './fathom-errors.js';
+import { recordFixture } from './fathom-fixtures.js';
+import { logger } from './logger.js';
+import { fathomRequestDuration, fathomRequests, fathomRetries, meetingsExcluded } from './metrics.js';
+import { RateLimiter } from './rate-limiter.js';
+
+export interface FathomClientOptions {
+  // Fathom API root, e.g. a local mock server (npm run mock)
+  baseUrl?: string;
+  // Retries after the first attempt for 429, 5xx and network errors
+  maxRetries?: number;
+  requestsPerMinute?: number;
+  maxConcurrent?: number;
+  // Record mode: save every successful response as a fixture file in this directory
+  recordDir?: string | null;
+}
+
+export const DEFAULT_FATHOM_BASE_URL = 'https://api.fathom.ai/external/v1';
+
+// Fathom allows 60 requests per minute per API key
+const DEFAULT_OPTIONS: Required<FathomClientOptions> = {
+  baseUrl: DEFAULT_FATHOM_BASE_URL,
+  maxRetries: 4,
+  requestsPerMinute: 60,
+  maxConcurrent: 4,
+  recordDir: null
+};
+
+const BACKOFF_BASE_MS = 500;
+const BACKOFF_MAX_MS = 30000;
+// Longer Retry-After waits are not worth holding a tool call open for
+const MAX_RETRY_AFTER_SECONDS = 60;
+
+// Seconds to wait from Retry-After (delta seconds or HTTP date), or null
+function parseRetryAfter(value: unknown): number | null {
+  if (typeof value !== 'string' && typeof value !== 'number') return null;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds);
+  const date = Date.parse(String(value));
+  return Number.isNaN(date) ? null : Math.max(0, (date - Date.now()) / 1000);
+}
+
+function isRetryable(error: unknown): boolean {
+  if (!(error instanceof AxiosError)) return false;
+  const status = error.response?.status;
+  return status === undefined || status === 429 || status >= 500;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Endpoint label for metrics, with recording ids collapsed so the label set stays small
+function metricsEndpoint(path: string): string {
+  return path.replace(/\/\d+/g, '/:id');
+}
 
 export class FathomClient {
   private client: AxiosInstance;
   private apiKey: string;
+  private policy: AccessPolicy = new AccessPolicy();
+  private options: Required<FathomClientOptions>;
+  private limiter: RateLimiter;
 
-  constructor(apiKey: string) {
+  constructor(apiKey: string, options: FathomClientOptions = {}) {
     if (!apiKey) {
       throw new Error('Fathom API key is required');
     }
     
     this.apiKey = apiKey;
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    this.limiter = new RateLimiter({
+      requestsPerMinute: this.options.requestsPerMinute,
+      maxConcurrent: this.options.maxConcurrent
+    });
     this.client = axios.create({
-      baseURL: 'https://api.fathom.ai/external/v1',
+      baseURL: this.options.baseUrl,
       headers: {
         'X-Api-Key': apiKey,
         'Content-Type': 'application/json'
@@ -21,81 +90,54 @@ export class FathomClient {
     });
   }
 
+  setAccessPolicy(policy: AccessPolicy): void {
+    this.policy = policy;
+  }
+
+  getAccessPolicy(): AccessPolicy {
+    return this.policy;
+  }
+
+  // Central enforcement point: every meeting returned to tools and resources passes the access policy
   async listMeetings(params?: FathomListMeetingsParams): Promise<FathomListMeetingsResponse> {
-    try {
-      const response = await this.client.get<FathomListMeetingsResponse>('/meetings', {
-        params: this.formatParams(params)
-      });
-      
-      // Debug: Log the first meeting to see what fields are available
-      if (response.data.items.length > 0) {
-        const firstMeeting = response.data.items[0];
-        console.error('[listMeetings] First meeting fields:', Object.keys(firstMeeting));
-        console.error('[listMeetings] First meeting summary:', firstMeeting.default_summary);
-        console.error('[listMeetings] First meeting action_items:', firstMeeting.action_items);
-        
-        // Check for alternative field names (using any to explore unknown fields)
-        const meetingAny = firstMeeting as any;
-        console.error('[listMeetings] Checking for alternative summary fields:');
-        console.error('  - summary:', meetingAny.summary);
-        console.error('  - meeting_summary:', meetingAny.meeting_summary);
-        console.error('  - ai_summary:', meetingAny.ai_summary);
-        console.error('  - notes:', meetingAny.notes);
-        
-        console.error('[listMeetings] Checking for alternative action item fields:');
-        console.error('  - action_items:', firstMeeting.action_items);
-        console.error('  - action_items_list:', meetingAny.action_items_list);
-        console.error('  - tasks:', meetingAny.tasks);
-        console.error('  - todo_items:', meetingAny.todo_items);
-      }
-      
-      return response.data;
-    } catch (error) {
-      throw this.handleError(error);
+    const response = await this.listMeetingsUnfiltered(params);
+    const items = response.items.filter(meeting => this.policy.isAllowed(meeting));
+
+    if (items.length < response.items.length) {
+      const excluded = response.items.length - items.length;
+      meetingsExcluded.inc({}, excluded);
+      logger.info('Access policy excluded meetings', { excluded, fetched: response.items.length });
     }
+
+    return { ...response, items };
   }
 
-  async searchMeetings(searchTerm: string, includeTranscript: boolean = false): Promise<FathomMeeting[]> {
-    // Search in the last 6 months to find more meetings
-    // Use proper API parameters to get summaries and action items
-    const response = await this.listMeetings({
-      include_transcript: includeTranscript,
-      include_summary: true, // This will get the summaries
-      include_action_items: true, // This will get the action items
-      include_crm_matches: false, // We don't need CRM data for search
-      created_after: new Date(Date.now() - 180 * 24 * 60 * 60 * 1000).toISOString() // Last 180 days (6 months)
-    });
-    
-    const searchLower = searchTerm.toLowerCase();
-    console.error(`[searchMeetings] Searching for "${searchTerm}" in ${response.items.length} meetings`);
-    
-    const filteredMeetings = response.items.filter(meeting => {
-      const titleMatch = meeting.title?.toLowerCase().includes(searchLower) ||
-                        meeting.meeting_title?.toLowerCase().includes(searchLower);
-      const summaryMatch = meeting.default_summary?.markdown_formatted?.toLowerCase().includes(searchLower);
-      const actionItemsMatch = meeting.action_items?.some(item =>
-        item.description?.toLowerCase().includes(searchLower)
-      );
-      
-      // Debug logging for matches
-      if (titleMatch || summaryMatch || actionItemsMatch) {
-        console.error(`[searchMeetings] Found match: "${meeting.title || meeting.meeting_title}" - title:${titleMatch}, summary:${summaryMatch}, actionItems:${actionItemsMatch}`);
-      }
-      
-      return titleMatch || summaryMatch || actionItemsMatch;
-    });
-    
-    console.error(`[searchMeetings] Found ${filteredMeetings.length} matching meetings`);
-    
-    // If we need transcripts, fetch them individually for just the matching meetings
-    if (includeTranscript && filteredMeetings.length > 0 && filteredMeetings.length <= 5) {
-      // Only fetch transcripts for up to 5 meetings to avoid timeouts
-      console.error(`Fetching transcripts for ${filteredMeetings.length} meetings...`);
-      // Note: This would require individual meeting fetch API which Fathom doesn't seem to provide
-      // So we'll return without transcripts for now
+  // Raw /meetings request that bypasses the access policy (only for caching and policy audits)
+  async listMeetingsUnfiltered(params?: FathomListMeetingsParams): Promise<FathomListMeetingsResponse> {
+    const response = await this.request<FathomListMeetingsResponse>('/meetings', this.formatParams(params));
+
+    logger.debug('Fetched meetings page', { path: '/meetings', items: response.data.items.length, has_next_page: !!response.data.next_cursor });
+
+    return response.data;
+  }
+
+  // Per-recording endpoints take the meeting (from listMeetings) so the access policy can be checked
+  async getRecordingSummary(meeting: FathomMeeting): Promise<FathomRecordingSummaryResponse> {
+    this.assertAllowed(meeting);
+    const response = await this.request<FathomRecordingSummaryResponse>(`/recordings/${meeting.recording_id}/summary`);
+    return response.data;
+  }
+
+  async getRecordingTranscript(meeting: FathomMeeting): Promise<FathomRecordingTranscriptResponse> {
+    this.assertAllowed(meeting);
+    const response = await this.request<FathomRecordingTranscriptResponse>(`/recordings/${meeting.recording_id}/transcript`);
+    return response.data;
+  }
+
+  private assertAllowed(meeting: FathomMeeting): void {
+    if (!this.policy.isAllowed(meeting)) {
+      throw new Error(`Recording ${meeting.recording_id} is not accessible under the access policy`);
     }
-    
-    return filteredMeetings;
   }
 
   private formatParams(params?: FathomListMeetingsParams): Record<string, any> {
@@ -129,19 +171,80 @@ export class FathomClient {
     return formatted;
   }
 
-  private handleError(error: unknown): Error {
-    if (error instanceof AxiosError) {
-      if (error.response?.status === 429) {
-        return new Error('Rate limit exceeded. Please try again later.');
-      }
-      if (error.response?.status === 401) {
-        return new Error('Invalid API key. Please check your Fathom API key.');
-      }
-      if (error.response?.data?.message) {
-        return new Error(`Fathom API error: ${error.response.data.message}`);
+  // GET through the shared rate limiter, retrying 429, 5xx and network errors with
+  // exponential backoff and full jitter; Retry-After takes precedence over the backoff
+  private async request<T>(path: string, params?: Record<string, any>): Promise<AxiosResponse<T>> {
+    const endpoint = metricsEndpoint(path);
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const response = await this.limiter.schedule(() => this.timedGet<T>(endpoint, path, params));
+        this.trackRateLimit(response.headers);
+        if (this.options.recordDir) {
+          await this.record(path, params, response);
+        }
+        return response;
+      } catch (error) {
+        const headers = error instanceof AxiosError ? error.response?.headers : undefined;
+        const retryAfter = parseRetryAfter(headers?.['retry-after']);
+        if (headers) this.trackRateLimit(headers);
+
+        if (!isRetryable(error) || attempt >= this.options.maxRetries || (retryAfter !== null && retryAfter > MAX_RETRY_AFTER_SECONDS)) {
+          throw toFathomError(error, retryAfter);
+        }
+
+        const backoff = Math.random() * Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** attempt);
+        const delay = retryAfter !== null ? retryAfter * 1000 + Math.random() * BACKOFF_BASE_MS : backoff;
+        if (retryAfter !== null) {
+          this.limiter.pauseUntil(Date.now() + retryAfter * 1000);
+        }
+        const cause = error instanceof AxiosError ? String(error.response?.status || error.code || 'network_error') : 'unknown';
+        fathomRetries.inc({ endpoint, cause });
+        logger.warn('Fathom request failed, retrying', {
+          endpoint,
+          cause,
+          attempt: attempt + 1,
+          max_retries: this.options.maxRetries,
+          delay_ms: Math.round(delay)
+        });
+        await sleep(delay);
       }
     }
-    
-    return error instanceof Error ? error : new Error('Unknown error occurred');
   }
-}
\ No newline at end of file
+
+  // One HTTP attempt, counted and timed by endpoint and status
+  private async timedGet<T>(endpoint: string, path: string, params?: Record<string, any>): Promise<AxiosResponse<T>> {
+    const start = Date.now();
+    let status = 'network_error';
+    try {
+      const response = await fathomRequestDuration.time({ endpoint }, () => this.client.get<T>(path, { params }));
+      status = String(response.status);
+      return response;
+    } catch (error) {
+      if (error instanceof AxiosError && error.response) status = String(error.response.status);
+      throw error;
+    } finally {
+      fathomRequests.inc({ endpoint, status });
+      logger.debug('Fathom request', { endpoint, status, duration_ms: Date.now() - start });
+    }
+  }
+
+  // A fixture that cannot be written is logged and never fails the request
+  private async record(path: string, params: Record<string, any> | undefined, response: AxiosResponse): Promise<void> {
+    try {
+      await recordFixture(this.options.recordDir!, this.apiKey, path, params, response.status, response.data);
+    } catch (error) {
+      logger.warn('Could not record Fathom fixture', { path, error });
+    }
+  }
+
+  // Pause the limiter when the rate-limit headers say the current window is used up
+  private trackRateLimit(headers: Record<string, any>): void {
+    const remaining = Number(headers['ratelimit-remaining'] ?? headers['x-ratelimit-remaining']);
+    const reset = Number(headers['ratelimit-reset'] ?? headers['x-ratelimit-reset']);
+    if (remaining === 0 && Number.isFinite(reset) && reset > 0) {
+      // Reset is either seconds until the window ends or an epoch timestamp
+      const resetAt = reset > 1e9 ? reset * 1000 : Date.now() + reset * 1000;
+      this.limiter.pauseUntil(resetAt);
+    }
+  }
+}
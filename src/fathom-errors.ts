@@ -0,0 +1,83 @@
+import { AxiosError } from 'axios';
+
+// Errors raised by FathomClient, by failure kind, so callers can tell what went wrong
+// without parsing messages. `retryable` marks failures worth retrying later.
+
+export class FathomError extends Error {
+  constructor(message: string, public readonly status: number | null = null, public readonly retryable = false) {
+    super(message);
+    this.name = 'FathomError';
+  }
+}
+
+// 401/403: the API key is missing, invalid or lacks access
+export class FathomAuthError extends FathomError {
+  constructor(message = 'Invalid API key. Please check your Fathom API key.', status = 401) {
+    super(message, status);
+    this.name = 'FathomAuthError';
+  }
+}
+
+// 429 that retries could not get past
+export class FathomRateLimitError extends FathomError {
+  constructor(public readonly retryAfterSeconds: number | null = null) {
+    super(
+      `Rate limit exceeded. Please try again ${retryAfterSeconds ? `in ${Math.ceil(retryAfterSeconds)} seconds` : 'later'}.`,
+      429,
+      true
+    );
+    this.name = 'FathomRateLimitError';
+  }
+}
+
+// 400/422: the request parameters were rejected
+export class FathomValidationError extends FathomError {
+  constructor(message: string, status = 400) {
+    super(message, status);
+    this.name = 'FathomValidationError';
+  }
+}
+
+export class FathomNotFoundError extends FathomError {
+  constructor() {
+    super('Fathom resource not found.', 404);
+    this.name = 'FathomNotFoundError';
+  }
+}
+
+// 5xx, timeouts and network failures
+export class FathomUpstreamError extends FathomError {
+  constructor(message: string, status: number | null = null) {
+    super(message, status, true);
+    this.name = 'FathomUpstreamError';
+  }
+}
+
+// Map an axios failure to a typed error
+export function toFathomError(error: unknown, retryAfterSeconds: number | null = null): Error {
+  if (error instanceof FathomError || !(error instanceof AxiosError)) {
+    return error instanceof Error ? error : new Error('Unknown error occurred');
+  }
+
+  const status = error.response?.status;
+  const apiMessage = error.response?.data?.message;
+  if (!status) {
+    return new FathomUpstreamError(`Fathom API unreachable: ${error.code || error.message}`);
+  }
+  if (status === 429) {
+    return new FathomRateLimitError(retryAfterSeconds);
+  }
+  if (status === 401 || status === 403) {
+    return status === 401 ? new FathomAuthError() : new FathomAuthError(`Fathom API access denied${apiMessage ? `: ${apiMessage}` : ''}`, 403);
+  }
+  if (status === 404) {
+    return new FathomNotFoundError();
+  }
+  if (status >= 500) {
+    return new FathomUpstreamError(`Fathom API unavailable (HTTP ${status})${apiMessage ? `: ${apiMessage}` : ''}`, status);
+  }
+  if (status === 400 || status === 422) {
+    return new FathomValidationError(`Fathom API rejected the request${apiMessage ? `: ${apiMessage}` : ''}`, status);
+  }
+  return new FathomError(apiMessage ? `Fathom API error: ${apiMessage}` : `Fathom API error (HTTP ${status})`, status);
+}
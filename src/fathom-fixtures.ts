@@ -0,0 +1,99 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { logger } from './logger.js';
+import { FathomMeeting, FathomSummary, FathomTranscriptEntry } from './types.js';
+
+// Recorded Fathom API responses, one JSON file per distinct request. FathomClient writes them in
+// record mode and the mock Fathom server (mock-fathom-server.ts) replays them.
+
+export interface FathomFixture {
+  recorded_at: string;
+  request: { path: string; params: Record<string, unknown> };
+  status: number;
+  body: unknown;
+}
+
+// Fathom data replayed by the mock server, merged from all fixtures of a directory
+export interface FixtureStore {
+  // Newest first, like /meetings
+  meetings: FathomMeeting[];
+  summaries: Map<number, FathomSummary>;
+  transcripts: Map<number, FathomTranscriptEntry[]>;
+}
+
+const SCRUBBED = '[REDACTED]';
+
+// meetings-3f2a9c01d4.json, recordings-123-transcript-8b1e...json: stable for the same request
+function fixtureFileName(requestPath: string, params: Record<string, unknown>): string {
+  const slug = requestPath.replace(/^\/+/, '').replace(/[^a-zA-Z0-9]+/g, '-') || 'root';
+  const hash = createHash('sha256').update(JSON.stringify(params)).digest('hex').slice(0, 10);
+  return `${slug}-${hash}.json`;
+}
+
+// Save one successful response. Request headers are never written and any occurrence of the
+// API key is replaced, so fixtures can be shared; they still hold real meeting content.
+export async function recordFixture(
+  dir: string,
+  apiKey: string,
+  requestPath: string,
+  params: Record<string, unknown> | undefined,
+  status: number,
+  body: unknown
+): Promise<void> {
+  const fixture: FathomFixture = {
+    recorded_at: new Date().toISOString(),
+    request: { path: requestPath, params: params || {} },
+    status,
+    body
+  };
+  const json = JSON.stringify(fixture, null, 2).split(apiKey).join(SCRUBBED);
+  const filePath = path.join(dir, fixtureFileName(requestPath, fixture.request.params));
+
+  await fs.mkdir(dir, { recursive: true });
+  await fs.writeFile(filePath, json + '\n');
+  logger.debug('Recorded Fathom fixture', { path: requestPath, file: filePath });
+}
+
+// Read every fixture of a directory. Meetings recorded more than once (several pages, or
+// requests with different include_* flags) are merged field by field.
+export async function loadFixtures(dir: string): Promise<FixtureStore> {
+  const store: FixtureStore = { meetings: [], summaries: new Map(), transcripts: new Map() };
+  const byId = new Map<number, FathomMeeting>();
+  const files = (await fs.readdir(dir)).filter(file => file.endsWith('.json')).sort();
+
+  for (const file of files) {
+    const fixture: FathomFixture = JSON.parse(await fs.readFile(path.join(dir, file), 'utf8'));
+    if (fixture.status !== 200 || !fixture.body) continue;
+    const body = fixture.body as Record<string, any>;
+    const recording = fixture.request.path.match(/^\/recordings\/(\d+)\/(summary|transcript)$/);
+
+    if (fixture.request.path === '/meetings') {
+      for (const meeting of (body.items || []) as FathomMeeting[]) {
+        const merged = { ...byId.get(meeting.recording_id) } as Record<string, unknown>;
+        Object.entries(meeting).forEach(([key, value]) => {
+          if (value !== null && value !== undefined) merged[key] = value;
+        });
+        byId.set(meeting.recording_id, merged as unknown as FathomMeeting);
+      }
+    } else if (recording?.[2] === 'summary' && body.summary) {
+      store.summaries.set(Number(recording[1]), body.summary);
+    } else if (recording?.[2] === 'transcript' && body.transcript) {
+      store.transcripts.set(Number(recording[1]), body.transcript);
+    } else {
+      logger.warn('Skipping unrecognized fixture', { file, path: fixture.request.path });
+    }
+  }
+
+  store.meetings = [...byId.values()].sort((a, b) => Date.parse(b.created_at) - Date.parse(a.created_at));
+  // Per-recording endpoints fall back to the data embedded in /meetings fixtures
+  for (const meeting of store.meetings) {
+    if (meeting.default_summary && !store.summaries.has(meeting.recording_id)) {
+      store.summaries.set(meeting.recording_id, meeting.default_summary);
+    }
+    if (meeting.transcript && !store.transcripts.has(meeting.recording_id)) {
+      store.transcripts.set(meeting.recording_id, meeting.transcript);
+    }
+  }
+  return store;
+}
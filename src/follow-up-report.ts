@@ -0,0 +1,284 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import { FathomClient } from "./fathom-client.js";
+import { logger } from "./logger.js";
+import { buildDateRange, fetchAllMeetings } from "./meeting-lookup.js";
+import { MeetingNotFoundError } from "./meeting-tools.js";
+import { tokenize } from "./search-index.js";
+import { dateString, defineTool, meetingHeaderOutput } from "./tool-registry.js";
+import { FathomListMeetingsParams, FathomMeeting, FathomTranscriptEntry } from "./types.js";
+
+const followUpReportInput = z.object({
+  recording_id: z.number().int().positive().optional()
+    .describe("Report on this meeting: its previous and next meetings with the same attendees"),
+  domain: z.string().optional()
+    .describe("Report on the most recent meetings with a company email domain (e.g. acme.com)"),
+  attendee_email: z.string().optional()
+    .describe("Report on the most recent meetings with this attendee"),
+  max_pairs: z.number().int().min(1).max(20).default(5)
+    .describe("Maximum number of meeting pairs to report with domain or attendee_email (default: 5)"),
+  include_transcripts: z.boolean().default(false)
+    .describe("Also look for earlier action items in the later meetings' transcripts (one extra Fathom request per meeting)"),
+  days_back: z.number().int().min(1).max(365).default(180)
+    .describe("Number of days of history to include (default: 180, max: 365)"),
+  created_after: dateString().optional()
+    .describe("Only include meetings created after this date (ISO 8601 format). Overrides days_back if provided."),
+  created_before: dateString().optional()
+    .describe("Only include meetings created before this date (ISO 8601 format)")
+});
+
+type FollowUpReportArgs = z.input<typeof followUpReportInput>;
+
+const followUpItemOutput = z.object({
+  description: z.string(),
+  assignee: z.string().nullish(),
+  status: z.enum(["completed", "open"]),
+  discussed_again: z.boolean(),
+  evidence: z.object({
+    source: z.enum(["summary", "transcript"]),
+    text: z.string(),
+    speaker: z.string().nullish(),
+    timestamp: z.string().nullish()
+  }).nullable(),
+  playback_url: z.string().nullish()
+});
+
+export const followUpReportTool = defineTool({
+  name: "follow_up_report",
+  description: "Follow-up tracking between consecutive meetings with the same attendees. Given a recording_id, a company domain or an attendee email, pairs each meeting with the previous (or next) meeting whose attendees overlap and reports which action items of the earlier meeting are completed, which are still open, and which look discussed again in the later meeting's summary (or transcript, with include_transcripts). The most recent meeting is reported with later: null, listing what is still open before the next check-in. SECURITY: Meetings excluded by the access policy are never included.",
+  inputSchema: followUpReportInput,
+  outputSchema: z.object({
+    mode: z.enum(["recording", "domain", "attendee"]),
+    meetings_scanned: z.number(),
+    meetings_matched: z.number(),
+    filters_applied: z.object({ created_after: z.string().optional(), created_before: z.string().optional() }),
+    warning: z.string().optional(),
+    follow_ups: z.array(z.object({
+      earlier: z.object(meetingHeaderOutput),
+      later: z.object(meetingHeaderOutput).nullable(),
+      shared_attendees: z.array(z.string()),
+      days_between: z.number().nullable(),
+      completed: z.number(),
+      open: z.number(),
+      discussed_again: z.number(),
+      open_not_discussed: z.number(),
+      action_items: z.array(followUpItemOutput)
+    }))
+  }),
+  handler: followUpReport
+});
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const EVIDENCE_LENGTH = 200;
+// Share of an item's keywords a summary line or transcript entry must contain to count as discussed
+const MATCH_RATIO = 0.5;
+
+// Verbs found in most action items; matching on them alone would mark everything as discussed
+const GENERIC_WORDS = new Set([
+  'send', 'share', 'follow', 'up', 'schedule', 'set', 'check', 'review', 'make', 'get', 'provide', 'prepare',
+  'confirm', 'update', 'discuss', 'next', 'week', 'will', 'need', 'them', 'their', 'team'
+]);
+
+function meetingDate(meeting: FathomMeeting): string {
+  return meeting.scheduled_start_time || meeting.created_at;
+}
+
+function meetingHeader(meeting: FathomMeeting) {
+  return {
+    recording_id: meeting.recording_id,
+    title: meeting.title || meeting.meeting_title,
+    date: meetingDate(meeting),
+    url: meeting.share_url || meeting.url
+  };
+}
+
+// Attendees two meetings have in common. When either has external attendees only those count,
+// otherwise every call of the same account manager, internal or not, would look like a follow-up.
+function sharedAttendees(earlier: FathomMeeting, later: FathomMeeting): string[] {
+  const external = [earlier, later].some(meeting => (meeting.calendar_invitees || []).some(invitee => invitee.is_external));
+  const emails = (meeting: FathomMeeting) => new Set((meeting.calendar_invitees || [])
+    .filter(invitee => invitee.email && (!external || invitee.is_external))
+    .map(invitee => invitee.email.toLowerCase()));
+  const laterEmails = emails(later);
+  return [...emails(earlier)].filter(email => laterEmails.has(email));
+}
+
+// Crude stemming so "questions" matches "question" and "answering" matches "answer"
+function stem(token: string): string {
+  return token.length > 4 ? token.replace(/(ing|ed|es|s)$/, '') : token;
+}
+
+function keywords(text: string): string[] {
+  return [...new Set(tokenize(text).filter(token => token.length > 2 && !GENERIC_WORDS.has(token)).map(stem))];
+}
+
+interface TextUnit {
+  source: 'summary' | 'transcript';
+  text: string;
+  speaker?: string;
+  timestamp?: string;
+}
+
+// Summary lines (without markdown) and transcript entries of the later meeting
+function textUnits(meeting: FathomMeeting, transcript: FathomTranscriptEntry[] | undefined): TextUnit[] {
+  const summaryLines = (meeting.default_summary?.markdown_formatted || '').split('\n')
+    .map(line => line.replace(/\[([^\]]*)\]\([^)]*\)/g, '$1').replace(/[*_`>#]/g, '').replace(/^\s*[-+]\s+/, '').trim())
+    .filter(line => line.length > 0);
+  return [
+    ...summaryLines.map(text => ({ source: 'summary' as const, text })),
+    ...(transcript || []).map(entry => ({
+      source: 'transcript' as const,
+      text: entry.text,
+      speaker: entry.speaker?.display_name,
+      timestamp: entry.timestamp
+    }))
+  ];
+}
+
+// The summary line or transcript entry that best matches an action item, if any matches well enough
+function findEvidence(description: string, units: Array<TextUnit & { stems: Set<string> }>) {
+  const itemKeywords = keywords(description);
+  if (itemKeywords.length === 0) return null;
+
+  const required = Math.min(2, itemKeywords.length);
+  let best: { unit: TextUnit; hits: number } | null = null;
+  for (const unit of units) {
+    const hits = itemKeywords.filter(keyword => unit.stems.has(keyword)).length;
+    if (hits >= required && hits / itemKeywords.length >= MATCH_RATIO && (!best || hits > best.hits)) {
+      best = { unit, hits };
+    }
+  }
+  if (!best) return null;
+
+  const { source, text, speaker, timestamp } = best.unit;
+  return {
+    source,
+    text: text.length > EVIDENCE_LENGTH ? `${text.slice(0, EVIDENCE_LENGTH - 1)}…` : text,
+    speaker,
+    timestamp
+  };
+}
+
+function compareMeetings(earlier: FathomMeeting, later: FathomMeeting | null, transcript: FathomTranscriptEntry[] | undefined) {
+  const units = later
+    ? textUnits(later, transcript).map(unit => ({ ...unit, stems: new Set(keywords(unit.text)) }))
+    : [];
+  const items = (earlier.action_items || []).map(item => {
+    const evidence = findEvidence(item.description, units);
+    return {
+      description: item.description,
+      assignee: item.assignee?.name || item.assignee?.email,
+      status: item.completed ? 'completed' as const : 'open' as const,
+      discussed_again: evidence !== null,
+      evidence,
+      playback_url: item.recording_playback_url
+    };
+  });
+
+  return {
+    earlier: meetingHeader(earlier),
+    later: later ? meetingHeader(later) : null,
+    shared_attendees: later ? sharedAttendees(earlier, later) : [],
+    days_between: later ? Math.round((new Date(meetingDate(later)).getTime() - new Date(meetingDate(earlier)).getTime()) / DAY_MS) : null,
+    completed: items.filter(item => item.status === 'completed').length,
+    open: items.filter(item => item.status === 'open').length,
+    discussed_again: items.filter(item => item.discussed_again).length,
+    open_not_discussed: items.filter(item => item.status === 'open' && !item.discussed_again).length,
+    action_items: items
+  };
+}
+
+// Latest meeting before index that shares attendees with meetings[index] (meetings oldest first)
+function previousFollowedUp(meetings: FathomMeeting[], index: number): FathomMeeting | null {
+  for (let i = index - 1; i >= 0; i--) {
+    if (sharedAttendees(meetings[i], meetings[index]).length > 0) return meetings[i];
+  }
+  return null;
+}
+
+function nextFollowUp(meetings: FathomMeeting[], index: number): FathomMeeting | null {
+  for (let i = index + 1; i < meetings.length; i++) {
+    if (sharedAttendees(meetings[index], meetings[i]).length > 0) return meetings[i];
+  }
+  return null;
+}
+
+export async function followUpReport(fathomClient: FathomClient, args: FollowUpReportArgs) {
+  const domain = args.domain?.trim().toLowerCase().replace(/^@/, '');
+  const email = args.attendee_email?.trim().toLowerCase();
+  const given = [args.recording_id !== undefined, !!domain, !!email].filter(Boolean).length;
+  if (given !== 1) {
+    throw new McpError(ErrorCode.InvalidParams, 'Exactly one of recording_id, domain or attendee_email is required');
+  }
+  const mode: 'recording' | 'domain' | 'attendee' = args.recording_id !== undefined ? 'recording' : domain ? 'domain' : 'attendee';
+
+  const dateRange = buildDateRange(args);
+  const apiParams: FathomListMeetingsParams = {
+    include_summary: true,
+    include_action_items: true,
+    include_transcript: false,
+    include_crm_matches: false,
+    ...dateRange
+  };
+  // Fathom filters by invitee domain only, so an attendee's meetings are narrowed down here
+  const filterDomain = domain || email?.split('@')[1];
+  if (filterDomain) {
+    apiParams.calendar_invitees_domains = [filterDomain];
+  }
+
+  const { meetings: fetched, warning } = await fetchAllMeetings(fathomClient, apiParams);
+  const meetings = (email
+    ? fetched.filter(meeting => (meeting.calendar_invitees || []).some(invitee => invitee.email?.toLowerCase() === email))
+    : fetched
+  ).sort((a, b) => Date.parse(meetingDate(a)) - Date.parse(meetingDate(b)));
+
+  // Pairs of (earlier, later) meetings; later is null for the most recent meeting
+  const pairs: Array<[FathomMeeting, FathomMeeting | null]> = [];
+  if (mode === 'recording') {
+    const index = meetings.findIndex(meeting => meeting.recording_id === args.recording_id);
+    if (index < 0) {
+      throw new MeetingNotFoundError(`recording ${args.recording_id} (within the date range)`);
+    }
+    const previous = previousFollowedUp(meetings, index);
+    if (previous) pairs.push([previous, meetings[index]]);
+    pairs.push([meetings[index], nextFollowUp(meetings, index)]);
+  } else if (meetings.length > 0) {
+    const maxPairs = args.max_pairs ?? 5;
+    pairs.push([meetings[meetings.length - 1], null]);
+    for (let index = meetings.length - 1; index > 0 && pairs.length < maxPairs; index--) {
+      const previous = previousFollowedUp(meetings, index);
+      if (previous) pairs.push([previous, meetings[index]]);
+    }
+  }
+
+  // A missing transcript only narrows the matching down to the summary
+  const transcripts = new Map<number, FathomTranscriptEntry[]>();
+  const unavailable: number[] = [];
+  if (args.include_transcripts) {
+    const laterMeetings = [...new Map(pairs.flatMap(([, later]) => later ? [[later.recording_id, later] as const] : [])).values()];
+    await Promise.all(laterMeetings.map(async meeting => {
+      try {
+        const response = await fathomClient.getRecordingTranscript(meeting);
+        transcripts.set(meeting.recording_id, response.transcript);
+      } catch (error) {
+        logger.warn('Transcript unavailable for follow-up report', { recording_id: meeting.recording_id, error });
+        unavailable.push(meeting.recording_id);
+      }
+    }));
+  }
+  const warnings = [
+    ...(warning ? [warning] : []),
+    ...(unavailable.length ? [`Transcripts unavailable for recordings ${unavailable.sort((a, b) => a - b).join(', ')}; only their summaries were searched`] : [])
+  ];
+
+  logger.debug('Follow-up report', { mode, meetings: meetings.length, pairs: pairs.length, transcripts: transcripts.size });
+
+  return {
+    mode,
+    meetings_scanned: fetched.length,
+    meetings_matched: meetings.length,
+    filters_applied: dateRange,
+    ...(warnings.length ? { warning: warnings.join('. ') } : {}),
+    follow_ups: pairs.map(([earlier, later]) => compareMeetings(earlier, later, later ? transcripts.get(later.recording_id) : undefined))
+  };
+}
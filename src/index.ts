@@ -1,611 +1,628 @@
 #!/usr/bin/env node
 
-import { FathomClient } from "./fathom-client.js";
+import { FathomClient, FathomClientOptions } from "./fathom-client.js";
+import { ACTION_ITEM_CONTENT_TYPES, actionItemArgsFromQuery, exportActionItems, exportActionItemsTool } from "./action-item-export.js";
+import { CachedFathomClient } from "./meeting-cache.js";
+import { AccessPolicy } from "./access-policy.js";
+import { logger, withLogContext } from "./logger.js";
+import { findMeeting } from "./meeting-lookup.js";
+import { MeetingNotFoundError } from "./meeting-tools.js";
+import { METRICS_CONTENT_TYPE, renderMetrics } from "./metrics.js";
+import {
+  bearerChallenge,
+  JwksKeyResolver,
+  JwtTokenVerifier,
+  looksLikeJwt,
+  protectedResourceMetadataRouter,
+  PROTECTED_RESOURCE_METADATA_PATH,
+  tenantFromAuthInfo,
+  UserIdentity,
+  userFromAuthInfo
+} from "./oauth.js";
+import { BuiltInAuthorizationServer, createAuthorizationServerRouter } from "./oauth-server.js";
+import { redactResult } from "./redaction.js";
+import { parseToolArguments } from "./tool-registry.js";
+import { buildTranscriptExport, exportTranscriptTool, TRANSCRIPT_CONTENT_TYPES, transcriptArgsFromQuery } from "./transcript-export.js";
+import { ClientFactory, hashToken, Tenant, TenantRegistry } from "./tenants.js";
+import { createServer } from "./server.js";
+import {
+  createListChangedHandler,
+  createLocalStoreHandler,
+  createOutboundWebhookHandler,
+  dispatchWebhookEvent,
+  forgetWebhookDelivery,
+  parseWebhookMeeting,
+  verifyWebhook,
+  WebhookHandler,
+  WebhookVerificationError
+} from "./webhooks.js";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { InsufficientScopeError, OAuthError } from "@modelcontextprotocol/sdk/server/auth/errors.js";
+import { OAuthTokenVerifier } from "@modelcontextprotocol/sdk/server/auth/provider.js";
+import { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import { isInitializeRequest, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { randomUUID, timingSafeEqual } from "node:crypto";
+import path from "node:path";
 import express from "express";
 import cors from "cors";
 
-// Note: We're using HTTP-based MCP protocol, so no schema validation needed
+// Whole-number setting of at least `min`, or undefined when unset. A typo stops startup instead
+// of passing NaN on (a NaN or zero rate limit would stall every Fathom request).
+function integerSetting(name: string, min: number): number | undefined {
+  const value = process.env[name]?.trim();
+  if (!value) return undefined;
+  if (!/^\d+$/.test(value) || Number(value) < min) {
+    logger.error(`${name} must be a whole number of at least ${min}`, { value });
+    process.exit(1);
+  }
+  return Number(value);
+}
 
 // Environment variables validation
 const apiKey = process.env.FATHOM_API_KEY;
 const bearerToken = process.env.MCP_BEARER_TOKEN;
 
+// Multi-tenant mode: token registry file mapping hashed bearer tokens to Fathom API keys
+const tenantsFile = process.env.MCP_TENANTS_FILE;
+
+// Transport selection: `--stdio` flag or MCP_TRANSPORT=stdio runs as a local subprocess
+const useStdio = process.argv.includes('--stdio') || process.env.MCP_TRANSPORT === 'stdio';
+
+// `sync` subcommand: refresh the local meeting cache once and exit
+const runSync = process.argv[2] === 'sync';
+
+// Local meeting cache: enabled by setting FATHOM_DATA_DIR
+const dataDir = process.env.FATHOM_DATA_DIR;
+const cacheRefreshMinutes = integerSetting('FATHOM_CACHE_REFRESH_MINUTES', 0) ?? 15;
+const cacheRefreshWindowDays = integerSetting('FATHOM_CACHE_REFRESH_WINDOW_DAYS', 0);
+
+// Fathom API retries and rate limiting, shared by all tool calls of a tenant (defaults in FathomClient).
+// FATHOM_API_BASE_URL points the server at another API root such as the mock server, and
+// FATHOM_RECORD_DIR saves every Fathom response there as a fixture the mock server can replay.
+const maxRetries = integerSetting('FATHOM_MAX_RETRIES', 0);
+const requestsPerMinute = integerSetting('FATHOM_RATE_LIMIT_PER_MINUTE', 1);
+const maxConcurrent = integerSetting('FATHOM_MAX_CONCURRENCY', 1);
+const clientOptions: FathomClientOptions = {
+  ...(process.env.FATHOM_API_BASE_URL ? { baseUrl: process.env.FATHOM_API_BASE_URL } : {}),
+  ...(process.env.FATHOM_RECORD_DIR ? { recordDir: process.env.FATHOM_RECORD_DIR } : {}),
+  ...(maxRetries !== undefined ? { maxRetries } : {}),
+  ...(requestsPerMinute !== undefined ? { requestsPerMinute } : {}),
+  ...(maxConcurrent !== undefined ? { maxConcurrent } : {})
+};
+
+// Fathom webhooks: signing secret (single-tenant mode) and optional forwarding of verified events
+const webhookSecret = process.env.FATHOM_WEBHOOK_SECRET || null;
+const webhookForwardUrl = process.env.FATHOM_WEBHOOK_FORWARD_URL;
+const webhookForwardSecret = process.env.FATHOM_WEBHOOK_FORWARD_SECRET || null;
+
+// Optional bearer token for /metrics (open when unset, like /health); only its hash is kept
+const metricsToken = process.env.MCP_METRICS_TOKEN;
+const metricsAuthorizationHash = metricsToken ? hashToken(`Bearer ${metricsToken}`) : null;
+
+// Bearer token for the access policy audit (/policy/check), which reads meetings the policy
+// hides; the endpoint is disabled when unset. Only its hash is kept.
+const adminToken = process.env.MCP_ADMIN_TOKEN;
+const adminAuthorizationHash = adminToken ? hashToken(`Bearer ${adminToken}`) : null;
+
+const port = process.env.PORT || 3000;
+
+// Reverse proxies trusted for X-Forwarded-For (Express "trust proxy"): a hop count, true, or
+// addresses and subnets such as loopback or 10.0.0.0/8. Unset, the client IP is the peer address,
+// so behind a proxy every sign-in would share the proxy's failed sign-in limit.
+const trustProxySetting = (process.env.MCP_TRUST_PROXY || '').trim();
+const trustProxy: boolean | number | string = !trustProxySetting || trustProxySetting === 'false'
+  ? false
+  : trustProxySetting === 'true' ? true : /^\d+$/.test(trustProxySetting) ? Number(trustProxySetting) : trustProxySetting;
+
+// OAuth: JWT access tokens from an external authorization server (MCP_OAUTH_ISSUER and
+// MCP_OAUTH_JWKS_URL) or from the built-in one (MCP_OAUTH_USERS_FILE), accepted next to the
+// static bearer tokens. MCP_PUBLIC_URL is the address clients reach this server at.
+const publicUrl = new URL(process.env.MCP_PUBLIC_URL || `http://localhost:${port}`).href;
+const resourceUrl = new URL('/mcp', publicUrl).href;
+const resourceMetadataUrl = new URL(PROTECTED_RESOURCE_METADATA_PATH, publicUrl).href;
+const oauthIssuer = process.env.MCP_OAUTH_ISSUER;
+const oauthJwksUrl = process.env.MCP_OAUTH_JWKS_URL;
+const oauthUsersFile = process.env.MCP_OAUTH_USERS_FILE;
+const oauthScopes = (process.env.MCP_OAUTH_REQUIRED_SCOPES || '').split(/[\s,]+/).filter(Boolean);
+const oauthTenantClaim = process.env.MCP_OAUTH_TENANT_CLAIM || 'tenant';
+const useOAuth = !!(oauthIssuer || oauthJwksUrl || oauthUsersFile) && !useStdio && !runSync;
+
+// In stdio mode stdout carries protocol frames only, so route all logging to stderr
+if (useStdio || runSync) {
+  console.log = console.error;
+}
+
 // Set MCP timeout environment variable
 process.env.MCP_TIMEOUT = process.env.MCP_TIMEOUT || '300000'; // 5 minutes
 
-if (!apiKey) {
-  console.error("Error: FATHOM_API_KEY environment variable is required");
+const useTenants = !!tenantsFile && !useStdio;
+
+if (!apiKey && !useTenants) {
+  logger.error("FATHOM_API_KEY environment variable is required");
   process.exit(1);
 }
 
-if (!bearerToken) {
-  console.error("Error: MCP_BEARER_TOKEN environment variable is required");
+if (!bearerToken && !useTenants && !useOAuth && !useStdio && !runSync) {
+  logger.error("MCP_BEARER_TOKEN, MCP_TENANTS_FILE or an MCP_OAUTH_* configuration is required");
   process.exit(1);
 }
 
-const fathomClient = new FathomClient(apiKey);
+if (useOAuth && oauthUsersFile && (oauthIssuer || oauthJwksUrl)) {
+  logger.error("MCP_OAUTH_USERS_FILE (built-in authorization server) cannot be combined with MCP_OAUTH_ISSUER or MCP_OAUTH_JWKS_URL");
+  process.exit(1);
+}
 
-// Note: We're using HTTP-based MCP protocol, so no MCP server instance needed
+if (useOAuth && !oauthUsersFile && !(oauthIssuer && oauthJwksUrl)) {
+  logger.error("MCP_OAUTH_ISSUER and MCP_OAUTH_JWKS_URL are both required for an external authorization server");
+  process.exit(1);
+}
+
+if (runSync && !dataDir) {
+  logger.error("FATHOM_DATA_DIR environment variable is required for sync");
+  process.exit(1);
+}
+
+// Build a tenant's client; each tenant gets its own cache directory under FATHOM_DATA_DIR
+const createClient: ClientFactory = (key, tenantId, policy) => {
+  let client: FathomClient;
+  if (dataDir) {
+    const cachedClient = new CachedFathomClient(key, tenantId ? path.join(dataDir, tenantId) : dataDir, clientOptions, cacheRefreshWindowDays);
+    if (!runSync && cacheRefreshMinutes > 0) {
+      logger.info('Meeting cache enabled', { tenant: tenantId || 'default', refresh_minutes: cacheRefreshMinutes });
+      cachedClient.startBackgroundRefresh(cacheRefreshMinutes);
+    }
+    client = cachedClient;
+  } else {
+    client = new FathomClient(key, clientOptions);
+  }
+  client.setAccessPolicy(policy);
+  return client;
+};
+
+// Access policy: FATHOM_POLICY_FILE (JSON) or the built-in default exclusions
+const policyFile = process.env.FATHOM_POLICY_FILE;
+let registry: TenantRegistry;
+// Set when OAuth is enabled; the built-in authorization server verifies its own tokens
+let tokenVerifier: OAuthTokenVerifier | null = null;
+let authorizationServer: BuiltInAuthorizationServer | null = null;
+try {
+  const defaultPolicy = AccessPolicy.load(policyFile);
+  logger.info('Access policy loaded', { source: policyFile || 'built-in defaults' });
+  if (clientOptions.baseUrl) {
+    logger.info('Using a custom Fathom API base URL', { base_url: clientOptions.baseUrl });
+  }
+  if (clientOptions.recordDir) {
+    logger.warn('Record mode: Fathom responses are saved as fixtures, including meeting content', { dir: clientOptions.recordDir });
+  }
 
-// Bearer token authentication middleware
-function authenticateSSE(req: express.Request, res: express.Response, next: express.NextFunction) {
-  console.log('Authenticating MCP request...');
-  console.log('Request method:', req.method);
+  registry = useTenants
+    ? TenantRegistry.fromFile(tenantsFile!, createClient, defaultPolicy)
+    : TenantRegistry.fromStaticToken(bearerToken || '', apiKey!, createClient, defaultPolicy, webhookSecret);
+
+  if (useOAuth && oauthUsersFile) {
+    authorizationServer = new BuiltInAuthorizationServer({
+      issuer: publicUrl,
+      audience: resourceUrl,
+      usersFile: oauthUsersFile,
+      scopes: oauthScopes,
+      tenantClaim: oauthTenantClaim,
+      signingKeyFile: process.env.MCP_OAUTH_SIGNING_KEY_FILE,
+      accessTokenTtlSeconds: integerSetting('MCP_OAUTH_ACCESS_TOKEN_TTL_SECONDS', 1)
+    });
+    tokenVerifier = authorizationServer;
+  } else if (useOAuth) {
+    tokenVerifier = new JwtTokenVerifier(new JwksKeyResolver(oauthJwksUrl!).resolve, {
+      issuer: oauthIssuer!,
+      audience: process.env.MCP_OAUTH_AUDIENCE || resourceUrl,
+      requiredScopes: oauthScopes,
+      tenantClaim: oauthTenantClaim
+    });
+  }
+} catch (error) {
+  logger.error("Could not load configuration", { error });
+  process.exit(1);
+}
+
+// Active Streamable HTTP sessions, keyed by Mcp-Session-Id; each belongs to the tenant (and OAuth user) that opened it.
+// The tenant is kept as it was when the session opened: its client and allowed tools are bound to the session's server.
+const sessions: Record<string, { transport: StreamableHTTPServerTransport; server: Server; tenant: Tenant; userId: string | null }> = {};
+
+// Whether a session opened with an earlier version of a tenant still has the current permissions
+function sameTenantPermissions(opened: Tenant, current: Tenant | undefined): boolean {
+  return !!current
+    && opened.fathomClient === current.fathomClient
+    && JSON.stringify(opened.allowedTools) === JSON.stringify(current.allowedTools);
+}
+
+// After a registry reload, close the sessions of tenants that were removed or whose client
+// (API key, access policy) or allowed tools changed; their clients start a new session
+function closeStaleSessions() {
+  Object.entries(sessions).forEach(([sessionId, session]) => {
+    if (!sameTenantPermissions(session.tenant, registry.getTenant(session.tenant.id))) {
+      logger.info('Closing MCP session after a tenant change', { session_id: sessionId, tenant: session.tenant.id });
+      delete sessions[sessionId];
+      session.transport.close().catch(error => logger.warn('Could not close MCP session', { session_id: sessionId, error }));
+    }
+  });
+}
+
+// Correlation id for every log entry of a request: X-Request-Id from the caller or a new one,
+// echoed in the response. Also logs each request once it is answered.
+function requestContext(req: express.Request, res: express.Response, next: express.NextFunction) {
+  const requestId = req.get('x-request-id') || randomUUID();
+  const start = Date.now();
+  res.setHeader('X-Request-Id', requestId);
+  res.on('finish', () => {
+    logger.info('HTTP request', {
+      request_id: requestId,
+      tenant: res.locals.tenant?.id,
+      user: res.locals.user?.sub,
+      method: req.method,
+      path: req.path,
+      status: res.statusCode,
+      duration_ms: Date.now() - start
+    });
+  });
+  withLogContext({ request_id: requestId }, next);
+}
+
+// Bearer token authentication middleware; the matching tenant is stored in res.locals.tenant.
+// Static and tenant tokens are checked first, then OAuth access tokens (JWTs), whose user is
+// stored in res.locals.user and handed to the MCP transport as req.auth.
+async function authenticateSSE(req: express.Request & { auth?: AuthInfo }, res: express.Response, next: express.NextFunction) {
   // Note: Not logging request body to avoid exposing sensitive data
-  
   const authHeader = req.headers['authorization'];
   const token = authHeader && authHeader.split(' ')[1]; // Bearer TOKEN
 
   if (!token) {
-    console.log('No token provided');
+    logger.info('Rejected request without access token');
+    if (tokenVerifier) {
+      res.setHeader('WWW-Authenticate', bearerChallenge(resourceMetadataUrl));
+    }
     res.status(401).json({ error: 'Access token required' });
     return;
   }
 
-  if (token !== bearerToken) {
-    console.log('Invalid token provided');
-    res.status(403).json({ error: 'Invalid access token' });
+  const result = registry.authenticate(token);
+  if (result.ok) {
+    res.locals.tenant = result.tenant;
+    withLogContext({ tenant: result.tenant.id, session_id: req.headers['mcp-session-id'] }, next);
+    return;
+  }
+
+  if (!tokenVerifier || !looksLikeJwt(token)) {
+    logger.info('Rejected request with invalid access token', { reason: result.reason });
+    res.status(403).json({ error: result.reason === 'expired' ? 'Access token expired' : 'Invalid access token' });
     return;
   }
 
-  console.log('Authentication successful, handling MCP request');
-  
-  // Handle MCP protocol messages directly
-  handleMCPRequest(req, res);
+  let authInfo: AuthInfo;
+  try {
+    authInfo = await tokenVerifier.verifyAccessToken(token);
+  } catch (error) {
+    if (!(error instanceof OAuthError)) {
+      logger.error('OAuth token verification failed', { error });
+      res.status(500).json({ error: 'Internal server error' });
+      return;
+    }
+    logger.info('Rejected OAuth access token', { reason: error.message });
+    res.setHeader('WWW-Authenticate', bearerChallenge(resourceMetadataUrl, error));
+    res.status(error instanceof InsufficientScopeError ? 403 : 401).json(error.toResponseObject());
+    return;
+  }
+
+  // Single-tenant mode serves every user from the default tenant; otherwise the token names it
+  const user = userFromAuthInfo(authInfo)!;
+  const tenantId = tenantFromAuthInfo(authInfo);
+  const tenant = useTenants ? (tenantId ? registry.getTenant(tenantId) : undefined) : registry.getTenants()[0];
+  if (!tenant || (tenant.expiresAt && tenant.expiresAt.getTime() <= Date.now())) {
+    logger.info('Rejected OAuth user without an active tenant', { user: user.sub, tenant: tenantId });
+    res.status(403).json({ error: `No active tenant for this user (claim ${oauthTenantClaim})` });
+    return;
+  }
+
+  req.auth = authInfo;
+  res.locals.tenant = tenant;
+  res.locals.user = user;
+  withLogContext({ tenant: tenant.id, user: user.sub, session_id: req.headers['mcp-session-id'] }, next);
+}
+
+// Send a JSON-RPC error for requests rejected before reaching a transport
+function sendJSONRPCError(res: express.Response, status: number, code: number, message: string) {
+  res.status(status).json({
+    jsonrpc: '2.0',
+    error: { code, message },
+    id: null
+  });
 }
 
-// Handle MCP protocol requests directly
+// Route MCP requests (POST messages, GET streams, DELETE session) to the Streamable HTTP transport
 async function handleMCPRequest(req: express.Request, res: express.Response) {
-  console.log('Handling MCP request (method:', req.body?.method || 'unknown', ')');
-  
+  const sessionId = req.headers['mcp-session-id'] as string | undefined;
+  const tenant: Tenant = res.locals.tenant;
+  const user: UserIdentity | undefined = res.locals.user;
+  logger.debug('Handling MCP request', { method: req.method });
+
   try {
-    // Note: We're using HTTP-based MCP protocol, so no server initialization needed
-    
-    const { method, params, id } = req.body;
-    
-    // Handle different MCP protocol messages
-    if (method === 'initialize') {
-      console.log('Handling initialize request');
-      const response = {
-        jsonrpc: '2.0',
-        id,
-        result: {
-          protocolVersion: '2024-11-05',
-  capabilities: {
-    tools: {},
-    resources: {},
-    prompts: {}
-          },
-          serverInfo: {
-            name: 'mcp-fathom-server',
-            version: '1.0.0'
-          }
+    const session = sessionId ? sessions[sessionId] : undefined;
+    let transport = session?.transport;
+
+    if (session && session.tenant.id !== tenant.id) {
+      sendJSONRPCError(res, 403, -32001, 'Session belongs to another access token');
+      return;
+    }
+    if (session && !sameTenantPermissions(session.tenant, tenant)) {
+      // Reload raced with this request; a 404 makes the client open a new session with the current permissions
+      closeStaleSessions();
+      sendJSONRPCError(res, 404, -32001, 'Session expired after an access change');
+      return;
+    }
+    if (session && session.userId !== (user?.sub ?? null)) {
+      sendJSONRPCError(res, 403, -32001, 'Session belongs to another user');
+      return;
+    }
+
+    if (!transport) {
+      if (sessionId) {
+        sendJSONRPCError(res, 404, -32001, 'Session not found');
+        return;
+      }
+
+      const messages = Array.isArray(req.body) ? req.body : [req.body];
+      if (req.method !== 'POST' || !messages.some(message => isInitializeRequest(message))) {
+        sendJSONRPCError(res, 400, -32000, 'Bad Request: No valid session ID provided');
+        return;
+      }
+
+      // New session: one MCP server instance per client session
+      const server = createServer(tenant.fathomClient, { allowedTools: tenant.allowedTools });
+      const newTransport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        onsessioninitialized: (id) => {
+          logger.info('MCP session initialized', { session_id: id });
+          sessions[id] = { transport: newTransport, server, tenant, userId: user?.sub ?? null };
         }
-      };
-      console.log('Sending initialize response:', JSON.stringify(response, null, 2));
-      res.json(response);
-      
-    } else if (method === 'notifications/initialized') {
-      console.log('Handling initialized notification');
-      res.status(200).json({ status: 'ok' });
-      
-    } else if (method === 'tools/list') {
-      console.log('Handling tools/list request');
-      const response = {
-        jsonrpc: '2.0',
-        id,
-        result: {
-  tools: [
-    {
-              name: "search_meetings",
-              description: "Search for Fathom meetings with comprehensive filtering. Can search by keywords in titles, summaries, action items, or attendees. Includes summaries, action items, and optional transcripts. SECURITY: Automatically excludes Executive, Personal, No Team, and private calls (hardcoded for security).",
-              inputSchema: {
-                type: "object",
-                properties: {
-                  search_term: {
-                    type: "string",
-                    description: "Search term to find in meeting titles, summaries, action items, or attendee names"
-                  },
-                  limit: {
-                    type: "number",
-                    default: 50,
-                    description: "Maximum number of meetings to return (max: 100)"
-                  },
-                  days_back: {
-                    type: "number",
-                    default: 180,
-                    description: "Number of days to look back from today (default: 180, max: 365)"
-                  },
-                  created_after: {
-                    type: "string",
-                    format: "date-time",
-                    description: "Filter meetings created after this date (ISO 8601 format). Overrides days_back if provided."
-                  },
-                  created_before: {
-                    type: "string",
-                    format: "date-time",
-                    description: "Filter meetings created before this date (ISO 8601 format)"
-                  },
-                  exclude_teams: {
-                    type: "array",
-                    items: { type: "string" },
-                    default: [],
-                    description: "Additional teams to exclude from results. NOTE: Executive, Personal, No Team, and private calls are ALWAYS excluded for security (hardcoded)."
-                  },
-                  include_transcript: {
-                    type: "boolean",
-                    default: false,
-                    description: "Whether to include full transcripts (WARNING: Can be very large and slow)"
-                  },
-                  include_summary: {
-                    type: "boolean",
-                    default: true,
-                    description: "Whether to include meeting summaries"
-                  },
-                  include_action_items: {
-                    type: "boolean",
-                    default: true,
-                    description: "Whether to include action items"
-                  },
-                  calendar_invitees: {
-                    type: "array",
-                    items: { type: "string" },
-                    description: "Filter by attendee email addresses (NOTE: Filtered client-side after Nov 13, 2024 due to API deprecation. For better performance, use calendar_invitees_domains when possible.)"
-                  },
-                  calendar_invitees_domains: {
-                    type: "array", 
-                    items: { type: "string" },
-                    description: "Filter by company domains"
-                  },
-                  recorded_by: {
-                    type: "array",
-                    items: { type: "string" },
-                    description: "Filter by meeting owner email addresses"
-                  }
-                },
-                required: ["search_term"]
-              }
-            }
-          ]
+      });
+      newTransport.onclose = () => {
+        if (newTransport.sessionId) {
+          logger.info('MCP session closed', { session_id: newTransport.sessionId });
+          delete sessions[newTransport.sessionId];
         }
       };
-      console.log('Sending tools/list response');
-      res.json(response);
-      
-    } else if (method === 'tools/call') {
-      console.log('Handling tools/call request:', params);
-      const { name, arguments: args } = params;
-      
-      try {
-        if (name === "search_meetings") {
-          // NOTE: calendar_invitees API parameter is deprecated by Fathom (disabled after Nov 13, 2024)
-          // We now use client-side filtering for emails and calendar_invitees_domains for API filtering
-          console.log(`Filtering meetings with: "${args.search_term}" using native API filters`);
-          
-          // Detect "last X" requests and adjust strategy
-          const searchTerm = args.search_term?.toLowerCase() || '';
-          const lastMatch = searchTerm.match(/last\s+(\d+)|derniers?\s+(\d+)/);
-          const requestedLastCount = lastMatch ? parseInt(lastMatch[1] || lastMatch[2]) : null;
-          
-          let isLastRequest = false;
-          if (requestedLastCount) {
-            isLastRequest = true;
-            console.log(`🔄 "Last ${requestedLastCount}" request detected - will fetch ALL matching meetings then return only the last ${requestedLastCount}`);
-          }
-          
-          // Detect agent specification in search term (e.g., "caats.co" from @agent("caats.co"))
-          const agentMatch = searchTerm.match(/@agent\(["']?([^"')]+)["']?\)/);
-          const agentEmail = agentMatch ? agentMatch[1] : null;
-          
-          if (agentEmail) {
-            console.log(`🤖 Agent detected: ${agentEmail} - will use as email filter instead of keyword search`);
-          }
-          
-          // Build API parameters with native filtering
-          const apiParams: any = {
-            include_summary: args.include_summary !== false, // Default to true
-            include_action_items: args.include_action_items !== false, // Default to true
-            include_transcript: args.include_transcript || false,
-            include_crm_matches: false, // We don't need CRM data for search
-            limit: 100 // High limit to get comprehensive results
-          };
-
-          // Handle date filtering
-          if (args.created_after) {
-            apiParams.created_after = args.created_after;
-          } else if (args.days_back) {
-            const daysBack = Math.min(args.days_back, 365); // Cap at 1 year
-            apiParams.created_after = new Date(Date.now() - daysBack * 24 * 60 * 60 * 1000).toISOString();
-            console.log(`Date filter: looking back ${daysBack} days from ${new Date().toISOString()}`);
-          } else {
-            // Default to 180 days
-            apiParams.created_after = new Date(Date.now() - 180 * 24 * 60 * 60 * 1000).toISOString();
-            console.log(`Date filter: default 180 days back from ${new Date().toISOString()}`);
-          }
-
-          if (args.created_before) {
-            apiParams.created_before = args.created_before;
-          }
-
-          // Track emails for client-side filtering (calendar_invitees API param is deprecated)
-          let emailsToFilter: string[] = [];
-          
-          // Helper function to extract domain from email
-          const extractDomain = (email: string): string | null => {
-            const match = email.match(/@([\w.-]+\.[a-z]{2,})/i);
-            return match ? match[1] : null;
-          };
-
-          // Use search_term as native API filters
-          let effectiveSearchTermGlobal: string | undefined = undefined;
-          if (args.search_term) {
-            const searchTerm = args.search_term.toLowerCase();
-            let effectiveSearchTerm = searchTerm;
-            let identityFiltersApplied = false;
-
-            // Heuristic 1: extract any email(s) present anywhere in the text
-            const emailRegex = /\b[\w.+-]+@[\w.-]+\.[a-z]{2,}\b/gi;
-            const foundEmails: string[] = Array.from(new Set<string>(searchTerm.match(emailRegex) || []));
-
-            // Heuristic 2: extract any domain(s) present anywhere in the text (e.g., legalstart.fr)
-            const domainRegex = /\b([a-z0-9-]+\.[a-z]{2,})(?:\b|\s|\)|\]|"|')/gi;
-            const foundDomains: string[] = Array.from(new Set<string>((searchTerm.match(domainRegex) || []).map((d: string) => d.trim().replace(/[)\]"']$/, ''))));
-
-            // Prefer explicit @agent first
-            if (agentEmail) {
-              if (agentEmail.includes('@')) {
-                // Track email for client-side filtering (API param deprecated)
-                emailsToFilter.push(agentEmail);
-                // Try to use domain filter for better API performance
-                const domain = extractDomain(agentEmail);
-                if (domain) {
-                  if (!apiParams.calendar_invitees_domains) apiParams.calendar_invitees_domains = [];
-                  apiParams.calendar_invitees_domains.push(domain);
-                  console.log(`🤖 Using agent email ${agentEmail} - will filter by domain ${domain} (API) and email (client-side)`);
-                } else {
-                  console.log(`🤖 Using agent email ${agentEmail} - will filter client-side (no domain available)`);
-                }
-                effectiveSearchTerm = effectiveSearchTerm.replace(new RegExp(agentEmail.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'gi'), ' ');
-                identityFiltersApplied = true;
-              } else {
-                apiParams.calendar_invitees_domains = [agentEmail];
-                console.log(`🤖 Using agent name as domain filter: ${agentEmail}`);
-                effectiveSearchTerm = effectiveSearchTerm.replace(new RegExp(agentEmail.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'gi'), ' ');
-                identityFiltersApplied = true;
-              }
-            } else if (foundEmails.length > 0) {
-              // Track emails for client-side filtering
-              emailsToFilter.push(...foundEmails);
-              // Extract domains and use domain filter for better API performance
-              const domains = foundEmails.map(extractDomain).filter((d): d is string => d !== null);
-              if (domains.length > 0) {
-                if (!apiParams.calendar_invitees_domains) apiParams.calendar_invitees_domains = [];
-                apiParams.calendar_invitees_domains.push(...domains);
-                console.log(`📧 Detected email(s) in query: ${foundEmails.join(', ')} - using domain filter: ${domains.join(', ')} (API) and email filter (client-side)`);
-              } else {
-                console.log(`📧 Detected email(s) in query: ${foundEmails.join(', ')} - will filter client-side only`);
-              }
-              foundEmails.forEach(email => {
-                effectiveSearchTerm = effectiveSearchTerm.replace(new RegExp(email.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'gi'), ' ');
-              });
-              identityFiltersApplied = true;
-            } else if (foundDomains.length > 0) {
-              // If any domains were found in free text, use them
-              apiParams.calendar_invitees_domains = foundDomains;
-              console.log(`🌐 Detected domain(s) in query, filtering by domains:`, foundDomains);
-              foundDomains.forEach(domain => {
-                effectiveSearchTerm = effectiveSearchTerm.replace(new RegExp(domain.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'gi'), ' ');
-              });
-              identityFiltersApplied = true;
-            }
-            // If search term looks like an email address (contains @), filter by email
-            else if (searchTerm.includes('@')) {
-              emailsToFilter.push(searchTerm);
-              const domain = extractDomain(searchTerm);
-              if (domain) {
-                if (!apiParams.calendar_invitees_domains) apiParams.calendar_invitees_domains = [];
-                apiParams.calendar_invitees_domains.push(domain);
-                console.log(`Using search term as email filter: ${searchTerm} - using domain ${domain} (API) and email (client-side)`);
-              } else {
-                console.log(`Using search term as email filter: ${searchTerm} - will filter client-side`);
-              }
-              effectiveSearchTerm = effectiveSearchTerm.replace(new RegExp(searchTerm.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'gi'), ' ');
-              identityFiltersApplied = true;
-            }
-            // If search term looks like a domain (contains . but no @ and no spaces), filter by domain
-            else if (searchTerm.includes('.') && !searchTerm.includes('@') && !searchTerm.includes(' ')) {
-              apiParams.calendar_invitees_domains = [searchTerm];
-              console.log(`Using search term as domain filter: ${searchTerm}`);
-              effectiveSearchTerm = effectiveSearchTerm.replace(new RegExp(searchTerm.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'gi'), ' ');
-              identityFiltersApplied = true;
-            }
-            // If search term looks like a team name, filter by teams
-            else if (searchTerm.includes('team') || searchTerm.includes('department') || searchTerm.includes('group')) {
-              apiParams.teams = [searchTerm];
-              console.log(`Using search term as team filter: ${searchTerm}`);
-            }
-            // If search term looks like a person's name (firstname lastname), try to find their email
-            else if (searchTerm.includes(' ') && searchTerm.split(' ').length >= 2) {
-              console.log(`Search term "${searchTerm}" appears to be a person's name - will search in attendee names`);
-              // Don't add to API params, let client-side filtering handle it
-            }
-            // Otherwise, we'll need to do client-side filtering (unavoidable)
-            else {
-              console.log(`Search term "${searchTerm}" will be used for client-side filtering`);
-            }
-
-            // Normalize remaining free-text portion and expose it to later filtering
-            effectiveSearchTerm = effectiveSearchTerm.replace(/\s+/g, ' ').trim();
-            effectiveSearchTermGlobal = effectiveSearchTerm.length > 0 ? effectiveSearchTerm : undefined;
-          }
-
-          // Handle explicit calendar_invitees parameter (NOTE: API param deprecated, will filter client-side)
-          let allMeetings: any[] = [];
-          
-          if (args.calendar_invitees && args.calendar_invitees.length > 0) {
-            // Filter out invalid entries (names instead of emails)
-            const validEmails = args.calendar_invitees.filter((email: string) => 
-              email.includes('@') && email.includes('.')
-            );
-            const invalidEntries = args.calendar_invitees.filter((email: string) => 
-              !email.includes('@') || !email.includes('.')
-            );
-            
-            if (invalidEntries.length > 0) {
-              console.log(`⚠️  Ignoring invalid calendar_invitees (not emails): ${invalidEntries.join(', ')}`);
-              console.log(`💡 These will be searched in attendee names instead`);
-            }
-            
-            if (validEmails.length > 0) {
-              // Merge with any emails from search_term
-              emailsToFilter = [...new Set([...emailsToFilter, ...validEmails])];
-              
-              // Extract domains from emails for API filtering (better performance)
-              const domains = validEmails.map(extractDomain).filter((d: string | null): d is string => d !== null);
-              if (domains.length > 0) {
-                if (!apiParams.calendar_invitees_domains) apiParams.calendar_invitees_domains = [];
-                apiParams.calendar_invitees_domains.push(...domains);
-                console.log(`📧 Using explicit calendar_invitees: ${validEmails.join(', ')} - will filter by domains ${domains.join(', ')} (API) and emails (client-side)`);
-              } else {
-                console.log(`📧 Using explicit calendar_invitees: ${validEmails.join(', ')} - will filter client-side only`);
-              }
-            }
-          }
-          
-          // Deduplicate domains
-          if (apiParams.calendar_invitees_domains) {
-            apiParams.calendar_invitees_domains = [...new Set(apiParams.calendar_invitees_domains)];
-          }
-          
-          if (args.calendar_invitees_domains) {
-            if (!apiParams.calendar_invitees_domains) apiParams.calendar_invitees_domains = [];
-            apiParams.calendar_invitees_domains.push(...args.calendar_invitees_domains);
-            apiParams.calendar_invitees_domains = [...new Set(apiParams.calendar_invitees_domains)];
-          }
-          if (args.recorded_by) apiParams.recorded_by = args.recorded_by;
-          
-          // Check if we have specific filters for pagination logic
-          const hasSpecificFilters = apiParams.calendar_invitees_domains || apiParams.recorded_by;
-
-          console.log('API params:', JSON.stringify(apiParams, null, 2));
-          if (emailsToFilter.length > 0) {
-            console.log(`📧 Emails to filter client-side: ${emailsToFilter.join(', ')}`);
-          }
-
-          // Get meetings from API using native filtering
-          // NOTE: calendar_invitees is no longer sent to API (deprecated), will filter client-side instead
-          // If we have specific filters (domain, recorded_by, etc.), fetch ALL results with pagination
-          
-          if (hasSpecificFilters) {
-            // Fetch ALL meetings with pagination when we have specific filters
-            let cursor: string | undefined = undefined;
-            let totalFetched = 0;
-            const maxFetchLimit = 1000; // Reasonable upper limit
-            
-            console.log(`🔍 Specific filters detected - fetching ALL matching meetings with pagination`);
-            
-            do {
-              const currentParams = { ...apiParams, cursor };
-              const response = await fathomClient.listMeetings(currentParams);
-              allMeetings = allMeetings.concat(response.items);
-              totalFetched += response.items.length;
-              cursor = response.next_cursor;
-              
-              console.log(`Fetched ${response.items.length} meetings (total: ${totalFetched}), next_cursor: ${cursor}`);
-              
-              // Stop if we've reached a reasonable limit
-              if (totalFetched >= maxFetchLimit) {
-                console.log(`Reached maximum fetch limit of ${maxFetchLimit} meetings`);
-                break;
-              }
-            } while (cursor && totalFetched < maxFetchLimit);
-            
-            console.log(`Got ${allMeetings.length} total meetings from API using pagination`);
-          } else {
-            // Single API call for general searches
-            const response = await fathomClient.listMeetings(apiParams);
-            allMeetings = response.items;
-            console.log(`Got ${allMeetings.length} meetings from API using native filters`);
-          }
-          
-          // Apply client-side filtering by email addresses (calendar_invitees API param is deprecated)
-          if (emailsToFilter.length > 0) {
-            const beforeFilterCount = allMeetings.length;
-            const emailsToFilterLower = emailsToFilter.map(e => e.toLowerCase());
-            allMeetings = allMeetings.filter(meeting => {
-              // Check if any attendee email matches
-              return meeting.calendar_invitees?.some((attendee: any) => {
-                const attendeeEmail = attendee.email?.toLowerCase();
-                return attendeeEmail && emailsToFilterLower.includes(attendeeEmail);
-              }) || false;
-            });
-            console.log(`📧 Client-side email filtering: ${beforeFilterCount} → ${allMeetings.length} meetings (filtered by: ${emailsToFilter.join(', ')})`);
-          }
-
-          // HARDCODED SECURITY FILTERING - Always exclude sensitive teams/calls
-          const hardcodedExcludeTeams = ["Executive", "Personal", "No Team", null, undefined];
-          const userExcludeTeams = args.exclude_teams || [];
-          const allExcludeTeams = [...new Set([...hardcodedExcludeTeams, ...userExcludeTeams])];
-          
-          console.log(`HARDCODED exclusions: Executive, Personal, No Team, null/undefined`);
-          console.log(`User exclusions: ${userExcludeTeams.join(', ') || 'none'}`);
-          console.log(`Total exclusions: ${allExcludeTeams.filter(t => t).join(', ')}`);
-          
-          let filteredMeetings = allMeetings.filter(meeting => {
-            const recordedByTeam = meeting.recorded_by?.team;
-            
-            // Check if team should be excluded (case-insensitive)
-            const isExcluded = allExcludeTeams.some((team: string | null | undefined) => {
-              if (team === null || team === undefined) {
-                // Exclude meetings with null/undefined teams (private calls)
-                return recordedByTeam === null || recordedByTeam === undefined || recordedByTeam === '';
-              }
-              return recordedByTeam?.toLowerCase().includes(team.toLowerCase());
-            });
-            
-            // Debug logging for team filtering
-            if (isExcluded) {
-              console.log(`🔒 SECURITY: Excluding sensitive meeting "${meeting.title || meeting.meeting_title}" - team: "${recordedByTeam}"`);
-            }
-            
-            return !isExcluded;
-          });
-          
-          const excludedCount = allMeetings.length - filteredMeetings.length;
-          console.log(`🔒 SECURITY: After filtering: ${filteredMeetings.length} meetings (excluded ${excludedCount} sensitive meetings)`);
-
-          // Search within the filtered meetings (only if we have a search term)
-          const searchLower = args.search_term?.toLowerCase() || '';
-          let matchingMeetings = filteredMeetings;
-          
-          // Use the stripped free-text (if available) to avoid double-filtering by identity tokens
-          const freeText = effectiveSearchTermGlobal || searchLower;
-          if (freeText) {
-            console.log(`Searching for "${freeText}" in ${filteredMeetings.length} meetings`);
-            
-            matchingMeetings = filteredMeetings.filter(meeting => {
-            const titleMatch = meeting.title?.toLowerCase().includes(freeText) ||
-                              meeting.meeting_title?.toLowerCase().includes(freeText);
-            const summaryMatch = meeting.default_summary?.markdown_formatted?.toLowerCase().includes(freeText);
-            const actionItemsMatch = meeting.action_items?.some((item: any) => 
-              item.description?.toLowerCase().includes(freeText)
-            );
-            const attendeeMatch = meeting.calendar_invitees?.some((attendee: any) =>
-              attendee.name?.toLowerCase().includes(freeText) ||
-              attendee.email?.toLowerCase().includes(freeText)
-            );
-
-            // Search in transcript if available
-            const transcriptMatch = meeting.transcript?.some((entry: any) =>
-              entry.text?.toLowerCase().includes(freeText)
-            );
-
-            const isMatch = titleMatch || summaryMatch || actionItemsMatch || attendeeMatch || transcriptMatch;
-            
-            // Debug logging for matches
-            if (isMatch) {
-              console.log(`Found match: "${meeting.title || meeting.meeting_title}" - title:${titleMatch}, summary:${summaryMatch}, actionItems:${actionItemsMatch}, attendee:${attendeeMatch}, transcript:${transcriptMatch}`);
-            }
-
-            return isMatch;
-          });
-          } else {
-            console.log(`No search term provided - returning all ${filteredMeetings.length} filtered meetings`);
-          }
-
-          console.log(`Found ${matchingMeetings.length} matching meetings out of ${filteredMeetings.length} total meetings`);
-
-          // Apply limit - handle "last X" requests specially
-          let finalMeetings;
-          let actualLimit;
-          
-          if (isLastRequest && requestedLastCount) {
-            // For "last X" requests, take the last X meetings (most recent)
-            finalMeetings = matchingMeetings.slice(-requestedLastCount);
-            actualLimit = requestedLastCount;
-            console.log(`🔄 Returning last ${requestedLastCount} meetings out of ${matchingMeetings.length} found`);
-          } else {
-            // Normal limit application
-            const limit = Math.min(args.limit || 50, 100);
-            finalMeetings = matchingMeetings.slice(0, limit);
-            actualLimit = limit;
-          }
-
-          const formattedMeetings = finalMeetings.map(meeting => ({
-        title: meeting.title || meeting.meeting_title,
-        date: meeting.scheduled_start_time || meeting.created_at,
-        url: meeting.share_url || meeting.url,
-        attendees: meeting.calendar_invitees,
-        recorded_by: meeting.recorded_by,
-            summary: args.include_summary !== false ? meeting.default_summary : undefined,
-            action_items: args.include_action_items !== false ? meeting.action_items : undefined,
-            transcript: args.include_transcript ? meeting.transcript : undefined
-          }));
-
-          const result = {
-            jsonrpc: '2.0',
-            id,
-            result: {
-        content: [{
-          type: "text",
-          text: JSON.stringify({
-                  search_term: args.search_term,
-                  total_found: matchingMeetings.length,
-                  showing: finalMeetings.length,
-                  has_more: matchingMeetings.length > actualLimit,
-                  filters_applied: {
-                    exclude_teams: allExcludeTeams.filter(t => t),
-                    days_back: args.days_back || 180,
-                    include_summary: args.include_summary !== false,
-                    include_action_items: args.include_action_items !== false,
-                    include_transcript: args.include_transcript || false
-                  },
-            meetings: formattedMeetings
-          }, null, 2)
-        }]
-            }
-      };
-          res.json(result);
-        } else {
-          throw new Error(`Unknown tool: ${name}`);
+
+      await server.connect(newTransport);
+      transport = newTransport;
     }
+
+    await transport.handleRequest(req, res, req.body);
   } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
-    console.error(`Error in ${name}:`, errorMessage);
-    
-        const result = {
-          jsonrpc: '2.0',
-          id,
-          error: {
-            code: -32603,
-            message: errorMessage
-          }
-        };
-        res.json(result);
+    logger.error('Failed to handle MCP request', { error });
+    if (!res.headersSent) {
+      sendJSONRPCError(res, 500, -32603, 'Internal server error');
+    }
+  }
+}
+
+// Dry run of the access policy: explain which rule allows or excludes a recording. Requires
+// MCP_ADMIN_TOKEN; in multi-tenant mode the tenant id is part of the URL.
+async function handlePolicyCheck(req: express.Request, res: express.Response) {
+  // Hashes have a fixed length, so the comparison takes the same time whatever was presented
+  if (!adminAuthorizationHash || !timingSafeEqual(hashToken(req.headers['authorization'] || ''), adminAuthorizationHash)) {
+    res.status(adminAuthorizationHash ? 401 : 404).json({ error: adminAuthorizationHash ? 'Admin token required' : 'Policy check not configured' });
+    return;
+  }
+  const tenant = req.params.tenant_id
+    ? registry.getTenant(req.params.tenant_id)
+    : (useTenants ? undefined : registry.getTenants()[0]);
+  if (!tenant) {
+    res.status(404).json({ error: 'Unknown tenant' });
+    return;
+  }
+
+  const recordingId = Number(req.params.recording_id);
+  if (!Number.isInteger(recordingId) || recordingId <= 0) {
+    res.status(400).json({ error: 'Invalid recording id' });
+    return;
+  }
+
+  const { fathomClient } = tenant;
+  try {
+    const { meeting, limitReached } = await findMeeting(fathomClient, { recording_id: recordingId }, {}, { bypassPolicy: true });
+    if (!meeting) {
+      res.status(404).json({ recording_id: recordingId, found: false, ...(limitReached ? { scanned_limit_reached: true } : {}) });
+      return;
+    }
+
+    const decision = fathomClient.getAccessPolicy().evaluate(meeting);
+    logger.info('Policy check', { recording_id: recordingId, allowed: decision.allowed, rule: decision.rule || 'default' });
+    res.json({
+      recording_id: recordingId,
+      found: true,
+      allowed: decision.allowed,
+      rule: decision.rule,
+      reason: decision.reason,
+      // Only the attributes rules can match on, never meeting content; title and recorder only
+      // for allowed meetings, which tools would return anyway
+      evaluated: {
+        ...(decision.allowed ? { title: meeting.title || meeting.meeting_title, recorder_email: meeting.recorded_by?.email } : {}),
+        team: meeting.recorded_by?.team || null,
+        invitee_domains: [...new Set((meeting.calendar_invitees || []).map(invitee => invitee.email_domain))],
+        external: (meeting.calendar_invitees || []).some(invitee => invitee.is_external)
       }
-      
+    });
+  } catch (error) {
+    logger.error('Policy check failed', { recording_id: recordingId, error });
+    res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+// Download a transcript as a file; query parameters mirror the export_transcript tool arguments
+async function handleTranscriptExport(req: express.Request, res: express.Response) {
+  const tenant = res.locals.tenant as Tenant;
+  if (tenant.allowedTools && !tenant.allowedTools.includes('export_transcript')) {
+    res.status(403).json({ error: 'Transcript export not allowed for this access token' });
+    return;
+  }
+
+  let transcriptExport;
+  try {
+    const args = parseToolArguments(
+      exportTranscriptTool,
+      exportTranscriptTool.inputSchema,
+      transcriptArgsFromQuery({ ...req.query, recording_id: req.params.recording_id })
+    );
+    transcriptExport = await buildTranscriptExport(tenant.fathomClient, args);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Internal server error';
+    if (error instanceof MeetingNotFoundError) {
+      res.status(404).json({ error: message });
+    } else if (error instanceof McpError) {
+      res.status(400).json({ error: message, issues: (error.data as { issues?: unknown } | undefined)?.issues });
     } else {
-      console.log('Unknown MCP method:', method);
-      res.status(400).json({ error: `Unknown method: ${method}` });
+      logger.error('Transcript export failed', { recording_id: req.params.recording_id, error });
+      res.status(500).json({ error: message });
     }
-    
+    return;
+  }
+
+  // Same redaction as tool output (speaker names let pseudonymization find them in the content);
+  // query parameters stand in for the tool arguments
+  const { filename, options, speakers } = transcriptExport;
+  const { content } = redactResult(
+    tenant.fathomClient.getAccessPolicy().getRedaction(),
+    { speakers, content: transcriptExport.content },
+    { redact: req.query.redact === 'true', pseudonymize_names: req.query.pseudonymize_names === 'true' }
+  ) as { content: string };
+
+  res.setHeader('Content-Type', TRANSCRIPT_CONTENT_TYPES[options.format]);
+  res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+  res.send(content);
+}
+
+// Download action items as CSV, iCalendar or Markdown; query parameters mirror the export_action_items
+// tool arguments, with comma-separated lists
+async function handleActionItemExport(req: express.Request, res: express.Response) {
+  const tenant = res.locals.tenant as Tenant;
+  if (tenant.allowedTools && !tenant.allowedTools.includes('export_action_items')) {
+    res.status(403).json({ error: 'Action item export not allowed for this access token' });
+    return;
+  }
+
+  let actionItemExport;
+  try {
+    const args = parseToolArguments(exportActionItemsTool, exportActionItemsTool.inputSchema, actionItemArgsFromQuery(req.query));
+    actionItemExport = await exportActionItems(tenant.fathomClient, {
+      ...args,
+      redact: req.query.redact === 'true',
+      pseudonymize_names: req.query.pseudonymize_names === 'true'
+    });
   } catch (error) {
-    console.error('Failed to handle MCP request:', error);
-    res.status(500).json({ error: 'Internal server error' });
+    const message = error instanceof Error ? error.message : 'Internal server error';
+    if (error instanceof McpError) {
+      res.status(400).json({ error: message, issues: (error.data as { issues?: unknown } | undefined)?.issues });
+    } else {
+      logger.error('Action item export failed', { error });
+      res.status(500).json({ error: message });
+    }
+    return;
   }
+
+  // Redacted like tool output, before rendering (see exportActionItems)
+  const { filename, format, content } = actionItemExport;
+  res.setHeader('Content-Type', ACTION_ITEM_CONTENT_TYPES[format]);
+  res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+  res.send(content);
 }
 
-// Note: We're using HTTP-based MCP protocol, so no MCP server handlers needed
+// Consumers of verified Fathom webhook events
+const webhookHandlers: WebhookHandler[] = [
+  createLocalStoreHandler(),
+  createListChangedHandler(async (tenantId) => {
+    const tenantSessions = Object.values(sessions).filter(session => session.tenant.id === tenantId);
+    await Promise.all(tenantSessions.map(session => session.server.sendResourceListChanged()));
+  }),
+  ...(webhookForwardUrl ? [createOutboundWebhookHandler(webhookForwardUrl, webhookForwardSecret)] : [])
+];
+
+// Fathom webhook: verify the signature on the raw body, run the handlers, then acknowledge.
+// When the payload or a handler fails the delivery is forgotten, so Fathom's retry is accepted.
+// In multi-tenant mode the tenant id is part of the URL and the secret comes from its webhook_secret_env.
+async function handleFathomWebhook(req: express.Request, res: express.Response) {
+  const tenant = req.params.tenant_id
+    ? registry.getTenant(req.params.tenant_id)
+    : (useTenants ? undefined : registry.getTenants()[0]);
+  if (!tenant || !tenant.webhookSecret) {
+    res.status(404).json({ error: 'Webhook not configured' });
+    return;
+  }
+
+  const body = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+  let delivery;
+  let event;
+  try {
+    delivery = verifyWebhook(tenant.webhookSecret, req.headers, body);
+    event = { ...delivery, tenant, meeting: parseWebhookMeeting(body) };
+  } catch (error) {
+    if (delivery) forgetWebhookDelivery(delivery);
+    const message = error instanceof Error ? error.message : 'Invalid webhook';
+    logger.warn('Rejected Fathom webhook', { tenant: tenant.id, reason: message });
+    res.status(error instanceof WebhookVerificationError ? 401 : 400).json({ error: message });
+    return;
+  }
+
+  logger.info('Fathom webhook received', { webhook_id: event.id, tenant: tenant.id, recording_id: event.meeting.recording_id });
+  const failed = await dispatchWebhookEvent(webhookHandlers, event);
+  if (failed.length > 0) {
+    forgetWebhookDelivery(delivery);
+    res.status(500).json({ error: 'Webhook processing failed' });
+    return;
+  }
+  res.status(202).json({ received: true });
+}
+
+// Serve MCP over stdin/stdout for clients that spawn the server as a subprocess
+async function startStdio() {
+  // stdio always runs single-tenant with FATHOM_API_KEY
+  const server = createServer(registry.getTenants()[0].fathomClient);
+  const transport = new StdioServerTransport();
+  await server.connect(transport);
+  logger.info('Fathom MCP Server running on stdio');
+}
+
+// Sync the meeting cache of every tenant once
+async function syncAll() {
+  for (const tenant of registry.getTenants()) {
+    const synced = await (tenant.fathomClient as CachedFathomClient).sync();
+    logger.info('Meeting cache sync complete', { tenant: tenant.id, fetched: synced });
+  }
+}
 
 async function main() {
-  console.log('Starting Fathom MCP Server...');
-  console.log('Environment variables check:');
-  console.log('- FATHOM_API_KEY:', apiKey ? 'SET' : 'NOT SET');
-  console.log('- MCP_BEARER_TOKEN:', bearerToken ? 'SET' : 'NOT SET');
-  
+  if (runSync) {
+    await syncAll();
+    return;
+  }
+
+  if (useStdio) {
+    await startStdio();
+    return;
+  }
+
+  registry.onReload(closeStaleSessions);
+  registry.watch();
+  authorizationServer?.watch();
+
+  logger.info('Starting Fathom MCP Server', {
+    fathom_api_key: apiKey ? 'set' : 'not set',
+    mcp_bearer_token: bearerToken ? 'set' : 'not set',
+    mcp_tenants_file: tenantsFile || null,
+    oauth: authorizationServer ? 'built-in authorization server' : (tokenVerifier ? oauthIssuer : 'disabled')
+  });
+
   const app = express();
-  const port = process.env.PORT || 3000;
-  console.log(`Using port: ${port}`);
+  app.set('trust proxy', trustProxy);
 
   // Set server timeouts
   app.use((req, res, next) => {
@@ -614,29 +631,56 @@ async function main() {
     next();
   });
 
-  // Middleware
-  console.log('Setting up middleware...');
-  app.use(cors());
+  // Middleware (the request context comes after body parsing, which would lose it)
+  app.use(cors({ exposedHeaders: ['Mcp-Session-Id', 'X-Request-Id'] }));
+  // Webhook signatures cover the exact bytes sent, so this route reads the raw body before JSON parsing
+  app.post(['/webhooks/fathom', '/webhooks/fathom/:tenant_id'], express.raw({ type: '*/*', limit: '10mb' }), requestContext, handleFathomWebhook);
   app.use(express.json({ limit: '10mb' }));
-  console.log('Middleware set up');
+  app.use(requestContext);
 
   // Health check endpoint (no auth required)
   app.get('/health', (req, res) => {
-    console.log('Health check requested');
     res.json({ status: 'ok', service: 'mcp-fathom-server' });
   });
 
-  // MCP endpoint with bearer token authentication
-  console.log('Setting up MCP routes...');
-  app.post('/sse', authenticateSSE);
-  console.log('MCP routes set up');
+  // Prometheus metrics; bearer token required only when MCP_METRICS_TOKEN is set
+  app.get('/metrics', (req, res) => {
+    // Hashes have a fixed length, so the comparison takes the same time whatever was presented
+    if (metricsAuthorizationHash && !timingSafeEqual(hashToken(req.headers['authorization'] || ''), metricsAuthorizationHash)) {
+      res.status(401).json({ error: 'Access token required' });
+      return;
+    }
+    res.setHeader('Content-Type', METRICS_CONTENT_TYPE);
+    res.send(renderMetrics());
+  });
+
+  // OAuth discovery: protected resource metadata, plus the authorization server endpoints when built in
+  if (tokenVerifier) {
+    app.use(protectedResourceMetadataRouter(resourceUrl, authorizationServer ? publicUrl : oauthIssuer!, oauthScopes));
+    if (authorizationServer) {
+      app.use(createAuthorizationServerRouter(authorizationServer, publicUrl, oauthScopes));
+    }
+  }
+
+  // MCP Streamable HTTP endpoints with bearer token authentication
+  // (/sse is kept as an alias so existing client configurations keep working)
+  for (const route of ['/mcp', '/sse']) {
+    app.post(route, authenticateSSE, handleMCPRequest);
+    app.get(route, authenticateSSE, handleMCPRequest);
+    app.delete(route, authenticateSSE, handleMCPRequest);
+  }
+  // Access policy audit (dry run) with the admin token
+  app.get(['/policy/check/:recording_id', '/policy/check/:tenant_id/:recording_id'], handlePolicyCheck);
+  app.get('/transcripts/:recording_id', authenticateSSE, handleTranscriptExport);
+  app.get('/action-items/export', authenticateSSE, handleActionItemExport);
 
-  console.log('Starting server...');
   const server = app.listen(port, () => {
-    console.log(`Fathom MCP Server running on port ${port}`);
-    console.log(`SSE endpoint available at: http://localhost:${port}/sse`);
-    console.log(`Health check available at: http://localhost:${port}/health`);
-    console.log('Server startup complete');
+    logger.info('Fathom MCP Server running', {
+      port: Number(port),
+      mcp_endpoint: `http://localhost:${port}/mcp`,
+      health_endpoint: `http://localhost:${port}/health`,
+      metrics_endpoint: `http://localhost:${port}/metrics`
+    });
   });
 
   // Set server timeouts
@@ -645,6 +689,6 @@ async function main() {
 }
 
 main().catch((error) => {
-  console.error("Fatal error:", error);
+  logger.error("Fatal error", { error });
   process.exit(1);
 });
\ No newline at end of file
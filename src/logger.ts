@@ -0,0 +1,70 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+
+// Leveled JSON logger, one object per line. Fields of the current context (request id, tenant,
+// session, tool) are added to every entry logged while handling a request.
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+// Fields that can hold meeting content or user queries; only debug entries keep them
+const CONTENT_FIELDS = new Set([
+  'title', 'summary', 'transcript', 'action_items', 'attendees', 'content', 'text', 'description',
+  'markdown_formatted', 'search_term', 'query', 'free_text', 'body'
+]);
+
+function parseLevel(value: string | undefined): LogLevel {
+  const level = value?.toLowerCase();
+  return level && level in LEVELS ? level as LogLevel : 'info';
+}
+
+let minLevel: LogLevel = parseLevel(process.env.LOG_LEVEL);
+
+export function setLogLevel(level: string | undefined): void {
+  minLevel = parseLevel(level);
+}
+
+const context = new AsyncLocalStorage<Record<string, unknown>>();
+
+// Run fn with extra context fields (nested contexts inherit the outer fields)
+export function withLogContext<T>(fields: Record<string, unknown>, fn: () => T): T {
+  return context.run({ ...context.getStore(), ...fields }, fn);
+}
+
+export function getLogContext(): Record<string, unknown> {
+  return context.getStore() || {};
+}
+
+function serializeError(error: unknown) {
+  if (!(error instanceof Error)) return error;
+  return {
+    name: error.name,
+    message: error.message,
+    ...(minLevel === 'debug' && error.stack ? { stack: error.stack } : {})
+  };
+}
+
+function write(level: LogLevel, message: string, fields: Record<string, unknown> = {}): void {
+  if (LEVELS[level] < LEVELS[minLevel]) return;
+
+  const entry: Record<string, unknown> = { time: new Date().toISOString(), level, msg: message, ...getLogContext() };
+  for (const [key, value] of Object.entries(fields)) {
+    if (value === undefined || (level !== 'debug' && CONTENT_FIELDS.has(key))) continue;
+    entry[key] = key === 'error' ? serializeError(value) : value;
+  }
+
+  // console.log is redirected to stderr in stdio mode, where stdout carries protocol frames
+  const line = JSON.stringify(entry);
+  if (LEVELS[level] >= LEVELS.warn) {
+    console.error(line);
+  } else {
+    console.log(line);
+  }
+}
+
+export const logger = {
+  debug: (message: string, fields?: Record<string, unknown>) => write('debug', message, fields),
+  info: (message: string, fields?: Record<string, unknown>) => write('info', message, fields),
+  warn: (message: string, fields?: Record<string, unknown>) => write('warn', message, fields),
+  error: (message: string, fields?: Record<string, unknown>) => write('error', message, fields)
+};
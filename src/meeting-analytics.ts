@@ -0,0 +1,347 @@
+import { z } from "zod";
+import { FathomClient } from "./fathom-client.js";
+import { logger } from "./logger.js";
+import { buildDateRange, fetchAllMeetings } from "./meeting-lookup.js";
+import { compileQuery, formatQuery, parseQuery } from "./query-parser.js";
+import { rankMeetings } from "./search-index.js";
+import { dateString, defineTool, meetingHeaderOutput } from "./tool-registry.js";
+import { Cue, transcriptCues } from "./transcript-export.js";
+import { FathomListMeetingsParams, FathomMeeting } from "./types.js";
+
+const meetingAnalyticsInput = z.object({
+  recording_ids: z.array(z.number().int().positive()).optional()
+    .describe("Recording ids to analyze (searched within the last 365 days unless created_after is set)"),
+  search_term: z.string().optional()
+    .describe("Select meetings with a search_meetings query instead of ids, e.g. 'domain:acme.com team:Sales'"),
+  calendar_invitees_domains: z.array(z.string()).optional()
+    .describe("Only analyze meetings with attendees from these company domains"),
+  days_back: z.number().int().min(1).max(365).default(30)
+    .describe("Number of days to look back from today when selecting by search (default: 30, max: 365)"),
+  created_after: dateString().optional()
+    .describe("Only include meetings created after this date (ISO 8601 format). Overrides days_back if provided."),
+  created_before: dateString().optional()
+    .describe("Only include meetings created before this date (ISO 8601 format)"),
+  max_meetings: z.number().int().min(1).max(50).default(20)
+    .describe("Maximum number of meetings to analyze, most recent or most relevant first (max: 50)")
+});
+
+type MeetingAnalyticsArgs = z.input<typeof meetingAnalyticsInput>;
+
+const speakerStatsOutput = z.object({
+  name: z.string(),
+  email: z.string().nullable(),
+  side: z.enum(['internal', 'external', 'unknown']),
+  talk_seconds: z.number(),
+  talk_share: z.number(),
+  turns: z.number(),
+  longest_monologue_seconds: z.number(),
+  questions: z.number(),
+  interruptions: z.number()
+});
+
+const sideStatsOutput = z.object({
+  speakers: z.number(),
+  talk_seconds: z.number(),
+  talk_share: z.number(),
+  turns: z.number(),
+  questions: z.number(),
+  interruptions: z.number()
+});
+
+const sidesOutput = z.object({ internal: sideStatsOutput, external: sideStatsOutput, unknown: sideStatsOutput });
+
+export const meetingAnalyticsTool = defineTool({
+  name: "meeting_analytics",
+  description: "Per-speaker statistics computed from meeting transcripts: talk time and share, turns, longest monologue, questions asked and interruptions, plus internal vs external speaker comparison. Select meetings by recording ids or by a search query (same syntax as search_meetings). Useful for sales call coaching. SECURITY: Meetings excluded by the access policy are never included.",
+  inputSchema: meetingAnalyticsInput,
+  outputSchema: z.object({
+    meetings_analyzed: z.number(),
+    recording_ids_not_found: z.array(z.number()).optional(),
+    interpreted_as: z.string().optional(),
+    warning: z.string().optional(),
+    totals: z.object({
+      meetings: z.number(),
+      total_talk_seconds: z.number(),
+      speakers: z.array(speakerStatsOutput),
+      internal_vs_external: sidesOutput
+    }).optional(),
+    meetings: z.array(z.object({
+      ...meetingHeaderOutput,
+      duration_seconds: z.number(),
+      total_talk_seconds: z.number(),
+      speakers: z.array(speakerStatsOutput),
+      internal_vs_external: sidesOutput
+    }))
+  }),
+  handler: meetingAnalytics
+});
+
+const DEFAULT_MAX_MEETINGS = 20;
+const MAX_MEETINGS = 50;
+const DEFAULT_DAYS_BACK = 30;
+// Transcripts fetched in parallel
+const TRANSCRIPT_BATCH_SIZE = 5;
+// A speaker switch counts as an interruption when the previous line was cut off:
+// shorter than this and not ending a sentence
+const INTERRUPTION_SECONDS = 2;
+
+type Side = 'internal' | 'external' | 'unknown';
+
+interface SpeakerStats {
+  name: string;
+  email: string | null;
+  side: Side;
+  talk_seconds: number;
+  talk_share: number;
+  turns: number;
+  longest_monologue_seconds: number;
+  questions: number;
+  interruptions: number;
+}
+
+interface SideStats {
+  speakers: number;
+  talk_seconds: number;
+  talk_share: number;
+  turns: number;
+  questions: number;
+  interruptions: number;
+}
+
+const round = (value: number, digits = 1) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+// Internal or external, from the calendar invitee matched by email, else by display name
+function speakerSide(meeting: FathomMeeting, cue: Cue): Side {
+  const invitees = meeting.calendar_invitees || [];
+  const speaker = cue.speaker.toLowerCase();
+  const invitee = (cue.email && invitees.find(candidate => candidate.email?.toLowerCase() === cue.email))
+    || invitees.find(candidate => [candidate.matched_speaker_display_name, candidate.name].some(name => name?.toLowerCase() === speaker));
+
+  if (invitee) return invitee.is_external ? 'external' : 'internal';
+  if (meeting.recorded_by?.name?.toLowerCase() === speaker) return 'internal';
+  return 'unknown';
+}
+
+function countQuestions(text: string): number {
+  return (text.match(/\?+/g) || []).length;
+}
+
+function summarizeSides(speakers: SpeakerStats[], totalTalk: number): Record<Side, SideStats> {
+  const sides: Record<Side, SideStats> = {
+    internal: { speakers: 0, talk_seconds: 0, talk_share: 0, turns: 0, questions: 0, interruptions: 0 },
+    external: { speakers: 0, talk_seconds: 0, talk_share: 0, turns: 0, questions: 0, interruptions: 0 },
+    unknown: { speakers: 0, talk_seconds: 0, talk_share: 0, turns: 0, questions: 0, interruptions: 0 }
+  };
+
+  for (const speaker of speakers) {
+    const side = sides[speaker.side];
+    side.speakers++;
+    side.talk_seconds += speaker.talk_seconds;
+    side.turns += speaker.turns;
+    side.questions += speaker.questions;
+    side.interruptions += speaker.interruptions;
+  }
+  Object.values(sides).forEach(side => {
+    side.talk_seconds = round(side.talk_seconds);
+    side.talk_share = totalTalk > 0 ? round(side.talk_seconds / totalTalk, 3) : 0;
+  });
+  return sides;
+}
+
+// Per-speaker statistics of one meeting; a turn is a run of consecutive lines by one speaker
+export function analyzeMeeting(meeting: FathomMeeting) {
+  const cues = transcriptCues(meeting.transcript || []);
+  const speakers = new Map<string, SpeakerStats>();
+  let currentTurn = { key: '', seconds: 0 };
+
+  cues.forEach((cue, index) => {
+    // Fathom only sometimes attaches the matched email, so speakers are keyed by display name
+    const key = cue.speaker.toLowerCase();
+    if (!speakers.has(key)) {
+      speakers.set(key, {
+        name: cue.speaker,
+        email: cue.email || null,
+        side: speakerSide(meeting, cue),
+        talk_seconds: 0,
+        talk_share: 0,
+        turns: 0,
+        longest_monologue_seconds: 0,
+        questions: 0,
+        interruptions: 0
+      });
+    }
+    const stats = speakers.get(key)!;
+    if (!stats.email && cue.email) {
+      stats.email = cue.email;
+      stats.side = speakerSide(meeting, cue);
+    }
+    const duration = cue.end - cue.start;
+
+    stats.talk_seconds += duration;
+    stats.questions += countQuestions(cue.text);
+
+    if (key !== currentTurn.key) {
+      const previous = cues[index - 1];
+      if (previous && previous.end - previous.start < INTERRUPTION_SECONDS && !/[.?!…]["')\]]?$/.test(previous.text)) {
+        stats.interruptions++;
+      }
+      stats.turns++;
+      currentTurn = { key, seconds: 0 };
+    }
+    currentTurn.seconds += duration;
+    stats.longest_monologue_seconds = Math.max(stats.longest_monologue_seconds, currentTurn.seconds);
+  });
+
+  const totalTalk = [...speakers.values()].reduce((total, speaker) => total + speaker.talk_seconds, 0);
+  const speakerStats = [...speakers.values()]
+    .map(speaker => ({
+      ...speaker,
+      talk_seconds: round(speaker.talk_seconds),
+      talk_share: totalTalk > 0 ? round(speaker.talk_seconds / totalTalk, 3) : 0,
+      longest_monologue_seconds: round(speaker.longest_monologue_seconds)
+    }))
+    .sort((a, b) => b.talk_seconds - a.talk_seconds);
+
+  return {
+    recording_id: meeting.recording_id,
+    title: meeting.title || meeting.meeting_title,
+    date: meeting.scheduled_start_time || meeting.created_at,
+    url: meeting.share_url || meeting.url,
+    duration_seconds: cues.length > 0 ? round(cues[cues.length - 1].end - cues[0].start) : 0,
+    total_talk_seconds: round(totalTalk),
+    speakers: speakerStats,
+    internal_vs_external: summarizeSides(speakerStats, totalTalk)
+  };
+}
+
+type MeetingAnalysis = ReturnType<typeof analyzeMeeting>;
+
+// Speakers summed across meetings (the longest monologue is the maximum)
+function aggregate(analyses: MeetingAnalysis[]) {
+  const speakers = new Map<string, SpeakerStats & { meetings: number }>();
+  for (const analysis of analyses) {
+    for (const speaker of analysis.speakers) {
+      const key = speaker.email || speaker.name.toLowerCase();
+      const total = speakers.get(key) || { ...speaker, talk_seconds: 0, turns: 0, longest_monologue_seconds: 0, questions: 0, interruptions: 0, meetings: 0 };
+      total.talk_seconds += speaker.talk_seconds;
+      total.turns += speaker.turns;
+      total.questions += speaker.questions;
+      total.interruptions += speaker.interruptions;
+      total.longest_monologue_seconds = Math.max(total.longest_monologue_seconds, speaker.longest_monologue_seconds);
+      total.meetings++;
+      if (total.side === 'unknown') total.side = speaker.side;
+      speakers.set(key, total);
+    }
+  }
+
+  const totalTalk = [...speakers.values()].reduce((total, speaker) => total + speaker.talk_seconds, 0);
+  const speakerStats = [...speakers.values()]
+    .map(speaker => ({
+      ...speaker,
+      talk_seconds: round(speaker.talk_seconds),
+      talk_share: totalTalk > 0 ? round(speaker.talk_seconds / totalTalk, 3) : 0
+    }))
+    .sort((a, b) => b.talk_seconds - a.talk_seconds);
+
+  return {
+    meetings: analyses.length,
+    total_talk_seconds: round(totalTalk),
+    speakers: speakerStats,
+    internal_vs_external: summarizeSides(speakerStats, totalTalk)
+  };
+}
+
+// Pick the meetings to analyze, by id or by search query
+async function selectMeetings(
+  fathomClient: FathomClient,
+  args: MeetingAnalyticsArgs,
+  maxMeetings: number
+): Promise<{ meetings: FathomMeeting[]; notFound: number[]; query: string | null; warning?: string }> {
+  const baseParams: FathomListMeetingsParams = {
+    include_summary: false,
+    include_transcript: false,
+    include_action_items: false,
+    include_crm_matches: false
+  };
+
+  if (Array.isArray(args.recording_ids) && args.recording_ids.length > 0) {
+    const ids: number[] = args.recording_ids.map(Number);
+    const invalid = ids.find(id => !Number.isInteger(id) || id <= 0);
+    if (invalid !== undefined) {
+      throw new Error(`Invalid recording_id: ${invalid}`);
+    }
+
+    const { meetings, warning } = await fetchAllMeetings(fathomClient, { ...baseParams, ...buildDateRange({ ...args, days_back: 365 }) });
+    const byId = new Map(meetings.map(meeting => [meeting.recording_id, meeting]));
+    return {
+      meetings: ids.map(id => byId.get(id)).filter((meeting): meeting is FathomMeeting => !!meeting).slice(0, maxMeetings),
+      notFound: ids.filter(id => !byId.has(id)),
+      query: null,
+      warning
+    };
+  }
+
+  const parsed = parseQuery(args.search_term || '');
+  const compiled = compileQuery(parsed);
+  const dateRange = buildDateRange({ days_back: DEFAULT_DAYS_BACK, ...args });
+  const params: FathomListMeetingsParams = {
+    ...baseParams,
+    include_summary: compiled.requires.summary || !!compiled.freeText,
+    include_action_items: compiled.requires.action_items,
+    include_transcript: compiled.requires.transcript,
+    ...compiled.apiParams,
+    created_after: args.created_after || compiled.apiParams.created_after || dateRange.created_after,
+    created_before: args.created_before || compiled.apiParams.created_before
+  };
+  if (args.calendar_invitees_domains?.length) {
+    params.calendar_invitees_domains = [...new Set([...(params.calendar_invitees_domains || []), ...args.calendar_invitees_domains])];
+  }
+
+  const fetched = await fetchAllMeetings(fathomClient, params);
+  let meetings = fetched.meetings.filter(compiled.predicate);
+  const ranked = rankMeetings(meetings, compiled.freeText);
+  if (ranked) {
+    meetings = ranked.map(result => result.meeting);
+  }
+
+  return { meetings: meetings.slice(0, maxMeetings), notFound: [], query: formatQuery(parsed), warning: fetched.warning };
+}
+
+export async function meetingAnalytics(fathomClient: FathomClient, args: MeetingAnalyticsArgs) {
+  const maxMeetings = Math.min(args.max_meetings || DEFAULT_MAX_MEETINGS, MAX_MEETINGS);
+  const { meetings, notFound, query, warning } = await selectMeetings(fathomClient, args, maxMeetings);
+  logger.debug('Analyzing meetings', { meetings: meetings.length });
+
+  // Meetings whose transcript could not be fetched are skipped and reported
+  const analyses: MeetingAnalysis[] = [];
+  const failed: number[] = [];
+  for (let i = 0; i < meetings.length; i += TRANSCRIPT_BATCH_SIZE) {
+    const batch = meetings.slice(i, i + TRANSCRIPT_BATCH_SIZE);
+    const transcripts = await Promise.allSettled(batch.map(meeting => fathomClient.getRecordingTranscript(meeting)));
+    batch.forEach((meeting, index) => {
+      const result = transcripts[index];
+      if (result.status === 'fulfilled') {
+        analyses.push(analyzeMeeting({ ...meeting, transcript: result.value.transcript || [] }));
+      } else {
+        logger.warn('Transcript unavailable for analytics', { recording_id: meeting.recording_id, error: result.reason });
+        failed.push(meeting.recording_id);
+      }
+    });
+  }
+  if (meetings.length > 0 && failed.length === meetings.length) {
+    throw new Error(`Could not fetch any transcript (recordings ${failed.join(', ')})`);
+  }
+  const warnings = [
+    warning,
+    failed.length > 0 ? `Partial results: transcripts unavailable for recordings ${failed.join(', ')}` : undefined
+  ].filter(Boolean);
+
+  return {
+    meetings_analyzed: analyses.length,
+    ...(notFound.length > 0 ? { recording_ids_not_found: notFound } : {}),
+    ...(query !== null ? { interpreted_as: query } : {}),
+    ...(warnings.length > 0 ? { warning: warnings.join('; ') } : {}),
+    ...(analyses.length > 1 ? { totals: aggregate(analyses) } : {}),
+    meetings: analyses
+  };
+}
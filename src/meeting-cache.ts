@@ -0,0 +1,266 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { FathomClient, FathomClientOptions } from './fathom-client.js';
+import { logger } from './logger.js';
+import { FathomListMeetingsParams, FathomListMeetingsResponse, FathomMeeting } from './types.js';
+
+// Page size used when serving listMeetings from the cache
+const CACHE_PAGE_SIZE = 100;
+
+// Meetings created in the last days are fetched again on every sync, because Fathom adds
+// summaries and action items after the recording ends
+export const DEFAULT_REFRESH_WINDOW_DAYS = 3;
+
+interface CacheFile {
+  synced_at: string | null;
+  meetings: FathomMeeting[];
+  // recording ids received by webhook and not yet seen by a sync; they must not move the sync watermark
+  pushed_ids?: number[];
+}
+
+export interface CacheStatus {
+  source: 'cache' | 'live';
+  last_synced_at: string | null;
+  age_seconds: number | null;
+  meetings_cached: number;
+}
+
+// Dates are compared as instants: ISO strings with different offsets or precision do not sort as text
+function timeOf(date: string): number {
+  return Date.parse(date);
+}
+
+function newestFirst(a: FathomMeeting, b: FathomMeeting): number {
+  return timeOf(b.created_at) - timeOf(a.created_at);
+}
+
+// Apply the API filters the Fathom /meetings endpoint would apply server-side
+export function matchesListParams(meeting: FathomMeeting, params: FathomListMeetingsParams): boolean {
+  const createdAt = timeOf(meeting.created_at);
+  if (params.created_after && !(createdAt >= timeOf(params.created_after))) return false;
+  if (params.created_before && !(createdAt <= timeOf(params.created_before))) return false;
+
+  if (params.calendar_invitees_domains?.length) {
+    const domains = params.calendar_invitees_domains.map(domain => domain.toLowerCase());
+    const hasDomain = meeting.calendar_invitees?.some(invitee => domains.includes(invitee.email_domain?.toLowerCase()));
+    if (!hasDomain) return false;
+  }
+
+  if (params.recorded_by?.length) {
+    const recorders = params.recorded_by.map(email => email.toLowerCase());
+    if (!recorders.includes(meeting.recorded_by?.email?.toLowerCase())) return false;
+  }
+
+  if (params.teams?.length) {
+    const teams = params.teams.map(team => team.toLowerCase());
+    if (!teams.includes(meeting.recorded_by?.team?.toLowerCase())) return false;
+  }
+
+  const hasExternal = meeting.calendar_invitees?.some(invitee => invitee.is_external) || false;
+  const domainsType = params.calendar_invitees_domains_type
+    || (params.meeting_type === 'internal' ? 'only_internal' : params.meeting_type === 'external' ? 'one_or_more_external' : 'all');
+  if (domainsType === 'only_internal' && hasExternal) return false;
+  if (domainsType === 'one_or_more_external' && !hasExternal) return false;
+
+  return true;
+}
+
+// FathomClient backed by an on-disk store of meetings, kept up to date with incremental syncs.
+// Requests the cache cannot answer (transcripts, or before the first sync) go to the live API.
+export class CachedFathomClient extends FathomClient {
+  private filePath: string;
+  private data: CacheFile = { synced_at: null, meetings: [] };
+  private loading: Promise<void> | null = null;
+  private syncing: Promise<number> | null = null;
+  private refreshTimer: NodeJS.Timeout | null = null;
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(
+    apiKey: string,
+    dataDir: string,
+    options: FathomClientOptions = {},
+    private refreshWindowDays: number = DEFAULT_REFRESH_WINDOW_DAYS
+  ) {
+    super(apiKey, options);
+    this.filePath = path.join(dataDir, 'meetings.json');
+  }
+
+  // Serve raw meetings from the cache; FathomClient.listMeetings applies the access policy on top
+  async listMeetingsUnfiltered(params?: FathomListMeetingsParams): Promise<FathomListMeetingsResponse> {
+    await this.load();
+    if (!this.canServe(params)) {
+      return super.listMeetingsUnfiltered(params);
+    }
+
+    const matching = this.data.meetings.filter(meeting => matchesListParams(meeting, params || {}));
+    const offset = params?.cursor ? parseInt(params.cursor, 10) || 0 : 0;
+    const page = matching.slice(offset, offset + CACHE_PAGE_SIZE).map(meeting => this.stripFields(meeting, params || {}));
+    const nextOffset = offset + CACHE_PAGE_SIZE;
+
+    return {
+      items: page,
+      limit: CACHE_PAGE_SIZE,
+      next_cursor: nextOffset < matching.length ? String(nextOffset) : undefined
+    };
+  }
+
+  // Whether a listMeetings call with these params is answered from the cache
+  canServe(params?: FathomListMeetingsParams): boolean {
+    return this.data.synced_at !== null && !params?.include_transcript;
+  }
+
+  getStatus(params?: FathomListMeetingsParams): CacheStatus {
+    const syncedAt = this.data.synced_at;
+    return {
+      source: this.canServe(params) ? 'cache' : 'live',
+      last_synced_at: syncedAt,
+      age_seconds: syncedAt ? Math.round((Date.now() - new Date(syncedAt).getTime()) / 1000) : null,
+      meetings_cached: this.data.meetings.length
+    };
+  }
+
+  // Fetch meetings created since the newest cached record, and again those of the refresh window,
+  // and merge them into the store. Returns the number of new or updated meetings.
+  async sync(): Promise<number> {
+    if (this.syncing) {
+      return this.syncing;
+    }
+
+    this.syncing = this.runSync().finally(() => {
+      this.syncing = null;
+    });
+    return this.syncing;
+  }
+
+  // Periodically sync in the background; failures are logged and retried on the next tick
+  startBackgroundRefresh(intervalMinutes: number): void {
+    this.stopBackgroundRefresh();
+    const refresh = () => {
+      this.sync().catch(error => {
+        logger.error('Background cache sync failed', { error });
+      });
+    };
+    refresh();
+    this.refreshTimer = setInterval(refresh, intervalMinutes * 60 * 1000);
+    this.refreshTimer.unref();
+  }
+
+  stopBackgroundRefresh(): void {
+    if (this.refreshTimer) {
+      clearInterval(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+  }
+
+  // Insert or replace one meeting pushed by a Fathom webhook, without waiting for the next sync
+  async storeMeeting(meeting: FathomMeeting): Promise<void> {
+    await this.load();
+    const pushed = new Set(this.data.pushed_ids || []);
+    const existing = this.data.meetings.findIndex(cached => cached.recording_id === meeting.recording_id);
+    const stored = { ...meeting, transcript: undefined };
+
+    if (existing >= 0) {
+      this.data.meetings[existing] = stored;
+    } else {
+      this.data.meetings.push(stored);
+      this.data.meetings.sort(newestFirst);
+      pushed.add(meeting.recording_id);
+    }
+    this.data.pushed_ids = [...pushed];
+    await this.save();
+    logger.info('Stored meeting from webhook', { recording_id: meeting.recording_id });
+  }
+
+  private async runSync(): Promise<number> {
+    await this.load();
+    const startedAt = new Date().toISOString();
+    const pushed = new Set(this.data.pushed_ids || []);
+    const newest = this.data.meetings.reduce<number | undefined>(
+      (latest, meeting) => (!pushed.has(meeting.recording_id) && (latest === undefined || timeOf(meeting.created_at) > latest) ? timeOf(meeting.created_at) : latest),
+      undefined
+    );
+    const windowStart = Date.now() - this.refreshWindowDays * 24 * 60 * 60 * 1000;
+    const createdAfter = newest === undefined ? undefined : new Date(Math.min(newest, windowStart)).toISOString();
+    logger.info('Syncing meeting cache', { created_after: createdAfter || null, full_sync: !createdAfter });
+
+    const fetched: FathomMeeting[] = [];
+    let cursor: string | undefined = undefined;
+    do {
+      const response = await super.listMeetingsUnfiltered({
+        include_summary: true,
+        include_action_items: true,
+        include_crm_matches: true,
+        include_transcript: false,
+        created_after: createdAfter,
+        cursor
+      });
+      fetched.push(...response.items);
+      cursor = response.next_cursor;
+    } while (cursor);
+
+    // Merge into the current data, which includes meetings webhooks stored during the fetch
+    const byId = new Map(this.data.meetings.map(meeting => [meeting.recording_id, meeting]));
+    fetched.forEach(meeting => byId.set(meeting.recording_id, meeting));
+
+    const stillPushed = new Set(this.data.pushed_ids || []);
+    fetched.forEach(meeting => stillPushed.delete(meeting.recording_id));
+
+    this.data = {
+      synced_at: startedAt,
+      meetings: [...byId.values()].sort(newestFirst),
+      pushed_ids: [...stillPushed]
+    };
+    await this.save();
+
+    logger.info('Meeting cache synced', { fetched: fetched.length, cached: this.data.meetings.length });
+    return fetched.length;
+  }
+
+  // Read the cache file once; concurrent callers wait for the same read, so none of them
+  // saves over the file before it was loaded
+  private load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.readFile();
+    }
+    return this.loading;
+  }
+
+  private async readFile(): Promise<void> {
+    try {
+      const raw = await fs.readFile(this.filePath, 'utf8');
+      this.data = JSON.parse(raw);
+      logger.info('Meeting cache loaded', { meetings: this.data.meetings.length, file: this.filePath });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        logger.warn('Could not read cache file, starting empty', { file: this.filePath, error });
+      }
+    }
+  }
+
+  // Writes run one after another, so a webhook store during a sync never renames or
+  // overwrites the other's half-written temporary file
+  private save(): Promise<void> {
+    const write = this.writing.then(() => this.writeFile());
+    this.writing = write.catch(() => undefined);
+    return write;
+  }
+
+  // Write to a temporary file first so a crash never leaves a truncated cache behind
+  private async writeFile(): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    const tmpPath = `${this.filePath}.tmp`;
+    await fs.writeFile(tmpPath, JSON.stringify(this.data));
+    await fs.rename(tmpPath, this.filePath);
+  }
+
+  // Drop the optional fields the caller did not ask for, like the API does
+  private stripFields(meeting: FathomMeeting, params: FathomListMeetingsParams): FathomMeeting {
+    return {
+      ...meeting,
+      default_summary: params.include_summary ? meeting.default_summary : undefined,
+      action_items: params.include_action_items ? meeting.action_items : undefined,
+      crm_matches: params.include_crm_matches ? meeting.crm_matches : undefined,
+      transcript: undefined
+    };
+  }
+}
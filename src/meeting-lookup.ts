@@ -0,0 +1,188 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { FathomClient } from "./fathom-client.js";
+import { logger } from "./logger.js";
+import { CachedFathomClient } from "./meeting-cache.js";
+import { FathomListMeetingsParams, FathomListMeetingsResponse, FathomMeeting } from "./types.js";
+
+// Upper bound on meetings scanned when resolving a single recording or aggregating
+export const MAX_LOOKUP_MEETINGS = 1000;
+
+// Largest /meetings page, so a lookup takes as few requests as possible
+const LOOKUP_PAGE_SIZE = 100;
+
+// Default and maximum look-back windows, matching search_meetings
+const DEFAULT_DAYS_BACK = 180;
+const MAX_DAYS_BACK = 365;
+
+export interface MeetingReference {
+  recording_id?: number;
+  share_url?: string;
+}
+
+// Normalize a Fathom URL for comparison (no query string, fragment or trailing slash)
+function normalizeUrl(url: string): string {
+  return url.trim().toLowerCase().split(/[?#]/)[0].replace(/\/+$/, '');
+}
+
+// Build a meeting reference from validated tool arguments ({ recording_id } or { share_url })
+export function parseMeetingReference(args: MeetingReference): MeetingReference {
+  if (args.recording_id !== undefined) {
+    return { recording_id: args.recording_id };
+  }
+
+  const shareUrl = args.share_url?.trim() || '';
+  if (shareUrl) {
+    // Internal call URLs (https://fathom.video/calls/123) carry the recording id directly
+    const callMatch = shareUrl.match(/\/calls\/(\d+)/);
+    if (callMatch) {
+      return { recording_id: parseInt(callMatch[1]) };
+    }
+    return { share_url: shareUrl };
+  }
+
+  throw new McpError(ErrorCode.InvalidParams, 'Either recording_id or share_url is required');
+}
+
+function matchesReference(meeting: FathomMeeting, ref: MeetingReference): boolean {
+  if (ref.recording_id !== undefined) {
+    return meeting.recording_id === ref.recording_id;
+  }
+  if (ref.share_url) {
+    const target = normalizeUrl(ref.share_url);
+    return [meeting.share_url, meeting.url].some(url => url && normalizeUrl(url) === target);
+  }
+  return false;
+}
+
+export interface MeetingLookupResult {
+  meeting?: FathomMeeting;
+  scanned: number;
+  // The scan stopped at MAX_LOOKUP_MEETINGS, so older meetings were not looked at
+  limitReached: boolean;
+}
+
+// Page through /meetings until the referenced recording is found
+// Fathom has no single-meeting endpoint, so metadata (team, attendees) comes from the list.
+// Live lookups stop after MAX_LOOKUP_MEETINGS; a created_after param lets callers reach older
+// meetings. A synced meeting cache answers locally, so it is scanned in full.
+// bypassPolicy is only for policy audits, which must see denied meetings to explain them
+export async function findMeeting(
+  fathomClient: FathomClient,
+  ref: MeetingReference,
+  params: FathomListMeetingsParams = {},
+  options: { bypassPolicy?: boolean } = {}
+): Promise<MeetingLookupResult> {
+  const pageParams: FathomListMeetingsParams = { ...params, limit: LOOKUP_PAGE_SIZE };
+  let local = false;
+  let cursor: string | undefined = undefined;
+  let scanned = 0;
+
+  do {
+    const response: FathomListMeetingsResponse = options.bypassPolicy
+      ? await fathomClient.listMeetingsUnfiltered({ ...pageParams, cursor })
+      : await fathomClient.listMeetings({ ...pageParams, cursor });
+    const meeting = response.items.find(item => matchesReference(item, ref));
+    if (meeting) {
+      return { meeting, scanned: scanned + response.items.length, limitReached: false };
+    }
+    scanned += response.items.length;
+    cursor = response.next_cursor;
+    // Checked after the first page, which loads the cache from disk
+    local = fathomClient instanceof CachedFathomClient && fathomClient.canServe(pageParams);
+  } while (cursor && (local || scanned < MAX_LOOKUP_MEETINGS));
+
+  const limitReached = !!cursor;
+  logger.debug('Meeting not found', { scanned, limit_reached: limitReached });
+  return { scanned, limitReached };
+}
+
+// Describe a reference for error messages
+export function describeReference(ref: MeetingReference): string {
+  return ref.recording_id !== undefined ? `recording ${ref.recording_id}` : `share URL ${ref.share_url}`;
+}
+
+export class MeetingNotFoundError extends Error {
+  constructor(description: string, limitReached: boolean = false) {
+    super(limitReached
+      ? `Meeting not found within the last ${MAX_LOOKUP_MEETINGS} meetings: ${description} (pass created_after to look further back)`
+      : `Meeting not found or not accessible: ${description}`);
+    this.name = 'MeetingNotFoundError';
+  }
+}
+
+// findMeeting for callers that need the meeting: not finding it is an error
+export async function requireMeeting(
+  fathomClient: FathomClient,
+  ref: MeetingReference,
+  params: FathomListMeetingsParams = {}
+): Promise<FathomMeeting> {
+  const { meeting, limitReached } = await findMeeting(fathomClient, ref, params);
+  if (!meeting) {
+    throw new MeetingNotFoundError(describeReference(ref), limitReached);
+  }
+  return meeting;
+}
+
+export interface MeetingFetchResult {
+  meetings: FathomMeeting[];
+  // Set when paging stopped early on an API error; meetings then holds what was fetched so far
+  warning?: string;
+}
+
+// Fetch every meeting matching the API params, following next_cursor up to maxMeetings.
+// A failure on the first page is thrown; later failures return the partial result with a warning.
+export async function fetchAllMeetings(
+  fathomClient: FathomClient,
+  params: FathomListMeetingsParams,
+  maxMeetings: number = MAX_LOOKUP_MEETINGS
+): Promise<MeetingFetchResult> {
+  let meetings: FathomMeeting[] = [];
+  let cursor: string | undefined = undefined;
+  let pages = 0;
+
+  do {
+    let response: FathomListMeetingsResponse;
+    try {
+      response = await fathomClient.listMeetings({ ...params, cursor });
+    } catch (error) {
+      if (pages === 0) throw error;
+      const reason = error instanceof Error ? error.message : String(error);
+      logger.warn('Meeting pagination stopped early', { fetched: meetings.length, error });
+      return {
+        meetings: meetings.slice(0, maxMeetings),
+        warning: `Partial results: stopped after ${meetings.length} meetings because the Fathom API failed (${reason})`
+      };
+    }
+    pages++;
+    meetings = meetings.concat(response.items);
+    cursor = response.next_cursor;
+    logger.debug('Fetched meetings page', { items: response.items.length, total: meetings.length, has_next_page: !!cursor });
+  } while (cursor && meetings.length < maxMeetings);
+
+  return { meetings: meetings.slice(0, maxMeetings) };
+}
+
+// Date arguments shared by the tools listing meetings
+export interface DateRangeArgs {
+  days_back?: number;
+  created_after?: string;
+  created_before?: string;
+}
+
+// Translate created_after / created_before / days_back tool arguments into API date params
+export function buildDateRange(args: DateRangeArgs): Pick<FathomListMeetingsParams, 'created_after' | 'created_before'> {
+  const range: Pick<FathomListMeetingsParams, 'created_after' | 'created_before'> = {};
+
+  if (args.created_after) {
+    range.created_after = args.created_after;
+  } else {
+    const daysBack = Math.min(args.days_back || DEFAULT_DAYS_BACK, MAX_DAYS_BACK);
+    range.created_after = new Date(Date.now() - daysBack * 24 * 60 * 60 * 1000).toISOString();
+  }
+
+  if (args.created_before) {
+    range.created_before = args.created_before;
+  }
+
+  return range;
+}
@@ -0,0 +1,272 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { flattenActionItems } from "./action-items.js";
+import { FathomClient } from "./fathom-client.js";
+import { buildDateRange, fetchAllMeetings } from "./meeting-lookup.js";
+import { resourceTemplateTool } from "./meeting-resources.js";
+import { getMeeting } from "./meeting-tools.js";
+import { redactResult } from "./redaction.js";
+import { ToolFilter } from "./tool-registry.js";
+import { FathomMeeting } from "./types.js";
+
+// Server-provided prompts for common meeting workflows. Each prompt pre-fetches the
+// Fathom data it needs (through the policy-filtered client) and embeds it in the message.
+// A prompt is only offered when the caller may use the tools returning the same data.
+
+// Meetings embedded in a prompt, most recent first
+const MAX_PROMPT_MEETINGS = 10;
+// Look-back window and cache lifetime for argument completion
+const COMPLETION_DAYS_BACK = 90;
+const COMPLETION_TTL_MS = 5 * 60 * 1000;
+const MAX_COMPLETION_VALUES = 100;
+
+const promptDefinitions = [
+  {
+    name: "prepare_call",
+    description: "Prepare for the next call with a company: prior meetings, open action items and CRM matches",
+    arguments: [
+      { name: "domain", description: "Company email domain (e.g. acme.com)", required: true },
+      { name: "days_back", description: "Number of days of history to include (default: 180, max: 365)", required: false }
+    ]
+  },
+  {
+    name: "weekly_recap",
+    description: "Recap of the last 7 days of meetings recorded by a team: decisions, open action items and risks",
+    arguments: [
+      { name: "team", description: "Fathom team name", required: true }
+    ]
+  },
+  {
+    name: "follow_up_email",
+    description: "Draft a follow-up email for one meeting from its summary and action items",
+    arguments: [
+      { name: "recording_id", description: "Fathom recording id", required: true }
+    ]
+  }
+];
+
+// Tools whose data each prompt embeds (CRM matches are only returned by account_timeline)
+const PROMPT_TOOLS: Record<string, string[]> = {
+  prepare_call: ['search_meetings', 'list_action_items', 'account_timeline'],
+  weekly_recap: ['search_meetings', 'list_action_items'],
+  follow_up_email: ['get_meeting']
+};
+
+function isPromptAllowed(name: string, isAllowed: ToolFilter): boolean {
+  return (PROMPT_TOOLS[name] || []).every(isAllowed);
+}
+
+export function listPrompts(isAllowed: ToolFilter) {
+  return promptDefinitions.filter(prompt => isPromptAllowed(prompt.name, isAllowed));
+}
+
+function requireArgument(args: Record<string, string>, name: string): string {
+  const value = args[name]?.trim();
+  if (!value) {
+    throw new McpError(ErrorCode.InvalidParams, `Missing required argument: ${name}`);
+  }
+  return value;
+}
+
+function meetingDigest(meeting: FathomMeeting) {
+  return {
+    recording_id: meeting.recording_id,
+    title: meeting.title || meeting.meeting_title,
+    date: meeting.scheduled_start_time || meeting.created_at,
+    url: meeting.share_url || meeting.url,
+    attendees: (meeting.calendar_invitees || []).map(invitee => `${invitee.name} <${invitee.email}>`),
+    summary: meeting.default_summary?.markdown_formatted
+  };
+}
+
+function userMessage(instructions: string, data: unknown) {
+  return {
+    role: "user" as const,
+    content: {
+      type: "text" as const,
+      text: `${instructions}\n\nFathom data (JSON):\n\`\`\`json\n${JSON.stringify(data, null, 2)}\n\`\`\``
+    }
+  };
+}
+
+async function prepareCall(fathomClient: FathomClient, args: Record<string, string>) {
+  const domain = requireArgument(args, 'domain').toLowerCase();
+  const { meetings, warning } = await fetchAllMeetings(fathomClient, {
+    calendar_invitees_domains: [domain],
+    include_summary: true,
+    include_action_items: true,
+    include_crm_matches: true,
+    ...buildDateRange({ days_back: parseInt(args.days_back, 10) || undefined })
+  });
+
+  const recent = meetings.slice(0, MAX_PROMPT_MEETINGS);
+  const data = {
+    domain,
+    meetings_found: meetings.length,
+    prior_meetings: recent.map(meetingDigest),
+    open_action_items: meetings.flatMap(flattenActionItems).filter(item => !item.completed),
+    crm_matches: recent.map(meeting => meeting.crm_matches).find(matches => matches && !matches.error) || null,
+    ...(warning ? { warning } : {})
+  };
+
+  return {
+    description: `Call preparation for ${domain}`,
+    data,
+    instructions: `Prepare me for my next call with ${domain}. Using the meetings below, give me: a short relationship history, what was discussed and decided last time, open action items (ours and theirs) with owners, relevant CRM context (companies, contacts, deals), and 3-5 suggested talking points or questions. If there are no prior meetings, say so.`
+  };
+}
+
+async function weeklyRecap(fathomClient: FathomClient, args: Record<string, string>) {
+  const team = requireArgument(args, 'team');
+  const { meetings, warning } = await fetchAllMeetings(fathomClient, {
+    teams: [team],
+    include_summary: true,
+    include_action_items: true,
+    ...buildDateRange({ days_back: 7 })
+  });
+
+  const data = {
+    team,
+    meetings_found: meetings.length,
+    meetings: meetings.map(meetingDigest),
+    action_items: meetings.flatMap(flattenActionItems),
+    ...(warning ? { warning } : {})
+  };
+
+  return {
+    description: `Weekly recap for team ${team}`,
+    data,
+    instructions: `Write a weekly recap of the meetings recorded by the ${team} team over the last 7 days. Group it by theme or account, highlight key decisions, list open action items by owner, and call out risks or blockers. Keep it skimmable and link each point to its meeting URL.`
+  };
+}
+
+async function followUpEmail(fathomClient: FathomClient, args: Record<string, string>) {
+  const recordingId = Number(requireArgument(args, 'recording_id'));
+  if (!Number.isInteger(recordingId) || recordingId <= 0) {
+    throw new McpError(ErrorCode.InvalidParams, `Invalid recording_id: ${args.recording_id}`);
+  }
+  const meeting = await getMeeting(fathomClient, { recording_id: recordingId });
+
+  return {
+    description: `Follow-up email for "${meeting.title}"`,
+    data: meeting,
+    instructions: `Draft a follow-up email to the external attendees of this meeting. Thank them, recap the key points and decisions in a few bullets, list the agreed next steps with owners and dates where known, and end with a clear call to action. Keep it concise and professional, in the language the meeting was held in.`
+  };
+}
+
+const promptHandlers: Record<string, (fathomClient: FathomClient, args: Record<string, string>) => Promise<{ description: string; data: unknown; instructions: string }>> = {
+  prepare_call: prepareCall,
+  weekly_recap: weeklyRecap,
+  follow_up_email: followUpEmail
+};
+
+// Build a prompts/get result; enforced redaction applies to the embedded data
+export async function getPrompt(fathomClient: FathomClient, isAllowed: ToolFilter, name: string, args: Record<string, string> = {}) {
+  const handler = promptHandlers[name];
+  if (!handler) {
+    throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+  }
+  if (!isPromptAllowed(name, isAllowed)) {
+    throw new McpError(ErrorCode.InvalidParams, `Prompt not allowed for this access token: ${name}`);
+  }
+
+  const { description, data, instructions } = await handler(fathomClient, args);
+  const redacted = redactResult(fathomClient.getAccessPolicy().getRedaction(), data, {});
+  return {
+    description,
+    messages: [userMessage(instructions, redacted)]
+  };
+}
+
+interface CompletionSource {
+  loadedAt: number;
+  domains: string[];
+  teams: string[];
+  meetings: Array<{ id: string; title: string }>;
+}
+
+// Completion values per client, refreshed at most every COMPLETION_TTL_MS
+const completionSources = new WeakMap<FathomClient, CompletionSource>();
+
+// Distinct values ordered by how often they occur
+function byFrequency(values: string[]): string[] {
+  const counts = new Map<string, number>();
+  values.forEach(value => counts.set(value, (counts.get(value) || 0) + 1));
+  return [...counts.entries()].sort((a, b) => b[1] - a[1]).map(([value]) => value);
+}
+
+async function loadCompletionSource(fathomClient: FathomClient): Promise<CompletionSource> {
+  const cached = completionSources.get(fathomClient);
+  if (cached && Date.now() - cached.loadedAt < COMPLETION_TTL_MS) {
+    return cached;
+  }
+
+  const { meetings } = await fetchAllMeetings(fathomClient, {
+    include_summary: false,
+    include_transcript: false,
+    include_action_items: false,
+    include_crm_matches: false,
+    ...buildDateRange({ days_back: COMPLETION_DAYS_BACK })
+  }, 500);
+
+  const source: CompletionSource = {
+    loadedAt: Date.now(),
+    domains: byFrequency(meetings.flatMap(meeting => (meeting.calendar_invitees || [])
+      .filter(invitee => invitee.is_external && invitee.email_domain)
+      .map(invitee => invitee.email_domain.toLowerCase()))),
+    teams: byFrequency(meetings.map(meeting => meeting.recorded_by?.team).filter((team): team is string => !!team)),
+    meetings: meetings.map(meeting => ({ id: String(meeting.recording_id), title: meeting.title || meeting.meeting_title || '' }))
+  };
+  completionSources.set(fathomClient, source);
+  return source;
+}
+
+// completion/complete for prompt arguments and the recording_id of resource templates;
+// only for prompts and templates the caller may use, since the values come from meeting data
+export async function completeArgument(
+  fathomClient: FathomClient,
+  isAllowed: ToolFilter,
+  ref: { type: string; name?: string; uri?: string },
+  argument: { name: string; value: string }
+) {
+  if (ref.type === 'ref/prompt') {
+    if (!ref.name || !promptHandlers[ref.name]) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${ref.name}`);
+    }
+    if (!isPromptAllowed(ref.name, isAllowed)) {
+      throw new McpError(ErrorCode.InvalidParams, `Prompt not allowed for this access token: ${ref.name}`);
+    }
+  } else {
+    const tool = resourceTemplateTool(ref.uri || '');
+    if (!tool) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown resource template: ${ref.uri}`);
+    }
+    if (!isAllowed(tool)) {
+      throw new McpError(ErrorCode.InvalidParams, `Resource not allowed for this access token: ${ref.uri}`);
+    }
+  }
+
+  const query = argument.value.trim().toLowerCase();
+  let candidates: string[] = [];
+
+  if (['domain', 'team', 'recording_id'].includes(argument.name)) {
+    const source = await loadCompletionSource(fathomClient);
+    if (argument.name === 'domain') {
+      candidates = source.domains.filter(domain => domain.startsWith(query));
+    } else if (argument.name === 'team') {
+      candidates = source.teams.filter(team => team.toLowerCase().startsWith(query));
+    } else {
+      // Recording ids are matched by id prefix or by meeting title
+      candidates = source.meetings
+        .filter(meeting => meeting.id.startsWith(query) || meeting.title.toLowerCase().includes(query))
+        .map(meeting => meeting.id);
+    }
+  }
+
+  return {
+    completion: {
+      values: candidates.slice(0, MAX_COMPLETION_VALUES),
+      total: candidates.length,
+      hasMore: candidates.length > MAX_COMPLETION_VALUES
+    }
+  };
+}
@@ -0,0 +1,111 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { FathomClient } from "./fathom-client.js";
+import { getMeeting, getSummary, getTranscript, MeetingNotFoundError } from "./meeting-tools.js";
+import { ToolFilter } from "./tool-registry.js";
+
+// Meetings exposed as MCP resources, so a client can attach one to a conversation
+// without a search. Reads go through the same lookups as the tools, so the access
+// policy applies: denied meetings are neither listed nor readable. Each kind of resource
+// is also gated by the tool returning the same data (get_meeting, get_transcript, get_summary),
+// so an access token limited to some tools cannot read the others' data as resources.
+
+// JSON-RPC error code for unknown resources, as recommended by the MCP specification
+const RESOURCE_NOT_FOUND = -32002;
+
+const RESOURCE_URI = /^fathom:\/\/meeting\/(\d+)(?:\/(transcript|summary))?$/;
+
+// Tool granting each resource kind, keyed by the URI suffix ('' for the meeting itself)
+const RESOURCE_TOOLS: Record<string, string> = {
+  '': 'get_meeting',
+  transcript: 'get_transcript',
+  summary: 'get_summary'
+};
+
+const resourceTemplates = [
+  {
+    uriTemplate: "fathom://meeting/{recording_id}",
+    name: "Fathom meeting",
+    description: "Meeting metadata, attendees, summary and action items",
+    mimeType: "application/json"
+  },
+  {
+    uriTemplate: "fathom://meeting/{recording_id}/transcript",
+    name: "Fathom meeting transcript",
+    description: "Full transcript of the meeting",
+    mimeType: "application/json"
+  },
+  {
+    uriTemplate: "fathom://meeting/{recording_id}/summary",
+    name: "Fathom meeting summary",
+    description: "AI summary of the meeting",
+    mimeType: "application/json"
+  }
+];
+
+// Tool granting a resource template, or null for unknown templates
+export function resourceTemplateTool(uriTemplate: string): string | null {
+  const suffix = uriTemplate.match(/^fathom:\/\/meeting\/\{recording_id\}(?:\/(transcript|summary))?$/);
+  return suffix ? RESOURCE_TOOLS[suffix[1] || ''] : null;
+}
+
+export function listResourceTemplates(isAllowed: ToolFilter) {
+  return resourceTemplates.filter(template => isAllowed(resourceTemplateTool(template.uriTemplate)!));
+}
+
+export function meetingUri(recordingId: number): string {
+  return `fathom://meeting/${recordingId}`;
+}
+
+// One page of recent meetings; the cursor is the Fathom next_cursor. Only meeting URIs are
+// listed, so nothing is listed without get_meeting.
+export async function listMeetingResources(fathomClient: FathomClient, isAllowed: ToolFilter, cursor?: string) {
+  if (!isAllowed(RESOURCE_TOOLS[''])) {
+    return { resources: [] };
+  }
+
+  const response = await fathomClient.listMeetings({
+    cursor,
+    include_summary: false,
+    include_transcript: false,
+    include_action_items: false,
+    include_crm_matches: false
+  });
+
+  return {
+    resources: response.items.map(meeting => ({
+      uri: meetingUri(meeting.recording_id),
+      name: meeting.title || meeting.meeting_title,
+      description: `Recorded ${meeting.scheduled_start_time || meeting.created_at}${meeting.recorded_by?.name ? ` by ${meeting.recorded_by.name}` : ''}`,
+      mimeType: "application/json"
+    })),
+    nextCursor: response.next_cursor
+  };
+}
+
+// Resolve a fathom:// URI to the JSON payload of the matching tool
+export async function readMeetingResource(fathomClient: FathomClient, isAllowed: ToolFilter, uri: string): Promise<unknown> {
+  const match = uri.match(RESOURCE_URI);
+  if (!match) {
+    throw new McpError(ErrorCode.InvalidParams, `Unsupported resource URI: ${uri}`);
+  }
+  if (!isAllowed(RESOURCE_TOOLS[match[2] || ''])) {
+    throw new McpError(ErrorCode.InvalidParams, `Resource not allowed for this access token: ${uri}`);
+  }
+
+  const args = { recording_id: parseInt(match[1], 10) };
+  try {
+    switch (match[2]) {
+      case 'transcript':
+        return await getTranscript(fathomClient, args);
+      case 'summary':
+        return await getSummary(fathomClient, args);
+      default:
+        return await getMeeting(fathomClient, args);
+    }
+  } catch (error) {
+    if (error instanceof MeetingNotFoundError) {
+      throw new McpError(RESOURCE_NOT_FOUND, `Resource not found: ${uri}`);
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,311 @@
+import { z } from "zod";
+import { FathomClient } from "./fathom-client.js";
+import { logger } from "./logger.js";
+import { buildDateRange, fetchAllMeetings, MAX_LOOKUP_MEETINGS } from "./meeting-lookup.js";
+import { dateString, defineTool } from "./tool-registry.js";
+import { FathomListMeetingsParams, FathomMeeting } from "./types.js";
+
+const meetingStatsInput = z.object({
+  days_back: z.number().int().min(1).max(365).default(30)
+    .describe("Number of days to look back from today (default: 30, max: 365)"),
+  created_after: dateString().optional()
+    .describe("Only count meetings created after this date (ISO 8601 format). Overrides days_back if provided."),
+  created_before: dateString().optional()
+    .describe("Only count meetings created before this date (ISO 8601 format)"),
+  teams: z.array(z.string()).optional()
+    .describe("Only count meetings recorded by these teams (e.g. Sales)"),
+  recorded_by: z.array(z.string()).optional()
+    .describe("Only count meetings recorded by these email addresses"),
+  calendar_invitees_domains: z.array(z.string()).optional()
+    .describe("Only count meetings with attendees from these company domains"),
+  meeting_type: z.enum(["all", "internal", "external"]).default("all")
+    .describe("Only count internal meetings or meetings with external attendees"),
+  period: z.enum(["week", "month"]).default("week")
+    .describe("Time series granularity: ISO weeks (starting Monday, UTC) or calendar months"),
+  top: z.number().int().min(1).max(50).default(10)
+    .describe("Number of external domains and recorders to list (default: 10, max: 50)")
+});
+
+type MeetingStatsArgs = z.input<typeof meetingStatsInput>;
+
+const activityOutput = {
+  meetings: z.number(),
+  recorded_hours: z.number()
+};
+
+export const meetingStatsTool = defineTool({
+  name: "meeting_stats",
+  description: "Meeting activity statistics over a date range: meeting counts and recorded hours per week or month, breakdowns by team and by internal vs external meetings, top external domains by meeting count, busiest recorders, and action item creation and completion rates. Filters: teams, recorders, external domains and meeting type. Answers questions like 'how many customer calls did Sales run last month, and with whom?' without listing meetings. SECURITY: Meetings excluded by the access policy are never counted.",
+  inputSchema: meetingStatsInput,
+  outputSchema: z.object({
+    totals: z.object({
+      ...activityOutput,
+      average_duration_minutes: z.number().nullable(),
+      meetings_without_recording_times: z.number()
+    }),
+    periods: z.array(z.object({
+      period: z.string(),
+      start: z.string(),
+      ...activityOutput,
+      internal: z.number(),
+      external: z.number(),
+      action_items_created: z.number(),
+      action_items_completed: z.number()
+    })),
+    internal_vs_external: z.object({
+      internal: z.object(activityOutput),
+      external: z.object(activityOutput)
+    }),
+    by_team: z.array(z.object({ team: z.string(), ...activityOutput, external_meetings: z.number() })),
+    top_external_domains: z.array(z.object({
+      domain: z.string(),
+      ...activityOutput,
+      attendees: z.number(),
+      last_meeting: z.string()
+    })),
+    top_recorders: z.array(z.object({
+      name: z.string().nullish(),
+      email: z.string(),
+      team: z.string().nullish(),
+      ...activityOutput,
+      external_meetings: z.number()
+    })),
+    action_items: z.object({
+      created: z.number(),
+      completed: z.number(),
+      open: z.number(),
+      completion_rate: z.number().nullable(),
+      per_meeting: z.number().nullable(),
+      meetings_with_action_items: z.number()
+    }),
+    filters_applied: z.object({
+      created_after: z.string().optional(),
+      created_before: z.string().optional(),
+      teams: z.array(z.string()),
+      recorded_by: z.array(z.string()),
+      calendar_invitees_domains: z.array(z.string()),
+      meeting_type: z.string(),
+      period: z.string()
+    }),
+    warning: z.string().optional()
+  }),
+  handler: meetingStats
+});
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const NO_TEAM = 'No team';
+
+const round = (value: number, decimals = 1) => Math.round(value * 10 ** decimals) / 10 ** decimals;
+
+// When the meeting took place: recording start, else scheduled start, else creation
+function meetingTime(meeting: FathomMeeting): string {
+  return meeting.recording_start_time || meeting.scheduled_start_time || meeting.created_at;
+}
+
+// Recorded duration in milliseconds, or null without usable recording times
+function recordedMs(meeting: FathomMeeting): number | null {
+  if (!meeting.recording_start_time || !meeting.recording_end_time) return null;
+  const duration = Date.parse(meeting.recording_end_time) - Date.parse(meeting.recording_start_time);
+  return Number.isFinite(duration) && duration >= 0 ? duration : null;
+}
+
+// Fathom classifies meetings in calendar_invitees_domains_type; older records fall back to the invitees
+function isExternal(meeting: FathomMeeting): boolean {
+  if (meeting.calendar_invitees_domains_type) {
+    return meeting.calendar_invitees_domains_type === 'one_or_more_external';
+  }
+  return (meeting.calendar_invitees || []).some(invitee => invitee.is_external);
+}
+
+// Start of the UTC week (Monday) or month containing time
+function periodStart(time: number, period: 'week' | 'month'): Date {
+  const date = new Date(time);
+  if (period === 'month') {
+    return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+  }
+  const day = (date.getUTCDay() + 6) % 7;
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() - day));
+}
+
+function nextPeriod(start: Date, period: 'week' | 'month'): Date {
+  return period === 'month'
+    ? new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + 1, 1))
+    : new Date(start.getTime() + 7 * DAY_MS);
+}
+
+// ISO week label (2026-W42) or month label (2026-10)
+function periodLabel(start: Date, period: 'week' | 'month'): string {
+  if (period === 'month') {
+    return start.toISOString().slice(0, 7);
+  }
+  // The ISO year and week number are those of the week's Thursday
+  const thursday = new Date(start.getTime() + 3 * DAY_MS);
+  const yearStart = Date.UTC(thursday.getUTCFullYear(), 0, 1);
+  const week = Math.floor((thursday.getTime() - yearStart) / DAY_MS / 7) + 1;
+  return `${thursday.getUTCFullYear()}-W${String(week).padStart(2, '0')}`;
+}
+
+interface Activity {
+  meetings: number;
+  recordedMs: number;
+}
+
+function addActivity<T extends Activity>(map: Map<string, T>, key: string, durationMs: number, extra: Omit<T, keyof Activity>): T {
+  const entry = map.get(key) || { meetings: 0, recordedMs: 0, ...extra } as T;
+  entry.meetings++;
+  entry.recordedMs += durationMs;
+  map.set(key, entry);
+  return entry;
+}
+
+function activityOf(entry: Activity) {
+  return { meetings: entry.meetings, recorded_hours: round(entry.recordedMs / HOUR_MS) };
+}
+
+export async function meetingStats(fathomClient: FathomClient, args: MeetingStatsArgs) {
+  const period = args.period || 'week';
+  const top = args.top ?? 10;
+  const meetingType = args.meeting_type || 'all';
+  const dateRange = buildDateRange({ days_back: 30, ...args });
+
+  const apiParams: FathomListMeetingsParams = {
+    include_action_items: true,
+    include_summary: false,
+    include_transcript: false,
+    include_crm_matches: false,
+    ...dateRange
+  };
+  if (args.teams?.length) apiParams.teams = args.teams;
+  if (args.recorded_by?.length) apiParams.recorded_by = args.recorded_by;
+  if (args.calendar_invitees_domains?.length) apiParams.calendar_invitees_domains = args.calendar_invitees_domains;
+  if (meetingType !== 'all') {
+    apiParams.calendar_invitees_domains_type = meetingType === 'internal' ? 'only_internal' : 'one_or_more_external';
+  }
+
+  const { meetings, warning } = await fetchAllMeetings(fathomClient, apiParams);
+  const warnings = [
+    ...(warning ? [warning] : []),
+    ...(!warning && meetings.length >= MAX_LOOKUP_MEETINGS ? [`Only the ${MAX_LOOKUP_MEETINGS} most recent meetings were counted; narrow the date range or filters for exact totals`] : [])
+  ];
+  logger.debug('Meeting stats', { meetings: meetings.length, period });
+
+  // Every period of the range is listed, including those without meetings
+  const periods = new Map<string, { period: string; start: string; meetings: number; recordedMs: number; internal: number; external: number; created: number; completed: number }>();
+  const rangeEnd = dateRange.created_before ? Date.parse(dateRange.created_before) : Date.now();
+  for (let start = periodStart(Date.parse(dateRange.created_after!), period); start.getTime() <= rangeEnd; start = nextPeriod(start, period)) {
+    const label = periodLabel(start, period);
+    periods.set(label, { period: label, start: start.toISOString().slice(0, 10), meetings: 0, recordedMs: 0, internal: 0, external: 0, created: 0, completed: 0 });
+  }
+
+  const sides = { internal: { meetings: 0, recordedMs: 0 }, external: { meetings: 0, recordedMs: 0 } };
+  const teams = new Map<string, Activity & { external: number }>();
+  const domains = new Map<string, Activity & { attendees: Set<string>; last: string }>();
+  const recorders = new Map<string, Activity & { name?: string; team?: string; external: number }>();
+  let totalMs = 0;
+  let withoutTimes = 0;
+  let created = 0;
+  let completed = 0;
+  let withActionItems = 0;
+
+  for (const meeting of meetings) {
+    const duration = recordedMs(meeting);
+    if (duration === null) withoutTimes++;
+    const durationMs = duration || 0;
+    totalMs += durationMs;
+    const external = isExternal(meeting);
+    const time = meetingTime(meeting);
+    const items = meeting.action_items || [];
+    const itemsCompleted = items.filter(item => item.completed).length;
+    created += items.length;
+    completed += itemsCompleted;
+    if (items.length > 0) withActionItems++;
+
+    const label = periodLabel(periodStart(Date.parse(time), period), period);
+    const bucket = periods.get(label)
+      || { period: label, start: periodStart(Date.parse(time), period).toISOString().slice(0, 10), meetings: 0, recordedMs: 0, internal: 0, external: 0, created: 0, completed: 0 };
+    bucket.meetings++;
+    bucket.recordedMs += durationMs;
+    bucket[external ? 'external' : 'internal']++;
+    bucket.created += items.length;
+    bucket.completed += itemsCompleted;
+    periods.set(label, bucket);
+
+    const side = sides[external ? 'external' : 'internal'];
+    side.meetings++;
+    side.recordedMs += durationMs;
+
+    addActivity(teams, meeting.recorded_by?.team || NO_TEAM, durationMs, { external: 0 }).external += external ? 1 : 0;
+
+    const recorderEmail = meeting.recorded_by?.email?.toLowerCase();
+    if (recorderEmail) {
+      addActivity(recorders, recorderEmail, durationMs, { name: meeting.recorded_by.name, team: meeting.recorded_by.team, external: 0 }).external += external ? 1 : 0;
+    }
+
+    const externalInvitees = (meeting.calendar_invitees || []).filter(invitee => invitee.is_external);
+    const meetingDomains = new Set(externalInvitees
+      .map(invitee => (invitee.email_domain || invitee.email?.split('@')[1] || '').toLowerCase())
+      .filter(Boolean));
+    for (const domain of meetingDomains) {
+      const entry = addActivity(domains, domain, durationMs, { attendees: new Set<string>(), last: time });
+      externalInvitees
+        .filter(invitee => invitee.email?.toLowerCase().endsWith(`@${domain}`))
+        .forEach(invitee => entry.attendees.add(invitee.email.toLowerCase()));
+      if (Date.parse(time) > Date.parse(entry.last)) entry.last = time;
+    }
+  }
+
+  const byMeetings = <T extends Activity>(a: T, b: T) => b.meetings - a.meetings || b.recordedMs - a.recordedMs;
+
+  return {
+    totals: {
+      meetings: meetings.length,
+      recorded_hours: round(totalMs / HOUR_MS),
+      average_duration_minutes: meetings.length > withoutTimes ? round(totalMs / (meetings.length - withoutTimes) / 60000) : null,
+      meetings_without_recording_times: withoutTimes
+    },
+    periods: [...periods.values()]
+      .sort((a, b) => Date.parse(a.start) - Date.parse(b.start))
+      .map(bucket => ({
+        period: bucket.period,
+        start: bucket.start,
+        ...activityOf(bucket),
+        internal: bucket.internal,
+        external: bucket.external,
+        action_items_created: bucket.created,
+        action_items_completed: bucket.completed
+      })),
+    internal_vs_external: {
+      internal: activityOf(sides.internal),
+      external: activityOf(sides.external)
+    },
+    by_team: [...teams.entries()]
+      .sort(([, a], [, b]) => byMeetings(a, b))
+      .map(([team, entry]) => ({ team, ...activityOf(entry), external_meetings: entry.external })),
+    top_external_domains: [...domains.entries()]
+      .sort(([, a], [, b]) => byMeetings(a, b))
+      .slice(0, top)
+      .map(([domain, entry]) => ({ domain, ...activityOf(entry), attendees: entry.attendees.size, last_meeting: entry.last })),
+    top_recorders: [...recorders.entries()]
+      .sort(([, a], [, b]) => byMeetings(a, b))
+      .slice(0, top)
+      .map(([email, entry]) => ({ name: entry.name, email, team: entry.team, ...activityOf(entry), external_meetings: entry.external })),
+    action_items: {
+      created,
+      completed,
+      open: created - completed,
+      completion_rate: created > 0 ? round(completed / created, 2) : null,
+      per_meeting: meetings.length > 0 ? round(created / meetings.length) : null,
+      meetings_with_action_items: withActionItems
+    },
+    filters_applied: {
+      ...dateRange,
+      teams: args.teams || [],
+      recorded_by: args.recorded_by || [],
+      calendar_invitees_domains: args.calendar_invitees_domains || [],
+      meeting_type: meetingType,
+      period
+    },
+    ...(warnings.length ? { warning: warnings.join('. ') } : {})
+  };
+}
@@ -0,0 +1,120 @@
+import { z } from "zod";
+import { FathomClient } from "./fathom-client.js";
+import { logger } from "./logger.js";
+import { parseMeetingReference, requireMeeting } from "./meeting-lookup.js";
+import { dateString, defineTool, meetingHeaderOutput, summaryOutput, transcriptOutput } from "./tool-registry.js";
+import { FathomListMeetingsParams, FathomMeeting } from "./types.js";
+
+// Arguments shared by every single-meeting tool
+export const meetingReferenceInput = z.object({
+  recording_id: z.number().int().positive().optional()
+    .describe("Fathom recording id (the recording_id returned by search_meetings)"),
+  share_url: z.string().optional()
+    .describe("Fathom share URL or call URL of the meeting (used when recording_id is not provided)"),
+  created_after: dateString().optional()
+    .describe("Optional hint: the meeting was created after this date (ISO 8601). Needed for meetings older than the last 1000")
+});
+
+export type MeetingReferenceArgs = z.input<typeof meetingReferenceInput>;
+
+const getMeetingInput = meetingReferenceInput.extend({
+  include_summary: z.boolean().default(true)
+    .describe("Whether to include the meeting summary"),
+  include_transcript: z.boolean().default(false)
+    .describe("Whether to include the full transcript (WARNING: Can be very large)")
+});
+
+export const getMeetingTool = defineTool({
+  name: "get_meeting",
+  description: "Get one Fathom meeting by recording id or share URL: metadata, attendees, summary, action items and optionally the transcript. Use search_meetings first to find the recording id. SECURITY: Meetings excluded by the access policy are never returned.",
+  inputSchema: getMeetingInput,
+  outputSchema: z.object({
+    ...meetingHeaderOutput,
+    recording_start_time: z.string().nullish(),
+    recording_end_time: z.string().nullish(),
+    attendees: z.array(z.object({})).nullish(),
+    recorded_by: z.object({}).nullish(),
+    summary: summaryOutput.nullish(),
+    action_items: z.array(z.object({})).nullish(),
+    transcript: transcriptOutput.nullish()
+  }),
+  handler: getMeeting
+});
+
+export const getTranscriptTool = defineTool({
+  name: "get_transcript",
+  description: "Get the full transcript of one Fathom meeting by recording id or share URL. SECURITY: Meetings excluded by the access policy are never returned.",
+  inputSchema: meetingReferenceInput,
+  outputSchema: z.object({ ...meetingHeaderOutput, transcript: transcriptOutput.nullish() }),
+  handler: getTranscript
+});
+
+export const getSummaryTool = defineTool({
+  name: "get_summary",
+  description: "Get the AI summary of one Fathom meeting by recording id or share URL. SECURITY: Meetings excluded by the access policy are never returned.",
+  inputSchema: meetingReferenceInput,
+  outputSchema: z.object({ ...meetingHeaderOutput, summary: summaryOutput.nullish() }),
+  handler: getSummary
+});
+
+export { MeetingNotFoundError } from "./meeting-lookup.js";
+
+// Resolve the referenced meeting; meetings denied by the access policy are never listed, so they are not found
+async function resolveMeeting(fathomClient: FathomClient, args: MeetingReferenceArgs, params: FathomListMeetingsParams = {}): Promise<FathomMeeting> {
+  return requireMeeting(fathomClient, parseMeetingReference(args), { ...params, created_after: args.created_after });
+}
+
+function meetingHeader(meeting: FathomMeeting) {
+  return {
+    recording_id: meeting.recording_id,
+    title: meeting.title || meeting.meeting_title,
+    date: meeting.scheduled_start_time || meeting.created_at,
+    url: meeting.share_url || meeting.url
+  };
+}
+
+export async function getMeeting(fathomClient: FathomClient, args: z.input<typeof getMeetingInput>) {
+  const includeSummary = args.include_summary !== false;
+  const includeTranscript = args.include_transcript === true;
+
+  const meeting = await resolveMeeting(fathomClient, args, { include_action_items: true });
+  logger.debug('Fetching meeting details', { recording_id: meeting.recording_id });
+
+  const [summary, transcript] = await Promise.all([
+    includeSummary ? fathomClient.getRecordingSummary(meeting) : undefined,
+    includeTranscript ? fathomClient.getRecordingTranscript(meeting) : undefined
+  ]);
+
+  return {
+    ...meetingHeader(meeting),
+    recording_start_time: meeting.recording_start_time,
+    recording_end_time: meeting.recording_end_time,
+    attendees: meeting.calendar_invitees,
+    recorded_by: meeting.recorded_by,
+    summary: summary?.summary,
+    action_items: meeting.action_items,
+    transcript: transcript?.transcript
+  };
+}
+
+export async function getTranscript(fathomClient: FathomClient, args: MeetingReferenceArgs) {
+  const meeting = await resolveMeeting(fathomClient, args);
+  logger.debug('Fetching transcript', { recording_id: meeting.recording_id });
+
+  const response = await fathomClient.getRecordingTranscript(meeting);
+  return {
+    ...meetingHeader(meeting),
+    transcript: response.transcript
+  };
+}
+
+export async function getSummary(fathomClient: FathomClient, args: MeetingReferenceArgs) {
+  const meeting = await resolveMeeting(fathomClient, args);
+  logger.debug('Fetching summary', { recording_id: meeting.recording_id });
+
+  const response = await fathomClient.getRecordingSummary(meeting);
+  return {
+    ...meetingHeader(meeting),
+    summary: response.summary
+  };
+}
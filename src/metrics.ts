@@ -0,0 +1,102 @@
+// In-process metrics exposed at /metrics in the Prometheus text format (version 0.0.4).
+// Counters and histograms are keyed by their label values; nothing here ever holds meeting content.
+
+type Labels = Record<string, string>;
+
+function labelKey(labels: Labels): string {
+  return JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+function formatLabels(labels: Labels, extra: Labels = {}): string {
+  const entries = [...Object.entries(labels), ...Object.entries(extra)];
+  if (entries.length === 0) return '';
+  const escape = (value: string) => value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+  return `{${entries.map(([name, value]) => `${name}="${escape(value)}"`).join(',')}}`;
+}
+
+interface Metric {
+  render(): string;
+}
+
+const registry: Metric[] = [];
+
+export class Counter implements Metric {
+  private values = new Map<string, { labels: Labels; value: number }>();
+
+  constructor(private name: string, private help: string) {
+    registry.push(this);
+  }
+
+  inc(labels: Labels = {}, amount = 1): void {
+    const key = labelKey(labels);
+    const entry = this.values.get(key) || { labels, value: 0 };
+    entry.value += amount;
+    this.values.set(key, entry);
+  }
+
+  render(): string {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} counter`];
+    for (const { labels, value } of this.values.values()) {
+      lines.push(`${this.name}${formatLabels(labels)} ${value}`);
+    }
+    return lines.join('\n');
+  }
+}
+
+export class Histogram implements Metric {
+  private values = new Map<string, { labels: Labels; buckets: number[]; sum: number; count: number }>();
+
+  constructor(private name: string, private help: string, private bounds: number[]) {
+    registry.push(this);
+  }
+
+  observe(value: number, labels: Labels = {}): void {
+    const key = labelKey(labels);
+    const entry = this.values.get(key) || { labels, buckets: this.bounds.map(() => 0), sum: 0, count: 0 };
+    this.bounds.forEach((bound, index) => {
+      if (value <= bound) entry.buckets[index]++;
+    });
+    entry.sum += value;
+    entry.count++;
+    this.values.set(key, entry);
+  }
+
+  // Observe the duration in seconds of fn, whether it resolves or throws
+  async time<T>(labels: Labels, fn: () => Promise<T>): Promise<T> {
+    const start = process.hrtime.bigint();
+    try {
+      return await fn();
+    } finally {
+      this.observe(Number(process.hrtime.bigint() - start) / 1e9, labels);
+    }
+  }
+
+  render(): string {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`];
+    for (const { labels, buckets, sum, count } of this.values.values()) {
+      this.bounds.forEach((bound, index) => {
+        lines.push(`${this.name}_bucket${formatLabels(labels, { le: String(bound) })} ${buckets[index]}`);
+      });
+      lines.push(`${this.name}_bucket${formatLabels(labels, { le: '+Inf' })} ${count}`);
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${sum}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${count}`);
+    }
+    return lines.join('\n');
+  }
+}
+
+const LATENCY_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60];
+
+export const toolCalls = new Counter('mcp_tool_calls_total', 'MCP tool calls by tool and outcome (success or error)');
+export const toolCallDuration = new Histogram('mcp_tool_call_duration_seconds', 'MCP tool call latency, Fathom requests included', LATENCY_BUCKETS);
+export const fathomRequests = new Counter('fathom_api_requests_total', 'Fathom API requests (each attempt) by endpoint and HTTP status');
+export const fathomRequestDuration = new Histogram('fathom_api_request_duration_seconds', 'Fathom API request latency by endpoint, rate limiter wait excluded', LATENCY_BUCKETS);
+export const fathomRetries = new Counter('fathom_api_retries_total', 'Fathom API requests retried, by endpoint and cause');
+export const searchPagesFetched = new Histogram('search_meetings_pages_fetched', 'Fathom /meetings pages fetched per search_meetings call', [1, 2, 3, 5, 10]);
+export const meetingsExcluded = new Counter('fathom_meetings_excluded_total', 'Meetings removed from Fathom responses by the access policy');
+
+export const METRICS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+export function renderMetrics(): string {
+  return registry.map(metric => metric.render()).join('\n') + '\n';
+}
@@ -0,0 +1,216 @@
+#!/usr/bin/env node
+
+import express from "express";
+import { fileURLToPath, pathToFileURL } from "node:url";
+import { FixtureStore, loadFixtures } from "./fathom-fixtures.js";
+import { logger } from "./logger.js";
+import { matchesListParams } from "./meeting-cache.js";
+import { FathomListMeetingsParams, FathomMeeting } from "./types.js";
+
+// Local stand-in for the Fathom API, for demos and regression runs without a Fathom account.
+// It replays recorded fixtures (see fathom-fixtures.ts) and behaves like the real API where the
+// server depends on it: next_cursor paging, the /meetings filters, 401 for a wrong API key and
+// 429 with Retry-After once the per-minute request budget is used up.
+//
+//   npm run mock    then point the server at it with FATHOM_API_BASE_URL=http://localhost:3100
+
+export interface MockFathomOptions {
+  fixturesDir: string;
+  // Value expected in X-Api-Key
+  apiKey: string;
+  // Meetings per /meetings page; kept small so clients have to follow next_cursor
+  pageSize?: number;
+  // Requests accepted per minute before answering 429 (0 disables the limit)
+  requestsPerMinute?: number;
+  // Shift all meeting dates so the newest meeting is from today, keeping fixtures inside look-back windows
+  rebaseDates?: boolean;
+}
+
+const DEFAULT_PAGE_SIZE = 10;
+const RATE_LIMIT_WINDOW_MS = 60 * 1000;
+
+// Demo data shipped with the repository
+export const BUNDLED_FIXTURES_DIR = fileURLToPath(new URL('../fixtures/fathom', import.meta.url));
+
+// Array parameters arrive as name[]=a&name[]=b; a single value is accepted too
+function listParam(query: express.Request['query'], name: string): string[] | undefined {
+  const value = query[name] ?? query[`${name}[]`];
+  if (value === undefined) return undefined;
+  return (Array.isArray(value) ? value : [value]).map(String);
+}
+
+function stringParam(query: express.Request['query'], name: string): string | undefined {
+  return typeof query[name] === 'string' ? query[name] as string : undefined;
+}
+
+function toListParams(query: express.Request['query']): FathomListMeetingsParams {
+  return {
+    calendar_invitees_domains: listParam(query, 'calendar_invitees_domains'),
+    calendar_invitees_domains_type: stringParam(query, 'calendar_invitees_domains_type') as FathomListMeetingsParams['calendar_invitees_domains_type'],
+    recorded_by: listParam(query, 'recorded_by'),
+    teams: listParam(query, 'teams'),
+    created_after: stringParam(query, 'created_after'),
+    created_before: stringParam(query, 'created_before'),
+    meeting_type: stringParam(query, 'meeting_type') as FathomListMeetingsParams['meeting_type'],
+    include_summary: query.include_summary === 'true',
+    include_transcript: query.include_transcript === 'true',
+    include_action_items: query.include_action_items === 'true',
+    include_crm_matches: query.include_crm_matches === 'true'
+  };
+}
+
+// Optional fields are only returned when requested, as by the API
+function withRequestedFields(meeting: FathomMeeting, params: FathomListMeetingsParams, store: FixtureStore): FathomMeeting {
+  const { default_summary, transcript, action_items, crm_matches, ...rest } = meeting;
+  return {
+    ...rest,
+    ...(params.include_summary ? { default_summary: store.summaries.get(meeting.recording_id) ?? default_summary } : {}),
+    ...(params.include_transcript ? { transcript: store.transcripts.get(meeting.recording_id) ?? transcript } : {}),
+    ...(params.include_action_items ? { action_items: action_items ?? [] } : {}),
+    ...(params.include_crm_matches ? { crm_matches } : {})
+  };
+}
+
+const MEETING_DATE_FIELDS = ['created_at', 'scheduled_start_time', 'scheduled_end_time', 'recording_start_time', 'recording_end_time'] as const;
+
+function rebaseDates(meetings: FathomMeeting[]): FathomMeeting[] {
+  if (meetings.length === 0) return meetings;
+  const shiftMs = Date.now() - new Date(meetings[0].created_at).getTime();
+  return meetings.map(meeting => {
+    const shifted = { ...meeting };
+    MEETING_DATE_FIELDS.forEach(field => {
+      if (meeting[field]) shifted[field] = new Date(new Date(meeting[field]!).getTime() + shiftMs).toISOString();
+    });
+    return shifted;
+  });
+}
+
+// Cursors are opaque to clients, like Fathom's
+function encodeCursor(offset: number): string {
+  return Buffer.from(`offset:${offset}`).toString('base64url');
+}
+
+function decodeCursor(cursor: string): number | null {
+  const match = Buffer.from(cursor, 'base64url').toString().match(/^offset:(\d+)$/);
+  return match ? Number(match[1]) : null;
+}
+
+export async function createMockFathomApp(options: MockFathomOptions): Promise<express.Express> {
+  const store = await loadFixtures(options.fixturesDir);
+  if (options.rebaseDates) {
+    store.meetings = rebaseDates(store.meetings);
+  }
+  const pageSize = options.pageSize || DEFAULT_PAGE_SIZE;
+  const requestsPerMinute = options.requestsPerMinute || 0;
+  logger.info('Mock Fathom fixtures loaded', {
+    dir: options.fixturesDir,
+    meetings: store.meetings.length,
+    summaries: store.summaries.size,
+    transcripts: store.transcripts.size
+  });
+
+  let windowStart = Date.now();
+  let used = 0;
+
+  const app = express();
+
+  app.use((req, res, next) => {
+    res.on('finish', () => {
+      logger.info('Mock Fathom request', { method: req.method, path: req.path, status: res.statusCode });
+    });
+
+    if (req.get('x-api-key') !== options.apiKey) {
+      res.status(401).json({ message: 'Invalid API key' });
+      return;
+    }
+
+    if (requestsPerMinute > 0) {
+      const now = Date.now();
+      if (now - windowStart >= RATE_LIMIT_WINDOW_MS) {
+        windowStart = now;
+        used = 0;
+      }
+      const resetSeconds = Math.ceil((windowStart + RATE_LIMIT_WINDOW_MS - now) / 1000);
+      if (used >= requestsPerMinute) {
+        res.set({ 'Retry-After': String(resetSeconds), 'RateLimit-Remaining': '0', 'RateLimit-Reset': String(resetSeconds) });
+        res.status(429).json({ message: 'Rate limit exceeded' });
+        return;
+      }
+      used++;
+      res.set({
+        'RateLimit-Limit': String(requestsPerMinute),
+        'RateLimit-Remaining': String(requestsPerMinute - used),
+        'RateLimit-Reset': String(resetSeconds)
+      });
+    }
+    next();
+  });
+
+  app.get('/meetings', (req, res) => {
+    const cursor = stringParam(req.query, 'cursor');
+    const offset = cursor ? decodeCursor(cursor) : 0;
+    if (offset === null) {
+      res.status(400).json({ message: 'Invalid cursor' });
+      return;
+    }
+
+    const params = toListParams(req.query);
+    if ([params.created_after, params.created_before].some(date => date !== undefined && Number.isNaN(Date.parse(date)))) {
+      res.status(400).json({ message: 'Invalid date' });
+      return;
+    }
+
+    // limit asks for a page size, as with the API
+    const limit = Number(stringParam(req.query, 'limit')) || pageSize;
+    const matching = store.meetings.filter(meeting => matchesListParams(meeting, params));
+    const nextOffset = offset + limit;
+    res.json({
+      items: matching.slice(offset, nextOffset).map(meeting => withRequestedFields(meeting, params, store)),
+      limit,
+      next_cursor: nextOffset < matching.length ? encodeCursor(nextOffset) : null
+    });
+  });
+
+  app.get('/recordings/:recording_id/summary', (req, res) => {
+    const summary = store.summaries.get(Number(req.params.recording_id));
+    if (!summary) {
+      res.status(404).json({ message: 'Recording not found' });
+      return;
+    }
+    res.json({ summary });
+  });
+
+  app.get('/recordings/:recording_id/transcript', (req, res) => {
+    const transcript = store.transcripts.get(Number(req.params.recording_id));
+    if (!transcript) {
+      res.status(404).json({ message: 'Recording not found' });
+      return;
+    }
+    res.json({ transcript });
+  });
+
+  app.use((req, res) => {
+    res.status(404).json({ message: 'Not found' });
+  });
+
+  return app;
+}
+
+// Run standalone: node dist/mock-fathom-server.js (or npm run mock)
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const port = parseInt(process.env.MOCK_FATHOM_PORT || '3100', 10);
+  createMockFathomApp({
+    fixturesDir: process.env.MOCK_FATHOM_FIXTURES_DIR || BUNDLED_FIXTURES_DIR,
+    apiKey: process.env.MOCK_FATHOM_API_KEY || 'mock-api-key',
+    pageSize: parseInt(process.env.MOCK_FATHOM_PAGE_SIZE || '', 10) || undefined,
+    requestsPerMinute: parseInt(process.env.MOCK_FATHOM_RATE_LIMIT_PER_MINUTE || '0', 10),
+    rebaseDates: process.env.MOCK_FATHOM_REBASE_DATES !== 'false'
+  }).then(app => {
+    app.listen(port, () => {
+      logger.info('Mock Fathom API listening', { url: `http://localhost:${port}` });
+    });
+  }).catch(error => {
+    logger.error('Could not start the mock Fathom API', { error });
+    process.exit(1);
+  });
+}
@@ -0,0 +1,533 @@
+import { createHash, createPrivateKey, createPublicKey, generateKeyPairSync, KeyObject, randomBytes, randomUUID, scrypt, scryptSync, sign, timingSafeEqual } from 'crypto';
+import express from 'express';
+import { readFileSync, unwatchFile, watchFile } from 'fs';
+import { promisify } from 'util';
+import { z } from 'zod';
+import { InvalidGrantError, InvalidRequestError, InvalidScopeError, InvalidTokenError } from '@modelcontextprotocol/sdk/server/auth/errors.js';
+import { authorizationHandler } from '@modelcontextprotocol/sdk/server/auth/handlers/authorize.js';
+import { metadataHandler } from '@modelcontextprotocol/sdk/server/auth/handlers/metadata.js';
+import { clientRegistrationHandler } from '@modelcontextprotocol/sdk/server/auth/handlers/register.js';
+import { revocationHandler } from '@modelcontextprotocol/sdk/server/auth/handlers/revoke.js';
+import { tokenHandler } from '@modelcontextprotocol/sdk/server/auth/handlers/token.js';
+import { OAuthRegisteredClientsStore } from '@modelcontextprotocol/sdk/server/auth/clients.js';
+import { AuthorizationParams, OAuthServerProvider } from '@modelcontextprotocol/sdk/server/auth/provider.js';
+import { createOAuthMetadata } from '@modelcontextprotocol/sdk/server/auth/router.js';
+import { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { OAuthClientInformationFull, OAuthTokenRevocationRequest, OAuthTokens } from '@modelcontextprotocol/sdk/shared/auth.js';
+import { logger } from './logger.js';
+import { JwtClaims, toAuthInfo, verifyJwt } from './oauth.js';
+
+// Built-in OAuth authorization server for teams without an identity provider: dynamic client
+// registration, authorization code flow with PKCE (checked by the SDK token handler), refresh
+// token rotation and revocation. Users sign in with a password from a users file.
+//
+// Clients, codes and refresh tokens live in memory: after a restart clients register again and
+// users sign in again. Access tokens stay valid across restarts when MCP_OAUTH_SIGNING_KEY_FILE is set.
+
+const userSchema = z.object({
+  email: z.string().email(),
+  name: z.string().min(1).optional(),
+  // scrypt:<salt hex>:<hash hex>, see README for how to generate it
+  password_scrypt: z.string().regex(/^scrypt:[a-fA-F0-9]+:[a-fA-F0-9]{64}$/, 'must be scrypt:<salt hex>:<hash hex>'),
+  // tenant id in multi-tenant mode
+  tenant: z.string().optional(),
+  // disabled users cannot sign in and their tokens stop working immediately
+  disabled: z.boolean().optional()
+}).strict();
+
+const usersFileSchema = z.object({
+  users: z.array(userSchema)
+}).strict();
+
+type User = z.infer<typeof userSchema>;
+
+export interface BuiltInAuthServerOptions {
+  // Public base URL of this server, used as the token issuer
+  issuer: string;
+  // MCP endpoint URL, the audience of every token
+  audience: string;
+  usersFile: string;
+  // Scopes granted to every token
+  scopes: string[];
+  // Claim carrying the user's tenant id
+  tenantClaim: string;
+  // PEM file with an EC P-256 private key; omitted: a key generated at startup
+  signingKeyFile?: string | null;
+  accessTokenTtlSeconds?: number;
+}
+
+const AUTHORIZATION_REQUEST_TTL_MS = 10 * 60 * 1000;
+const CODE_TTL_MS = 5 * 60 * 1000;
+const REFRESH_TOKEN_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+const MAX_LOGIN_ATTEMPTS = 5;
+// Failed sign-ins per email and per client IP across all requests, within the window
+const LOGIN_FAILURE_WINDOW_MS = 15 * 60 * 1000;
+const MAX_LOGIN_FAILURES_PER_EMAIL = 10;
+const MAX_LOGIN_FAILURES_PER_IP = 50;
+// Oldest entries are dropped beyond these, so open registration and unauthenticated
+// authorization requests or sign-ins cannot exhaust memory
+const MAX_CLIENTS = 1000;
+const MAX_PENDING_AUTHORIZATIONS = 1000;
+const MAX_LOGIN_FAILURE_KEYS = 10000;
+const DEFAULT_ACCESS_TOKEN_TTL_SECONDS = 3600;
+
+export const LOGIN_PATH = '/oauth/login';
+export const JWKS_PATH = '/oauth/jwks';
+
+interface PendingAuthorization {
+  client: OAuthClientInformationFull;
+  params: AuthorizationParams;
+  expiresAt: number;
+  attempts: number;
+}
+
+interface LoginFailures {
+  count: number;
+  resetAt: number;
+}
+
+interface Grant {
+  clientId: string;
+  email: string;
+  scopes: string[];
+  expiresAt: number;
+}
+
+interface AuthorizationCode extends Grant {
+  codeChallenge: string;
+  redirectUri: string;
+}
+
+interface RefreshGrant extends Grant {
+  // Access token issued together with this refresh token, revoked with it
+  accessTokenId: string;
+  accessTokenExpiresAt: number;
+}
+
+// Password hash in the users file format (scrypt with a random 16-byte salt)
+export function hashPassword(password: string): string {
+  const salt = randomBytes(16);
+  return `scrypt:${salt.toString('hex')}:${scryptSync(password, salt, 32).toString('hex')}`;
+}
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+// Off the event loop: a sign-in does not block other requests while the hash is computed
+async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [, salt, hash] = stored.split(':');
+  return timingSafeEqual(await scryptAsync(password, Buffer.from(salt, 'hex'), 32), Buffer.from(hash, 'hex'));
+}
+
+// Compared against when the email is unknown, so failed sign-ins take the same time either way
+const DUMMY_PASSWORD_HASH = hashPassword(randomUUID());
+
+function hashSecret(secret: string): string {
+  return createHash('sha256').update(secret).digest('hex');
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+}
+
+function loadSigningKey(file: string | null | undefined): KeyObject {
+  if (!file) {
+    logger.warn('No MCP_OAUTH_SIGNING_KEY_FILE set: access tokens are signed with a key generated at startup and stop working after a restart');
+    return generateKeyPairSync('ec', { namedCurve: 'prime256v1' }).privateKey;
+  }
+  const key = createPrivateKey(readFileSync(file, 'utf8'));
+  if (key.asymmetricKeyType !== 'ec' || key.asymmetricKeyDetails?.namedCurve !== 'prime256v1') {
+    throw new Error(`${file}: expected an EC P-256 private key (openssl ecparam -name prime256v1 -genkey -noout)`);
+  }
+  return key;
+}
+
+export class BuiltInAuthorizationServer implements OAuthServerProvider {
+  private users = new Map<string, User>();
+  private clients = new Map<string, OAuthClientInformationFull>();
+  private pending = new Map<string, PendingAuthorization>();
+  // Keyed by email: or ip: and the value
+  private loginFailures = new Map<string, LoginFailures>();
+  private codes = new Map<string, AuthorizationCode>();
+  // Keyed by the SHA-256 of the refresh token
+  private refreshTokens = new Map<string, RefreshGrant>();
+  // Revoked access token ids until the tokens expire
+  private revokedTokenIds = new Map<string, number>();
+  private privateKey: KeyObject;
+  private publicKey: KeyObject;
+  private keyId: string;
+  private accessTokenTtlSeconds: number;
+
+  constructor(private options: BuiltInAuthServerOptions) {
+    this.privateKey = loadSigningKey(options.signingKeyFile);
+    this.publicKey = createPublicKey(this.privateKey);
+    const { crv, kty, x, y } = this.publicKey.export({ format: 'jwk' });
+    // RFC 7638 thumbprint
+    this.keyId = createHash('sha256').update(JSON.stringify({ crv, kty, x, y })).digest('base64url');
+    this.accessTokenTtlSeconds = options.accessTokenTtlSeconds || DEFAULT_ACCESS_TOKEN_TTL_SECONDS;
+    this.loadUsers();
+  }
+
+  get clientsStore(): OAuthRegisteredClientsStore {
+    return {
+      getClient: (clientId) => this.clients.get(clientId),
+      registerClient: (client) => {
+        const registered = client as OAuthClientInformationFull;
+        this.clients.set(registered.client_id, registered);
+        if (this.clients.size > MAX_CLIENTS) {
+          this.clients.delete(this.clients.keys().next().value!);
+        }
+        logger.info('OAuth client registered', { client_id: registered.client_id, client_name: registered.client_name });
+        return registered;
+      }
+    };
+  }
+
+  // Re-read the users file. On error the previous users stay active.
+  loadUsers(): void {
+    const raw = JSON.parse(readFileSync(this.options.usersFile, 'utf8'));
+    const result = usersFileSchema.safeParse(raw);
+    if (!result.success) {
+      const issues = result.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`).join('; ');
+      throw new Error(`Invalid users file ${this.options.usersFile}: ${issues}`);
+    }
+    const users = new Map<string, User>();
+    for (const user of result.data.users) {
+      const email = user.email.toLowerCase();
+      if (users.has(email)) {
+        throw new Error(`Invalid users file ${this.options.usersFile}: duplicate user ${email}`);
+      }
+      users.set(email, user);
+    }
+    this.users = users;
+    logger.info('OAuth users loaded', { users: users.size, file: this.options.usersFile });
+  }
+
+  // Reload when the users file changes or on SIGHUP
+  watch(): void {
+    const reload = () => {
+      try {
+        this.loadUsers();
+      } catch (error) {
+        logger.error('OAuth users reload failed, keeping previous users', { file: this.options.usersFile, error });
+      }
+    };
+    unwatchFile(this.options.usersFile);
+    watchFile(this.options.usersFile, { interval: 2000 }, (current, prev) => {
+      if (current.mtimeMs !== prev.mtimeMs) reload();
+    }).unref();
+    process.on('SIGHUP', reload);
+  }
+
+  jwks() {
+    return { keys: [{ ...this.publicKey.export({ format: 'jwk' }), kid: this.keyId, alg: 'ES256', use: 'sig' }] };
+  }
+
+  // Authorization request already validated by the SDK handler (client, redirect URI, PKCE
+  // challenge): show the sign-in page
+  async authorize(client: OAuthClientInformationFull, params: AuthorizationParams, res: express.Response): Promise<void> {
+    const unsupported = (params.scopes || []).filter(scope => !this.options.scopes.includes(scope));
+    if (unsupported.length > 0) {
+      throw new InvalidScopeError(`Unsupported scopes: ${unsupported.join(' ')}`);
+    }
+    this.checkResource(params.resource);
+
+    this.sweep();
+    const requestId = randomBytes(24).toString('base64url');
+    this.pending.set(requestId, { client, params, expiresAt: Date.now() + AUTHORIZATION_REQUEST_TTL_MS, attempts: 0 });
+    if (this.pending.size > MAX_PENDING_AUTHORIZATIONS) {
+      this.pending.delete(this.pending.keys().next().value!);
+    }
+    this.renderLogin(res, requestId, client);
+  }
+
+  // POST /oauth/login: check the password, then redirect back to the client with a code
+  handleLogin = async (req: express.Request, res: express.Response) => {
+    try {
+      const { request_id: requestId, email, password } = req.body as Record<string, string | undefined>;
+      const request = requestId ? this.pending.get(requestId) : undefined;
+      if (!requestId || !request || request.expiresAt <= Date.now()) {
+        res.status(400).type('text/plain').send('This sign-in request has expired. Start again from your MCP client.');
+        return;
+      }
+
+      const normalizedEmail = (email || '').trim().toLowerCase();
+      const failureKeys = [`email:${normalizedEmail}`, `ip:${req.ip || req.socket.remoteAddress || ''}`];
+      const retryAfterMs = this.loginBlockedFor(failureKeys);
+      if (retryAfterMs > 0) {
+        logger.warn('OAuth sign-in rate limited', { client_id: request.client.client_id, ip: req.ip });
+        res.status(429).setHeader('Retry-After', String(Math.ceil(retryAfterMs / 1000)));
+        res.type('text/plain').send('Too many failed sign-in attempts. Try again later.');
+        return;
+      }
+
+      const user = normalizedEmail ? this.users.get(normalizedEmail) : undefined;
+      const valid = await verifyPassword(password || '', user?.password_scrypt || DUMMY_PASSWORD_HASH) && !!user && !user.disabled;
+      // The request may have been used or dropped while the password was checked
+      if (this.pending.get(requestId) !== request) {
+        res.status(400).type('text/plain').send('This sign-in request has expired. Start again from your MCP client.');
+        return;
+      }
+      if (!valid) {
+        request.attempts++;
+        this.recordLoginFailure(failureKeys);
+        logger.info('OAuth sign-in failed', { client_id: request.client.client_id, attempts: request.attempts });
+        if (request.attempts >= MAX_LOGIN_ATTEMPTS) {
+          this.pending.delete(requestId);
+          res.status(400).type('text/plain').send('Too many failed sign-in attempts. Start again from your MCP client.');
+          return;
+        }
+        this.renderLogin(res.status(401), requestId, request.client, 'Invalid email or password');
+        return;
+      }
+
+      this.pending.delete(requestId);
+      // A successful sign-in clears both counts, so users behind a shared IP are not held back by
+      // earlier failures; guessing stays bounded by the per-email limit
+      failureKeys.forEach(key => this.loginFailures.delete(key));
+      const code = randomBytes(32).toString('base64url');
+      this.codes.set(code, {
+        clientId: request.client.client_id,
+        email: normalizedEmail,
+        scopes: this.options.scopes,
+        codeChallenge: request.params.codeChallenge,
+        redirectUri: request.params.redirectUri,
+        expiresAt: Date.now() + CODE_TTL_MS
+      });
+      logger.info('OAuth sign-in succeeded', { client_id: request.client.client_id, user: normalizedEmail });
+
+      const redirect = new URL(request.params.redirectUri);
+      redirect.searchParams.set('code', code);
+      if (request.params.state !== undefined) {
+        redirect.searchParams.set('state', request.params.state);
+      }
+      res.redirect(302, redirect.href);
+    } catch (error) {
+      logger.error('OAuth sign-in error', { error });
+      res.status(500).type('text/plain').send('Sign-in failed. Start again from your MCP client.');
+    }
+  };
+
+  async challengeForAuthorizationCode(client: OAuthClientInformationFull, authorizationCode: string): Promise<string> {
+    return this.findCode(client, authorizationCode).codeChallenge;
+  }
+
+  async exchangeAuthorizationCode(
+    client: OAuthClientInformationFull,
+    authorizationCode: string,
+    _codeVerifier?: string,
+    redirectUri?: string,
+    resource?: URL
+  ): Promise<OAuthTokens> {
+    const code = this.findCode(client, authorizationCode);
+    // Codes are single use, whatever the outcome
+    this.codes.delete(authorizationCode);
+    if (redirectUri !== undefined && redirectUri !== code.redirectUri) {
+      throw new InvalidGrantError('redirect_uri does not match the authorization request');
+    }
+    this.checkResource(resource);
+    return this.issueTokens(code);
+  }
+
+  async exchangeRefreshToken(client: OAuthClientInformationFull, refreshToken: string, scopes?: string[], resource?: URL): Promise<OAuthTokens> {
+    const key = hashSecret(refreshToken);
+    const grant = this.refreshTokens.get(key);
+    if (!grant || grant.clientId !== client.client_id || grant.expiresAt <= Date.now()) {
+      throw new InvalidGrantError('Invalid refresh token');
+    }
+    // Rotation: every refresh token is used once
+    this.refreshTokens.delete(key);
+    // Access tokens must carry every configured scope (see verifyAccessToken), so a refresh
+    // keeps the scopes of the original grant
+    if (scopes?.length && (scopes.some(scope => !grant.scopes.includes(scope)) || grant.scopes.some(scope => !scopes.includes(scope)))) {
+      throw new InvalidScopeError('Refreshed tokens keep the scopes of the original grant');
+    }
+    this.checkResource(resource);
+    return this.issueTokens(grant);
+  }
+
+  async verifyAccessToken(token: string): Promise<AuthInfo> {
+    const claims = await verifyJwt(token, async header => (header.kid === this.keyId ? this.publicKey : null), {
+      issuer: this.options.issuer,
+      audience: this.options.audience,
+      requiredScopes: this.options.scopes
+    });
+    if (typeof claims.jti === 'string' && this.revokedTokenIds.has(claims.jti)) {
+      throw new InvalidTokenError('Token has been revoked');
+    }
+    const user = this.users.get(claims.sub!);
+    if (!user || user.disabled) {
+      throw new InvalidTokenError('User no longer has access');
+    }
+    // A user moved to another tenant signs in again rather than keep the old tenant's data
+    if ((claims[this.options.tenantClaim] ?? undefined) !== user.tenant) {
+      throw new InvalidTokenError('User tenant has changed');
+    }
+    return toAuthInfo(token, claims, this.options.tenantClaim);
+  }
+
+  // Revoking a refresh token also revokes the access token issued with it
+  async revokeToken(client: OAuthClientInformationFull, request: OAuthTokenRevocationRequest): Promise<void> {
+    const key = hashSecret(request.token);
+    const grant = this.refreshTokens.get(key);
+    if (grant && grant.clientId === client.client_id) {
+      this.refreshTokens.delete(key);
+      this.revokedTokenIds.set(grant.accessTokenId, grant.accessTokenExpiresAt);
+      logger.info('OAuth refresh token revoked', { client_id: client.client_id });
+      return;
+    }
+
+    // Unknown or foreign tokens are ignored, as RFC 7009 asks
+    try {
+      const auth = await this.verifyAccessToken(request.token);
+      const claims = JSON.parse(Buffer.from(request.token.split('.')[1], 'base64url').toString('utf8')) as JwtClaims;
+      if (auth.clientId === client.client_id && typeof claims.jti === 'string') {
+        this.revokedTokenIds.set(claims.jti, (claims.exp || 0) * 1000);
+        logger.info('OAuth access token revoked', { client_id: client.client_id });
+      }
+    } catch {
+      // not an active access token
+    }
+  }
+
+  private findCode(client: OAuthClientInformationFull, authorizationCode: string): AuthorizationCode {
+    const code = this.codes.get(authorizationCode);
+    if (!code || code.clientId !== client.client_id || code.expiresAt <= Date.now()) {
+      throw new InvalidGrantError('Invalid authorization code');
+    }
+    return code;
+  }
+
+  // Tokens are only issued for this server
+  private checkResource(resource: URL | undefined): void {
+    if (resource && resource.href !== this.options.audience) {
+      throw new InvalidRequestError(`Unknown resource: ${resource.href}`);
+    }
+  }
+
+  // The user may have been removed or disabled since the code or refresh token was issued
+  private issueTokens(grant: Grant): OAuthTokens {
+    const user = this.users.get(grant.email);
+    if (!user || user.disabled) {
+      throw new InvalidGrantError('User no longer has access');
+    }
+    const now = Math.floor(Date.now() / 1000);
+    const tokenId = randomUUID();
+    const claims: JwtClaims = {
+      iss: this.options.issuer,
+      sub: grant.email,
+      aud: this.options.audience,
+      iat: now,
+      exp: now + this.accessTokenTtlSeconds,
+      jti: tokenId,
+      client_id: grant.clientId,
+      scope: grant.scopes.join(' '),
+      email: grant.email,
+      ...(user.name ? { name: user.name } : {}),
+      ...(user.tenant ? { [this.options.tenantClaim]: user.tenant } : {})
+    };
+    const header = { alg: 'ES256', typ: 'at+jwt', kid: this.keyId };
+    const signingInput = `${Buffer.from(JSON.stringify(header)).toString('base64url')}.${Buffer.from(JSON.stringify(claims)).toString('base64url')}`;
+    const signature = sign('sha256', Buffer.from(signingInput), { key: this.privateKey, dsaEncoding: 'ieee-p1363' });
+
+    const refreshToken = randomBytes(32).toString('base64url');
+    this.refreshTokens.set(hashSecret(refreshToken), {
+      clientId: grant.clientId,
+      email: grant.email,
+      scopes: grant.scopes,
+      expiresAt: Date.now() + REFRESH_TOKEN_TTL_MS,
+      accessTokenId: tokenId,
+      accessTokenExpiresAt: claims.exp! * 1000
+    });
+
+    return {
+      access_token: `${signingInput}.${signature.toString('base64url')}`,
+      token_type: 'Bearer',
+      expires_in: this.accessTokenTtlSeconds,
+      refresh_token: refreshToken,
+      ...(grant.scopes.length > 0 ? { scope: grant.scopes.join(' ') } : {})
+    };
+  }
+
+  // Time left until one of the keys may sign in again, 0 when none is blocked
+  private loginBlockedFor(keys: string[]): number {
+    const now = Date.now();
+    let blockedFor = 0;
+    for (const key of keys) {
+      const failures = this.loginFailures.get(key);
+      const max = key.startsWith('email:') ? MAX_LOGIN_FAILURES_PER_EMAIL : MAX_LOGIN_FAILURES_PER_IP;
+      if (failures && failures.resetAt > now && failures.count >= max) {
+        blockedFor = Math.max(blockedFor, failures.resetAt - now);
+      }
+    }
+    return blockedFor;
+  }
+
+  private recordLoginFailure(keys: string[]): void {
+    const now = Date.now();
+    for (const key of keys) {
+      const failures = this.loginFailures.get(key);
+      if (failures && failures.resetAt > now) {
+        failures.count++;
+      } else {
+        this.loginFailures.delete(key);
+        this.loginFailures.set(key, { count: 1, resetAt: now + LOGIN_FAILURE_WINDOW_MS });
+      }
+    }
+    while (this.loginFailures.size > MAX_LOGIN_FAILURE_KEYS) {
+      this.loginFailures.delete(this.loginFailures.keys().next().value!);
+    }
+  }
+
+  // Drop expired requests, codes, refresh tokens, revocations and sign-in failures
+  private sweep(): void {
+    const now = Date.now();
+    for (const [key, entry] of this.pending) if (entry.expiresAt <= now) this.pending.delete(key);
+    for (const [key, entry] of this.loginFailures) if (entry.resetAt <= now) this.loginFailures.delete(key);
+    for (const [key, entry] of this.codes) if (entry.expiresAt <= now) this.codes.delete(key);
+    for (const [key, entry] of this.refreshTokens) if (entry.expiresAt <= now) this.refreshTokens.delete(key);
+    for (const [key, expiresAt] of this.revokedTokenIds) if (expiresAt <= now) this.revokedTokenIds.delete(key);
+  }
+
+  private renderLogin(res: express.Response, requestId: string, client: OAuthClientInformationFull, error?: string): void {
+    const clientName = escapeHtml(client.client_name || client.client_id);
+    res.setHeader('Content-Security-Policy', "default-src 'none'; style-src 'unsafe-inline'; form-action 'self'; frame-ancestors 'none'");
+    res.setHeader('Cache-Control', 'no-store');
+    res.type('html').send(`<!DOCTYPE html>
+<html lang="en">
+<head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1"><title>Sign in - Fathom MCP Server</title>
+<style>body{font-family:system-ui,sans-serif;max-width:22rem;margin:4rem auto;padding:0 1rem}label,input,button{display:block;width:100%;box-sizing:border-box;margin-top:.5rem}input,button{padding:.5rem}button{margin-top:1rem}.error{color:#b00020}</style></head>
+<body>
+<h1>Sign in</h1>
+<p><strong>${clientName}</strong> wants to access Fathom meetings on your behalf.</p>
+${error ? `<p class="error">${escapeHtml(error)}</p>` : ''}
+<form method="post" action="${LOGIN_PATH}">
+<input type="hidden" name="request_id" value="${escapeHtml(requestId)}">
+<label>Email<input type="email" name="email" autocomplete="username" required autofocus></label>
+<label>Password<input type="password" name="password" autocomplete="current-password" required></label>
+<button type="submit">Sign in</button>
+</form>
+</body>
+</html>`);
+  }
+}
+
+// Authorization server endpoints (authorize, token, register, revoke, sign-in form, JWKS and
+// metadata), to be mounted at the application root
+export function createAuthorizationServerRouter(server: BuiltInAuthorizationServer, issuer: string, scopes: string[]): express.Router {
+  const metadata = {
+    ...createOAuthMetadata({ provider: server, issuerUrl: new URL(issuer), scopesSupported: scopes.length > 0 ? scopes : undefined }),
+    jwks_uri: new URL(JWKS_PATH, issuer).href
+  };
+
+  const router = express.Router();
+  router.use('/authorize', authorizationHandler({ provider: server }));
+  router.use('/token', tokenHandler({ provider: server }));
+  router.use('/register', clientRegistrationHandler({ clientsStore: server.clientsStore }));
+  router.use('/revoke', revocationHandler({ provider: server }));
+  router.post(LOGIN_PATH, express.urlencoded({ extended: false }), server.handleLogin);
+  router.get(JWKS_PATH, (req, res) => {
+    res.json(server.jwks());
+  });
+  router.use('/.well-known/oauth-authorization-server', metadataHandler(metadata));
+  return router;
+}
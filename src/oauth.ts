@@ -0,0 +1,275 @@
+import { constants as cryptoConstants, createPublicKey, JsonWebKey, KeyObject, verify as verifySignature } from 'crypto';
+import express from 'express';
+import { InsufficientScopeError, InvalidTokenError, OAuthError } from '@modelcontextprotocol/sdk/server/auth/errors.js';
+import { metadataHandler } from '@modelcontextprotocol/sdk/server/auth/handlers/metadata.js';
+import { OAuthTokenVerifier } from '@modelcontextprotocol/sdk/server/auth/provider.js';
+import { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { logger } from './logger.js';
+
+// OAuth resource server side: JWT access tokens are verified against the issuer's JWKS (or the
+// built-in authorization server's key, see oauth-server.ts) and turned into a user identity.
+// Only node:crypto is used, for the signature algorithms authorization servers commonly issue.
+
+// Verified user behind an OAuth access token, available to tool handlers
+export interface UserIdentity {
+  sub: string;
+  email: string | null;
+  name: string | null;
+  client_id: string;
+}
+
+export interface JwtHeader {
+  alg: string;
+  kid?: string;
+  typ?: string;
+}
+
+export type JwtClaims = Record<string, unknown> & {
+  iss?: string;
+  sub?: string;
+  aud?: string | string[];
+  exp?: number;
+  nbf?: number;
+  iat?: number;
+};
+
+// Returns the public key for a token header, or null when the key is unknown
+export type KeyResolver = (header: JwtHeader) => Promise<KeyObject | null>;
+
+export interface JwtVerifierOptions {
+  issuer: string;
+  audience: string;
+  // Every one of these must be granted (scope or scp claim)
+  requiredScopes: string[];
+  // Claim holding the tenant id in multi-tenant mode
+  tenantClaim?: string;
+  // Allowed clock skew for exp and nbf
+  clockToleranceSeconds?: number;
+}
+
+interface Algorithm {
+  hash: string | null;
+  keyType: string;
+  options?: { padding?: number; saltLength?: number; dsaEncoding?: 'ieee-p1363' };
+}
+
+// Asymmetric algorithms only: "none" and shared-secret HS* tokens are never accepted
+const ALGORITHMS: Record<string, Algorithm> = {
+  RS256: { hash: 'sha256', keyType: 'rsa' },
+  RS384: { hash: 'sha384', keyType: 'rsa' },
+  RS512: { hash: 'sha512', keyType: 'rsa' },
+  PS256: { hash: 'sha256', keyType: 'rsa', options: { padding: cryptoConstants.RSA_PKCS1_PSS_PADDING, saltLength: 32 } },
+  PS384: { hash: 'sha384', keyType: 'rsa', options: { padding: cryptoConstants.RSA_PKCS1_PSS_PADDING, saltLength: 48 } },
+  PS512: { hash: 'sha512', keyType: 'rsa', options: { padding: cryptoConstants.RSA_PKCS1_PSS_PADDING, saltLength: 64 } },
+  ES256: { hash: 'sha256', keyType: 'ec', options: { dsaEncoding: 'ieee-p1363' } },
+  ES384: { hash: 'sha384', keyType: 'ec', options: { dsaEncoding: 'ieee-p1363' } },
+  ES512: { hash: 'sha512', keyType: 'ec', options: { dsaEncoding: 'ieee-p1363' } },
+  EdDSA: { hash: null, keyType: 'ed25519' }
+};
+
+const DEFAULT_CLOCK_TOLERANCE_SECONDS = 60;
+
+export function looksLikeJwt(token: string): boolean {
+  return /^[\w-]+\.[\w-]+\.[\w-]+$/.test(token);
+}
+
+// Header and payload must be JSON objects; null, arrays and other values are malformed
+function decodeSegment<T>(segment: string): T {
+  let value: unknown;
+  try {
+    value = JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+  } catch {
+    throw new InvalidTokenError('Malformed token');
+  }
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new InvalidTokenError('Malformed token');
+  }
+  return value as T;
+}
+
+function grantedScopes(claims: JwtClaims): string[] {
+  if (typeof claims.scope === 'string') return claims.scope.split(' ').filter(Boolean);
+  if (Array.isArray(claims.scp)) return claims.scp.map(String);
+  return [];
+}
+
+// Verify signature, issuer, audience, lifetime and scopes; returns the claims
+export async function verifyJwt(token: string, resolveKey: KeyResolver, options: JwtVerifierOptions): Promise<JwtClaims> {
+  if (!looksLikeJwt(token)) {
+    throw new InvalidTokenError('Malformed token');
+  }
+  const [encodedHeader, encodedPayload, encodedSignature] = token.split('.');
+  const header = decodeSegment<JwtHeader>(encodedHeader);
+  const algorithm = ALGORITHMS[header.alg];
+  if (!algorithm) {
+    throw new InvalidTokenError(`Unsupported token algorithm: ${header.alg}`);
+  }
+
+  const key = await resolveKey(header);
+  if (!key || key.asymmetricKeyType !== algorithm.keyType) {
+    throw new InvalidTokenError('Unknown signing key');
+  }
+  const signed = Buffer.from(`${encodedHeader}.${encodedPayload}`);
+  const signature = Buffer.from(encodedSignature, 'base64url');
+  if (!verifySignature(algorithm.hash, signed, { key, ...algorithm.options }, signature)) {
+    throw new InvalidTokenError('Invalid token signature');
+  }
+
+  const claims = decodeSegment<JwtClaims>(encodedPayload);
+  const now = Math.floor(Date.now() / 1000);
+  const tolerance = options.clockToleranceSeconds ?? DEFAULT_CLOCK_TOLERANCE_SECONDS;
+
+  if (claims.iss !== options.issuer) {
+    throw new InvalidTokenError('Token issued by an unexpected issuer');
+  }
+  const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+  if (!audiences.includes(options.audience)) {
+    throw new InvalidTokenError('Token not issued for this server');
+  }
+  if (typeof claims.exp !== 'number' || claims.exp + tolerance <= now) {
+    throw new InvalidTokenError('Token has expired');
+  }
+  if (typeof claims.nbf === 'number' && claims.nbf - tolerance > now) {
+    throw new InvalidTokenError('Token is not valid yet');
+  }
+  if (typeof claims.sub !== 'string' || !claims.sub) {
+    throw new InvalidTokenError('Token has no subject');
+  }
+
+  const scopes = grantedScopes(claims);
+  const missing = options.requiredScopes.filter(scope => !scopes.includes(scope));
+  if (missing.length > 0) {
+    throw new InsufficientScopeError(`Missing required scopes: ${missing.join(' ')}`);
+  }
+  return claims;
+}
+
+// AuthInfo as the SDK passes it on to request handlers, with the user identity and tenant in extra
+export function toAuthInfo(token: string, claims: JwtClaims, tenantClaim?: string): AuthInfo {
+  const clientId = String(claims.azp ?? claims.client_id ?? claims.sub);
+  const user: UserIdentity = {
+    sub: claims.sub!,
+    email: typeof claims.email === 'string' ? claims.email : null,
+    name: typeof claims.name === 'string' ? claims.name : null,
+    client_id: clientId
+  };
+  const tenant = tenantClaim ? claims[tenantClaim] : undefined;
+  return {
+    token,
+    clientId,
+    scopes: grantedScopes(claims),
+    expiresAt: claims.exp,
+    extra: { user, tenant: typeof tenant === 'string' ? tenant : null }
+  };
+}
+
+export function userFromAuthInfo(authInfo: AuthInfo | undefined): UserIdentity | null {
+  return (authInfo?.extra?.user as UserIdentity | undefined) || null;
+}
+
+export function tenantFromAuthInfo(authInfo: AuthInfo): string | null {
+  return (authInfo.extra?.tenant as string | null | undefined) || null;
+}
+
+interface JwksResponse {
+  keys?: Array<JsonWebKey & { kid?: string; use?: string }>;
+}
+
+// How long fetched keys are used before the JWKS is fetched again
+const JWKS_CACHE_MS = 10 * 60 * 1000;
+// Tokens signed with an unknown kid trigger a refetch (key rotation), at most this often
+const JWKS_MIN_REFETCH_MS = 30 * 1000;
+
+// Public keys of an issuer, fetched from its JWKS URL and cached
+export class JwksKeyResolver {
+  private keys = new Map<string, KeyObject>();
+  private fetchedAt = 0;
+  private pending: Promise<void> | null = null;
+
+  constructor(private jwksUrl: string) {}
+
+  resolve: KeyResolver = async (header) => {
+    const age = Date.now() - this.fetchedAt;
+    const known = this.find(header);
+    if (known && age < JWKS_CACHE_MS) return known;
+    if (age >= JWKS_MIN_REFETCH_MS) {
+      await this.refresh();
+    }
+    return this.find(header);
+  };
+
+  private find(header: JwtHeader): KeyObject | null {
+    if (header.kid) return this.keys.get(header.kid) || null;
+    // Tokens without kid are accepted only when the issuer publishes a single key
+    return this.keys.size === 1 ? [...this.keys.values()][0] : null;
+  }
+
+  private refresh(): Promise<void> {
+    this.pending ??= this.fetchKeys().finally(() => {
+      this.pending = null;
+    });
+    return this.pending;
+  }
+
+  private async fetchKeys(): Promise<void> {
+    try {
+      const response = await fetch(this.jwksUrl, { signal: AbortSignal.timeout(10000) });
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      const jwks = await response.json() as JwksResponse;
+      const keys = new Map<string, KeyObject>();
+      (jwks.keys || []).forEach((jwk, index) => {
+        if (jwk.use && jwk.use !== 'sig') return;
+        try {
+          keys.set(jwk.kid || `key-${index}`, createPublicKey({ key: jwk, format: 'jwk' }));
+        } catch (error) {
+          logger.warn('Skipping unusable JWKS key', { kid: jwk.kid, error });
+        }
+      });
+      this.keys = keys;
+      logger.info('JWKS loaded', { url: this.jwksUrl, keys: keys.size });
+    } catch (error) {
+      // Keep the previous keys; a temporarily unreachable issuer should not lock everyone out
+      logger.error('Could not fetch JWKS', { url: this.jwksUrl, error });
+    } finally {
+      this.fetchedAt = Date.now();
+    }
+  }
+}
+
+// Token verifier for JWT access tokens of an external authorization server
+export class JwtTokenVerifier implements OAuthTokenVerifier {
+  constructor(private resolveKey: KeyResolver, private options: JwtVerifierOptions) {}
+
+  async verifyAccessToken(token: string): Promise<AuthInfo> {
+    const claims = await verifyJwt(token, this.resolveKey, this.options);
+    return toAuthInfo(token, claims, this.options.tenantClaim);
+  }
+}
+
+export const PROTECTED_RESOURCE_METADATA_PATH = '/.well-known/oauth-protected-resource';
+
+// RFC 9728 protected resource metadata, served at the well-known root and at the
+// path-suffixed location (/.well-known/oauth-protected-resource/mcp) newer clients try first
+export function protectedResourceMetadataRouter(resourceUrl: string, authorizationServer: string, scopes: string[]): express.Router {
+  const handler = metadataHandler({
+    resource: resourceUrl,
+    authorization_servers: [authorizationServer],
+    scopes_supported: scopes.length > 0 ? scopes : undefined,
+    bearer_methods_supported: ['header'],
+    resource_name: 'Fathom MCP Server'
+  });
+  const router = express.Router();
+  router.use(`${PROTECTED_RESOURCE_METADATA_PATH}${new URL(resourceUrl).pathname}`, handler);
+  router.use(PROTECTED_RESOURCE_METADATA_PATH, handler);
+  return router;
+}
+
+// WWW-Authenticate challenge pointing clients at the resource metadata (RFC 6750, RFC 9728)
+export function bearerChallenge(resourceMetadataUrl: string, error?: OAuthError): string {
+  const details = error
+    ? `error="${error.errorCode}", error_description="${error.message.replace(/["\\]/g, '')}", `
+    : '';
+  return `Bearer ${details}resource_metadata="${resourceMetadataUrl}"`;
+}
@@ -0,0 +1,327 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { meetingSearchText, tokenize } from "./search-index.js";
+import { FathomListMeetingsParams, FathomMeeting } from "./types.js";
+
+// Query language for search_meetings.
+//
+//   acme renewal               free-text terms (ranked, any term may match)
+//   "pricing review"           phrase: must appear verbatim (case and accents ignored)
+//   from:jane@corp.com         recorded by (email, or part of the recorder's name)
+//   with:john@acme.com         attended by (email, or part of an attendee's name)
+//   domain:acme.com            at least one attendee from this email domain
+//   team:Sales                 recorder's team (exact, case-insensitive)
+//   after:2024-01-31           created after a date (YYYY-MM-DD, ISO 8601, or relative like 30d)
+//   before:2024-03-01          created before a date
+//   has:action_items           has action items (also: summary, transcript, external)
+//   last:5                     only the 5 most recent matching meetings
+//   a OR b                     either side matches (binds tighter than the implicit AND)
+//   -term, -"phrase", -team:x  negation
+//
+// Values containing spaces can be quoted: with:"John Smith".
+
+export type QueryField = 'from' | 'with' | 'domain' | 'team' | 'after' | 'before' | 'has' | 'last';
+
+export type QueryNode =
+  | { type: 'term'; value: string; negated: boolean }
+  | { type: 'phrase'; value: string; negated: boolean }
+  | { type: 'field'; field: QueryField; value: string; negated: boolean }
+  | { type: 'or'; children: QueryNode[] };
+
+export interface ParsedQuery {
+  // Clauses combined with AND
+  clauses: QueryNode[];
+}
+
+export interface CompiledQuery {
+  // Filters sent to the Fathom API (a superset of the final result)
+  apiParams: Pick<FathomListMeetingsParams, 'calendar_invitees_domains' | 'recorded_by' | 'teams' | 'created_after' | 'created_before'>;
+  // Content the API must return for the client-side predicate to work
+  requires: { summary: boolean; action_items: boolean; transcript: boolean };
+  // Client-side filter applying every clause exactly
+  predicate: (meeting: FathomMeeting) => boolean;
+  // Positive free text used for ranking
+  freeText: string;
+  // last:N, the number of most recent matches to keep (null: no limit)
+  last: number | null;
+}
+
+const FIELDS: QueryField[] = ['from', 'with', 'domain', 'team', 'after', 'before', 'has', 'last'];
+const HAS_VALUES = ['action_items', 'summary', 'transcript', 'external'];
+const MAX_LAST = 100;
+
+// Invalid queries are invalid tool arguments (JSON-RPC -32602), not server errors
+export class QuerySyntaxError extends McpError {
+  constructor(message: string) {
+    super(ErrorCode.InvalidParams, `Invalid search query: ${message}`);
+    this.name = 'QuerySyntaxError';
+  }
+}
+
+interface RawToken {
+  text: string;
+  quoted: boolean;
+  negated: boolean;
+  field?: QueryField;
+}
+
+// Split the query into tokens, keeping quoted strings (and quoted field values) together
+function lex(input: string): RawToken[] {
+  const tokens: RawToken[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    if (/\s/.test(input[i])) {
+      i++;
+      continue;
+    }
+
+    let negated = false;
+    if (input[i] === '-' && i + 1 < input.length && !/\s/.test(input[i + 1])) {
+      negated = true;
+      i++;
+    }
+
+    let field: QueryField | undefined;
+    const fieldMatch = input.slice(i).match(/^([a-z_]+):(?=\S)/i);
+    if (fieldMatch && FIELDS.includes(fieldMatch[1].toLowerCase() as QueryField)) {
+      field = fieldMatch[1].toLowerCase() as QueryField;
+      i += fieldMatch[0].length;
+    }
+
+    if (input[i] === '"') {
+      const end = input.indexOf('"', i + 1);
+      if (end === -1) {
+        throw new QuerySyntaxError('unterminated quote');
+      }
+      tokens.push({ text: input.slice(i + 1, end), quoted: true, negated, field });
+      i = end + 1;
+    } else {
+      let end = i;
+      while (end < input.length && !/\s/.test(input[end])) end++;
+      tokens.push({ text: input.slice(i, end), quoted: false, negated, field });
+      i = end;
+    }
+  }
+
+  return tokens;
+}
+
+function toNode(token: RawToken): QueryNode {
+  if (token.field) {
+    const value = token.text.trim();
+    if (!value) {
+      throw new QuerySyntaxError(`${token.field}: needs a value`);
+    }
+    if (token.field === 'has' && !HAS_VALUES.includes(value.toLowerCase())) {
+      throw new QuerySyntaxError(`unknown has:${value} (expected one of ${HAS_VALUES.join(', ')})`);
+    }
+    if (token.field === 'last' && !(/^\d+$/.test(value) && Number(value) >= 1 && Number(value) <= MAX_LAST)) {
+      throw new QuerySyntaxError(`last:${value} must be a number from 1 to ${MAX_LAST}`);
+    }
+    return { type: 'field', field: token.field, value: token.field === 'team' ? value : value.toLowerCase(), negated: token.negated };
+  }
+  if (token.quoted) {
+    return { type: 'phrase', value: token.text, negated: token.negated };
+  }
+  return { type: 'term', value: token.text, negated: token.negated };
+}
+
+export function parseQuery(input: string): ParsedQuery {
+  const tokens = lex(input || '');
+  const clauses: QueryNode[] = [];
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    const isOr = !token.quoted && !token.field && !token.negated && token.text === 'OR';
+
+    if (isOr) {
+      const previous = clauses.pop();
+      const next = tokens[i + 1];
+      if (!previous || !next || (next.text === 'OR' && !next.quoted)) {
+        throw new QuerySyntaxError('OR needs a term on both sides');
+      }
+      const nextNode = toNode(next);
+      clauses.push(previous.type === 'or'
+        ? { type: 'or', children: [...previous.children, nextNode] }
+        : { type: 'or', children: [previous, nextNode] });
+      i++;
+      continue;
+    }
+
+    clauses.push(toNode(token));
+  }
+
+  let lastCount = 0;
+  clauses.forEach(clause => {
+    const children = clause.type === 'or' ? clause.children : [clause];
+    children.forEach(node => {
+      if (node.type === 'field' && (node.field === 'after' || node.field === 'before' || node.field === 'last')) {
+        if (node.negated || clause.type === 'or') {
+          throw new QuerySyntaxError(`${node.field}: cannot be negated or combined with OR`);
+        }
+        if (node.field === 'last') {
+          lastCount++;
+        } else {
+          parseDate(node.value, node.field);
+        }
+      }
+    });
+  });
+  if (lastCount > 1) {
+    throw new QuerySyntaxError('last: can only be given once');
+  }
+
+  return { clauses };
+}
+
+// Accept YYYY-MM-DD, full ISO 8601 timestamps and relative day counts (30d = 30 days ago).
+// before: with a day includes that whole day (UTC), so the bound is its last millisecond.
+function parseDate(value: string, field: string): string {
+  const relative = value.match(/^(\d+)d$/);
+  if (relative) {
+    return new Date(Date.now() - parseInt(relative[1], 10) * 24 * 60 * 60 * 1000).toISOString();
+  }
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new QuerySyntaxError(`${field}:${value} is not a valid date`);
+  }
+  if (field === 'before' && /^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return new Date(date.getTime() + 24 * 60 * 60 * 1000 - 1).toISOString();
+  }
+  return date.toISOString();
+}
+
+function domainOf(email: string): string | null {
+  const match = email.match(/@([\w.-]+\.[a-z]{2,})$/i);
+  return match ? match[1].toLowerCase() : null;
+}
+
+function normalizePhrase(value: string): string {
+  return tokenize(value).join(' ');
+}
+
+// Evaluate one (non-negated) node against a meeting
+function matchesNode(node: QueryNode, meeting: FathomMeeting, searchText: () => string): boolean {
+  switch (node.type) {
+    case 'or':
+      return node.children.some(child => matchesNode(child, meeting, searchText) !== ('negated' in child && child.negated));
+    case 'term': {
+      const terms = tokenize(node.value);
+      return terms.length === 0 || terms.some(term => searchText().includes(` ${term} `));
+    }
+    case 'phrase': {
+      const phrase = normalizePhrase(node.value);
+      return phrase.length === 0 || searchText().includes(` ${phrase} `);
+    }
+    case 'field':
+      return matchesField(node.field, node.value, meeting);
+  }
+}
+
+function matchesField(field: QueryField, value: string, meeting: FathomMeeting): boolean {
+  const invitees = meeting.calendar_invitees || [];
+
+  switch (field) {
+    case 'from': {
+      const email = meeting.recorded_by?.email?.toLowerCase() || '';
+      return value.includes('@') ? email === value : email.includes(value) || (meeting.recorded_by?.name || '').toLowerCase().includes(value);
+    }
+    case 'with':
+      return invitees.some(invitee => {
+        const email = invitee.email?.toLowerCase() || '';
+        return value.includes('@') ? email === value : email.includes(value) || (invitee.name || '').toLowerCase().includes(value);
+      });
+    case 'domain':
+      return invitees.some(invitee => (invitee.email_domain || domainOf(invitee.email || '') || '').toLowerCase() === value);
+    case 'team':
+      return (meeting.recorded_by?.team || '').toLowerCase() === value.toLowerCase();
+    case 'has':
+      switch (value) {
+        case 'action_items': return (meeting.action_items?.length || 0) > 0;
+        case 'summary': return !!meeting.default_summary?.markdown_formatted;
+        case 'transcript': return (meeting.transcript?.length || 0) > 0;
+        case 'external': return invitees.some(invitee => invitee.is_external);
+      }
+      return false;
+    // Instants, not strings: timestamps may carry fractional seconds or other offsets than Z
+    case 'after':
+      return Date.parse(meeting.created_at) >= Date.parse(parseDate(value, field));
+    case 'before':
+      return Date.parse(meeting.created_at) <= Date.parse(parseDate(value, field));
+    case 'last':
+      // Not a filter: applied to the sorted results by the search
+      return true;
+  }
+}
+
+// API filter a positive field node can be pushed down to, if any
+function apiFilterFor(node: QueryNode): { key: 'calendar_invitees_domains' | 'recorded_by' | 'teams'; value: string } | null {
+  if (node.type !== 'field' || node.negated) return null;
+  if (node.field === 'domain') return { key: 'calendar_invitees_domains', value: node.value };
+  if (node.field === 'with' && domainOf(node.value)) return { key: 'calendar_invitees_domains', value: domainOf(node.value)! };
+  if (node.field === 'from' && node.value.includes('@')) return { key: 'recorded_by', value: node.value };
+  if (node.field === 'team') return { key: 'teams', value: node.value };
+  return null;
+}
+
+export function compileQuery(parsed: ParsedQuery): CompiledQuery {
+  const apiParams: CompiledQuery['apiParams'] = {};
+  const requires = { summary: false, action_items: false, transcript: false };
+  const freeTextParts: string[] = [];
+  let last: number | null = null;
+
+  const addApiFilter = (filter: { key: 'calendar_invitees_domains' | 'recorded_by' | 'teams'; value: string }) => {
+    const values = apiParams[filter.key] || [];
+    if (!values.includes(filter.value)) values.push(filter.value);
+    apiParams[filter.key] = values;
+  };
+
+  for (const clause of parsed.clauses) {
+    const children = clause.type === 'or' ? clause.children : [clause];
+
+    // Push filters down to the API when every alternative of the clause maps to the same API list
+    const filters = children.map(apiFilterFor);
+    if (filters.every(filter => filter !== null) && new Set(filters.map(filter => filter!.key)).size === 1) {
+      filters.forEach(filter => addApiFilter(filter!));
+    }
+
+    for (const node of children) {
+      if (node.type === 'field') {
+        if (node.field === 'after') apiParams.created_after = parseDate(node.value, 'after');
+        if (node.field === 'before') apiParams.created_before = parseDate(node.value, 'before');
+        if (node.field === 'last') last = Number(node.value);
+        if (node.field === 'has' && node.value in requires) {
+          requires[node.value as keyof typeof requires] = true;
+        }
+      }
+      if ((node.type === 'term' || node.type === 'phrase') && !node.negated) {
+        freeTextParts.push(node.value);
+      }
+    }
+  }
+
+  const predicate = (meeting: FathomMeeting): boolean => {
+    let cachedText: string | null = null;
+    const searchText = () => (cachedText ??= meetingSearchText(meeting));
+
+    return parsed.clauses.every(clause => {
+      // Positive bare terms only rank results; everything else filters
+      if (clause.type === 'term' && !clause.negated) return true;
+      if (clause.type === 'or') return matchesNode(clause, meeting, searchText);
+      return matchesNode(clause, meeting, searchText) !== clause.negated;
+    });
+  };
+
+  return { apiParams, requires, predicate, freeText: freeTextParts.join(' '), last };
+}
+
+// Render the parsed query back as text so users can see how it was interpreted
+export function formatQuery(parsed: ParsedQuery): string {
+  const formatNode = (node: QueryNode): string => {
+    if (node.type === 'or') return `(${node.children.map(formatNode).join(' OR ')})`;
+    const prefix = node.negated ? 'NOT ' : '';
+    const value = /\s/.test(node.value) || node.type === 'phrase' ? `"${node.value}"` : node.value;
+    return node.type === 'field' ? `${prefix}${node.field}:${value}` : `${prefix}${value}`;
+  };
+  return parsed.clauses.map(formatNode).join(' AND ');
+}
@@ -0,0 +1,79 @@
+// Token bucket plus concurrency limit for outgoing Fathom API requests.
+// One limiter is shared by every tool call going through the same FathomClient.
+
+export interface RateLimiterOptions {
+  // Sustained request rate (the bucket refills at this rate and holds at most this many tokens)
+  requestsPerMinute: number;
+  // Requests in flight at the same time
+  maxConcurrent: number;
+}
+
+export class RateLimiter {
+  private tokens: number;
+  private lastRefill = Date.now();
+  private active = 0;
+  private queue: Array<() => void> = [];
+  private pausedUntil = 0;
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(private options: RateLimiterOptions) {
+    // A bucket that never refills or admits no request would hold every call forever
+    if (!(options.requestsPerMinute > 0) || !Number.isFinite(options.requestsPerMinute)) {
+      throw new Error(`requestsPerMinute must be a positive number, got ${options.requestsPerMinute}`);
+    }
+    if (!Number.isInteger(options.maxConcurrent) || options.maxConcurrent < 1) {
+      throw new Error(`maxConcurrent must be a positive integer, got ${options.maxConcurrent}`);
+    }
+    this.tokens = options.requestsPerMinute;
+  }
+
+  // Run fn once a token and a concurrency slot are available (FIFO)
+  async schedule<T>(fn: () => Promise<T>): Promise<T> {
+    await new Promise<void>(resolve => {
+      this.queue.push(resolve);
+      this.drain();
+    });
+
+    try {
+      return await fn();
+    } finally {
+      this.active--;
+      this.drain();
+    }
+  }
+
+  // Stop starting requests until the given time (Retry-After, or an exhausted rate-limit window)
+  pauseUntil(timestamp: number): void {
+    if (timestamp > this.pausedUntil) {
+      this.pausedUntil = timestamp;
+      this.tokens = 0;
+    }
+  }
+
+  private refill(now: number): void {
+    const perMs = this.options.requestsPerMinute / 60000;
+    this.tokens = Math.min(this.options.requestsPerMinute, this.tokens + (now - this.lastRefill) * perMs);
+    this.lastRefill = now;
+  }
+
+  private drain(): void {
+    const now = Date.now();
+    this.refill(now);
+
+    while (this.queue.length > 0 && this.active < this.options.maxConcurrent && now >= this.pausedUntil && this.tokens >= 1) {
+      this.tokens--;
+      this.active++;
+      this.queue.shift()!();
+    }
+
+    // Wake up when the next token is due or the pause ends
+    if (this.queue.length > 0 && this.active < this.options.maxConcurrent && !this.timer) {
+      const tokenWait = this.tokens >= 1 ? 0 : Math.ceil((1 - this.tokens) * 60000 / this.options.requestsPerMinute);
+      const wait = Math.max(tokenWait, this.pausedUntil - now, 1);
+      this.timer = setTimeout(() => {
+        this.timer = null;
+        this.drain();
+      }, wait);
+    }
+  }
+}
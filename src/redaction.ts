@@ -0,0 +1,225 @@
+import { z } from 'zod';
+
+// PII redaction applied to tool output before it reaches the connected LLM.
+//
+// Strings anywhere in the payload are scanned for emails, phone numbers, IBANs, card
+// numbers and custom patterns. Attendee names can also be replaced by consistent
+// pseudonyms ("Person A") within one response.
+
+export const redactionSchema = z.object({
+  // off: never redact; optional: redact when a call passes redact: true; enforced: always redact
+  mode: z.enum(['off', 'optional', 'enforced']).default('optional'),
+  emails: z.boolean().default(true),
+  phones: z.boolean().default(true),
+  ibans: z.boolean().default(true),
+  credit_cards: z.boolean().default(true),
+  pseudonymize_names: z.boolean().default(false),
+  custom_patterns: z.array(z.object({
+    name: z.string().min(1),
+    pattern: z.string().min(1).refine(pattern => {
+      try {
+        new RegExp(pattern, 'g');
+        return true;
+      } catch {
+        return false;
+      }
+    }, 'must be a valid regular expression'),
+    replacement: z.string().optional()
+  }).strict()).default([])
+}).strict();
+
+export type RedactionConfig = z.infer<typeof redactionSchema>;
+
+export const DEFAULT_REDACTION: RedactionConfig = redactionSchema.parse({});
+
+export interface RedactionCounts {
+  emails: number;
+  phones: number;
+  ibans: number;
+  credit_cards: number;
+  names: number;
+  custom: Record<string, number>;
+}
+
+const EMAIL_PATTERN = /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi;
+const IBAN_PATTERN = /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){2,7}(?: ?[A-Z0-9]{1,4})?\b/g;
+const CARD_PATTERN = /\b\d(?:[ -]?\d){12,18}\b/g;
+const PHONE_PATTERN = /(?:\+\d{1,3}[\s.-]?)?(?:\(\d{1,4}\)[\s.-]?)?\d{1,4}(?:[\s.-]?\d{2,4}){2,5}/g;
+const DATE_LIKE = /^\d{4}-\d{2}-\d{2}|^\d{1,2}[:]\d{2}|^\d{1,2}[./]\d{1,2}[./]\d{2,4}$/;
+
+// Keys whose values are machine data (timestamps, links), never free text with PII
+const SKIPPED_KEYS = /(_at|_time|timestamp|date|url|_id)$/i;
+
+function luhnValid(digits: string): boolean {
+  let sum = 0;
+  let double = false;
+  for (let i = digits.length - 1; i >= 0; i--) {
+    let digit = parseInt(digits[i], 10);
+    if (double) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+    double = !double;
+  }
+  return sum % 10 === 0;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Person A, Person B, ..., Person Z, Person AA, ...
+function pseudonym(index: number): string {
+  let label = '';
+  let n = index;
+  do {
+    label = String.fromCharCode(65 + (n % 26)) + label;
+    n = Math.floor(n / 26) - 1;
+  } while (n >= 0);
+  return `Person ${label}`;
+}
+
+export class Redactor {
+  private counts: RedactionCounts = { emails: 0, phones: 0, ibans: 0, credit_cards: 0, names: 0, custom: {} };
+  private customPatterns: Array<{ name: string; regex: RegExp; replacement: string }>;
+  private pseudonyms = new Map<string, string>();
+  private namePattern: RegExp | null = null;
+
+  constructor(private config: RedactionConfig) {
+    this.customPatterns = config.custom_patterns.map(custom => ({
+      name: custom.name,
+      regex: new RegExp(custom.pattern, 'g'),
+      replacement: custom.replacement || `[${custom.name}]`
+    }));
+  }
+
+  getCounts(): RedactionCounts {
+    return this.counts;
+  }
+
+  // Return a redacted deep copy of a JSON-compatible payload
+  redact<T>(payload: T): T {
+    if (this.config.pseudonymize_names) {
+      this.collectNames(payload);
+    }
+    return this.walk(payload, null) as T;
+  }
+
+  // People are objects with an email and a name; transcript speakers have a display_name
+  private collectNames(value: unknown): void {
+    if (Array.isArray(value)) {
+      value.forEach(item => this.collectNames(item));
+      return;
+    }
+    if (!value || typeof value !== 'object') return;
+
+    const record = value as Record<string, unknown>;
+    const names = [
+      'email' in record ? record.name : undefined,
+      record.display_name,
+      record.matched_speaker_display_name
+    ];
+    names.forEach(name => {
+      if (typeof name === 'string' && name.trim().length > 1 && !this.pseudonyms.has(name.trim().toLowerCase())) {
+        this.pseudonyms.set(name.trim().toLowerCase(), pseudonym(this.pseudonyms.size));
+      }
+    });
+    Object.values(record).forEach(child => this.collectNames(child));
+
+    if (this.pseudonyms.size > 0) {
+      const alternatives = [...this.pseudonyms.keys()].sort((a, b) => b.length - a.length).map(escapeRegExp);
+      this.namePattern = new RegExp(`(?<![\\p{L}\\p{N}])(?:${alternatives.join('|')})(?![\\p{L}\\p{N}])`, 'giu');
+    }
+  }
+
+  private walk(value: unknown, key: string | null): unknown {
+    if (typeof value === 'string') {
+      return key && SKIPPED_KEYS.test(key) ? value : this.redactString(value);
+    }
+    if (Array.isArray(value)) {
+      return value.map(item => this.walk(item, key));
+    }
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(Object.entries(value).map(([childKey, child]) => [childKey, this.walk(child, childKey)]));
+    }
+    return value;
+  }
+
+  private redactString(text: string): string {
+    let result = text;
+
+    for (const custom of this.customPatterns) {
+      result = result.replace(custom.regex, () => {
+        this.counts.custom[custom.name] = (this.counts.custom[custom.name] || 0) + 1;
+        return custom.replacement;
+      });
+    }
+
+    if (this.config.emails) {
+      result = result.replace(EMAIL_PATTERN, () => {
+        this.counts.emails++;
+        return '[email]';
+      });
+    }
+
+    if (this.config.ibans) {
+      result = result.replace(IBAN_PATTERN, match => {
+        if (!/\d{4}/.test(match.replace(/\s/g, '').slice(4))) return match;
+        this.counts.ibans++;
+        return '[iban]';
+      });
+    }
+
+    if (this.config.credit_cards) {
+      result = result.replace(CARD_PATTERN, match => {
+        const digits = match.replace(/\D/g, '');
+        if (!luhnValid(digits)) return match;
+        this.counts.credit_cards++;
+        return '[card]';
+      });
+    }
+
+    if (this.config.phones) {
+      result = result.replace(PHONE_PATTERN, match => {
+        const digits = match.replace(/\D/g, '');
+        if (digits.length < 8 || digits.length > 15 || DATE_LIKE.test(match)) return match;
+        // Digit runs without separators are recording ids, amounts or order numbers
+        if (/^\d+$/.test(match)) return match;
+        this.counts.phones++;
+        return '[phone]';
+      });
+    }
+
+    if (this.namePattern) {
+      result = result.replace(this.namePattern, match => {
+        this.counts.names++;
+        return this.pseudonyms.get(match.toLowerCase()) || match;
+      });
+    }
+
+    return result;
+  }
+}
+
+// Per-call redaction arguments of the tools (and query parameters of the download routes)
+export interface RedactionArgs {
+  redact?: boolean;
+  pseudonymize_names?: boolean;
+}
+
+// Redact a tool result when the client's configuration enables it, reporting counts in filters_applied
+export function redactResult(config: RedactionConfig, result: unknown, args: RedactionArgs): unknown {
+  const enabled = config.mode === 'enforced' || (config.mode === 'optional' && args.redact === true);
+  if (!enabled || !result || typeof result !== 'object') {
+    return result;
+  }
+
+  const redactor = new Redactor({
+    ...config,
+    pseudonymize_names: config.pseudonymize_names || args.pseudonymize_names === true
+  });
+  const redacted = redactor.redact(result) as Record<string, any>;
+  redacted.filters_applied = { ...(redacted.filters_applied || {}), redactions: redactor.getCounts() };
+  return redacted;
+}
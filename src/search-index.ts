@@ -0,0 +1,197 @@
+import { FathomMeeting } from "./types.js";
+
+// Ranked full-text search over meetings (BM25F: per-field BM25 with field weights)
+
+export type SearchField = 'title' | 'summary' | 'action_items' | 'attendees' | 'transcript';
+
+export interface SearchMatch {
+  field: SearchField;
+  snippet: string;
+  timestamp?: string;
+  speaker?: string;
+}
+
+export interface RankedMeeting<T extends FathomMeeting = FathomMeeting> {
+  meeting: T;
+  score: number;
+  matches: SearchMatch[];
+}
+
+// Title matches count more than summary matches, which count more than transcript matches
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  title: 4,
+  summary: 2,
+  action_items: 1.5,
+  attendees: 1.5,
+  transcript: 1
+};
+
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+const SNIPPET_RADIUS = 60;
+const MAX_SNIPPETS_PER_FIELD = 2;
+const MAX_SNIPPETS = 5;
+
+// Words that carry no meaning in a meeting search (English and French)
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'in', 'is', 'it', 'of', 'on', 'or', 'the', 'to', 'with',
+  'about', 'all', 'my', 'our', 'me', 'last', 'latest', 'recent', 'meeting', 'meetings', 'call', 'calls',
+  'le', 'la', 'les', 'un', 'une', 'des', 'du', 'de', 'et', 'ou', 'avec', 'pour', 'sur', 'en', 'dernier', 'derniers',
+  'reunion', 'reunions', 'appel', 'appels'
+]);
+
+// Lowercase, strip accents and split on anything that is not a letter or digit
+export function tokenize(text: string): string[] {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(token => token.length > 1 && !STOPWORDS.has(token));
+}
+
+interface FieldDocument {
+  tokens: Map<SearchField, string[]>;
+}
+
+function fieldTexts(meeting: FathomMeeting): Record<SearchField, string[]> {
+  return {
+    title: [...new Set([meeting.title, meeting.meeting_title])].filter((text): text is string => !!text),
+    summary: meeting.default_summary?.markdown_formatted ? [meeting.default_summary.markdown_formatted] : [],
+    action_items: (meeting.action_items || []).map(item => item.description).filter(Boolean),
+    attendees: (meeting.calendar_invitees || []).map(attendee => `${attendee.name || ''} ${attendee.email || ''}`.trim()),
+    transcript: (meeting.transcript || []).map(entry => entry.text).filter(Boolean)
+  };
+}
+
+// All searchable text of a meeting as normalized tokens, one " | "-separated segment per
+// text so phrases never match across two fields or two transcript lines
+export function meetingSearchText(meeting: FathomMeeting): string {
+  const texts = fieldTexts(meeting);
+  const segments = (Object.keys(FIELD_WEIGHTS) as SearchField[]).flatMap(field => texts[field].map(text => tokenize(text).join(' ')));
+  return ` ${segments.join(' | ')} `;
+}
+
+function buildDocument(meeting: FathomMeeting): FieldDocument {
+  const texts = fieldTexts(meeting);
+  const tokens = new Map<SearchField, string[]>();
+  (Object.keys(FIELD_WEIGHTS) as SearchField[]).forEach(field => {
+    tokens.set(field, texts[field].flatMap(tokenize));
+  });
+  return { tokens };
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Cut a window of text around the first query term and highlight every term inside it
+function makeSnippet(text: string, pattern: RegExp): string | null {
+  pattern.lastIndex = 0;
+  const match = pattern.exec(text);
+  if (!match) return null;
+
+  const start = Math.max(0, match.index - SNIPPET_RADIUS);
+  const end = Math.min(text.length, match.index + match[0].length + SNIPPET_RADIUS);
+  let snippet = text.slice(start, end).replace(/\s+/g, ' ').trim();
+  snippet = snippet.replace(pattern, term => `**${term}**`);
+
+  return `${start > 0 ? '…' : ''}${snippet}${end < text.length ? '…' : ''}`;
+}
+
+function collectMatches(meeting: FathomMeeting, queryTerms: string[]): SearchMatch[] {
+  // Match query terms at word starts, ignoring case (accents are matched literally in snippets)
+  const pattern = new RegExp(`(?<![\\p{L}\\p{N}])(?:${queryTerms.map(escapeRegExp).join('|')})`, 'giu');
+  const texts = fieldTexts(meeting);
+  const matches: SearchMatch[] = [];
+
+  for (const field of ['title', 'summary', 'action_items', 'attendees'] as SearchField[]) {
+    let fieldCount = 0;
+    for (const text of texts[field]) {
+      if (fieldCount >= MAX_SNIPPETS_PER_FIELD) break;
+      const snippet = makeSnippet(text, pattern);
+      if (snippet) {
+        matches.push({ field, snippet });
+        fieldCount++;
+      }
+    }
+  }
+
+  let transcriptCount = 0;
+  for (const entry of meeting.transcript || []) {
+    if (transcriptCount >= MAX_SNIPPETS_PER_FIELD) break;
+    const snippet = entry.text ? makeSnippet(entry.text, pattern) : null;
+    if (snippet) {
+      matches.push({
+        field: 'transcript',
+        snippet,
+        timestamp: entry.timestamp,
+        speaker: entry.speaker?.display_name
+      });
+      transcriptCount++;
+    }
+  }
+
+  return matches.slice(0, MAX_SNIPPETS);
+}
+
+// Score meetings against a free-text query. Any query term may match (OR); meetings
+// matching no term are dropped and the rest are sorted by descending score.
+// Returns null when the query has no searchable terms (only stopwords or punctuation).
+export function rankMeetings<T extends FathomMeeting>(meetings: T[], query: string): RankedMeeting<T>[] | null {
+  const queryTerms = [...new Set(tokenize(query))];
+  if (queryTerms.length === 0) {
+    return null;
+  }
+
+  const documents = meetings.map(buildDocument);
+  const fields = Object.keys(FIELD_WEIGHTS) as SearchField[];
+
+  // Average field lengths across the candidate set
+  const avgLength = new Map<SearchField, number>();
+  fields.forEach(field => {
+    const total = documents.reduce((sum, doc) => sum + (doc.tokens.get(field)?.length || 0), 0);
+    avgLength.set(field, documents.length > 0 ? total / documents.length || 1 : 1);
+  });
+
+  // Document frequency of each query term (a meeting counts once whatever the field)
+  const docFrequency = new Map<string, number>();
+  queryTerms.forEach(term => {
+    docFrequency.set(term, documents.filter(doc => fields.some(field => doc.tokens.get(field)?.includes(term))).length);
+  });
+
+  const ranked: RankedMeeting<T>[] = [];
+  meetings.forEach((meeting, index) => {
+    const doc = documents[index];
+    let score = 0;
+
+    for (const term of queryTerms) {
+      const df = docFrequency.get(term) || 0;
+      if (df === 0) continue;
+
+      let weightedTf = 0;
+      for (const field of fields) {
+        const tokens = doc.tokens.get(field) || [];
+        const tf = tokens.filter(token => token === term).length;
+        if (tf === 0) continue;
+        const lengthNorm = 1 - BM25_B + BM25_B * (tokens.length / (avgLength.get(field) || 1));
+        weightedTf += FIELD_WEIGHTS[field] * tf / lengthNorm;
+      }
+      if (weightedTf === 0) continue;
+
+      const idf = Math.log(1 + (meetings.length - df + 0.5) / (df + 0.5));
+      score += idf * weightedTf / (BM25_K1 + weightedTf);
+    }
+
+    if (score > 0) {
+      ranked.push({
+        meeting,
+        score: Math.round(score * 1000) / 1000,
+        matches: collectMatches(meeting, queryTerms)
+      });
+    }
+  });
+
+  return ranked.sort((a, b) => b.score - a.score);
+}
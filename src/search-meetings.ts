@@ -0,0 +1,504 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import { FathomClient } from "./fathom-client.js";
+import { logger } from "./logger.js";
+import { CachedFathomClient } from "./meeting-cache.js";
+import { searchPagesFetched } from "./metrics.js";
+import { compileQuery, formatQuery, parseQuery } from "./query-parser.js";
+import { rankMeetings, RankedMeeting } from "./search-index.js";
+import { dateString, defineTool } from "./tool-registry.js";
+import { FathomListMeetingsParams, FathomMeeting } from "./types.js";
+
+export const SEARCH_SORTS = ['relevance', 'newest', 'oldest'] as const;
+export type SearchSort = typeof SEARCH_SORTS[number];
+
+const searchMeetingsInput = z.object({
+  search_term: z.string()
+    .describe("Search query, e.g. 'domain:acme.com has:action_items renewal' or 'with:john@acme.com -\"internal only\"'. Plain words are free text; use qualifiers (from:, with:, domain:, team:, after:, before:, has:) for filters."),
+  sort: z.enum(SEARCH_SORTS).optional()
+    .describe("Result order: relevance (free-text score), newest or oldest first. Default: relevance when the query has free text (without last:), newest otherwise. relevance and oldest order all matches at once, so they need a search covering at most 1000 meetings. Ties are broken by date, then recording_id."),
+  page_size: z.number().int().min(1).max(100).optional()
+    .describe("Maximum number of meetings to return in this page (default: 50, max: 100)"),
+  offset: z.number().int().min(0).default(0)
+    .describe("Number of matching meetings to skip before the page starts"),
+  cursor: z.string().optional()
+    .describe("next_cursor from a previous search_meetings result, to fetch the next page. The cursor carries the original search; other arguments except page_size are ignored."),
+  limit: z.number().int().min(1).max(100).optional()
+    .describe("Alias of page_size, kept for compatibility"),
+  days_back: z.number().int().min(1).max(365).default(180)
+    .describe("Number of days to look back from today (default: 180, max: 365)"),
+  created_after: dateString().optional()
+    .describe("Filter meetings created after this date (ISO 8601 format). Overrides days_back if provided."),
+  created_before: dateString().optional()
+    .describe("Filter meetings created before this date (ISO 8601 format)"),
+  exclude_teams: z.array(z.string()).default([])
+    .describe("Additional teams to exclude from results (exact team names, case-insensitive). The server's access policy is always applied on top."),
+  include_transcript: z.boolean().default(false)
+    .describe("Whether to include full transcripts (WARNING: Can be very large and slow)"),
+  include_summary: z.boolean().default(true)
+    .describe("Whether to include meeting summaries"),
+  include_action_items: z.boolean().default(true)
+    .describe("Whether to include action items"),
+  calendar_invitees: z.array(z.string()).optional()
+    .describe("Filter by attendee email addresses (NOTE: Filtered client-side after Nov 13, 2024 due to API deprecation. For better performance, use calendar_invitees_domains when possible.)"),
+  calendar_invitees_domains: z.array(z.string()).optional()
+    .describe("Filter by company domains"),
+  recorded_by: z.array(z.string()).optional()
+    .describe("Filter by meeting owner email addresses")
+});
+
+export type SearchMeetingsArgs = z.input<typeof searchMeetingsInput>;
+
+const searchMeetingsOutput = z.object({
+  search_term: z.string(),
+  parsed_query: z.object({
+    interpreted_as: z.string(),
+    clauses: z.array(z.unknown()),
+    api_filters: z.object({}),
+    free_text: z.string()
+  }),
+  sort: z.enum(SEARCH_SORTS),
+  total_found: z.number(),
+  showing: z.number(),
+  has_more: z.boolean(),
+  next_cursor: z.string().nullable(),
+  filters_applied: z.object({
+    access_policy_rules: z.array(z.string()),
+    exclude_teams: z.array(z.string()),
+    days_back: z.number(),
+    include_summary: z.boolean(),
+    include_action_items: z.boolean(),
+    include_transcript: z.boolean()
+  }),
+  warning: z.string().optional(),
+  cache: z.object({
+    source: z.enum(['cache', 'live']),
+    last_synced_at: z.string().nullish(),
+    age_seconds: z.number().nullish(),
+    meetings_cached: z.number().optional()
+  }),
+  meetings: z.array(z.object({
+    recording_id: z.number(),
+    title: z.string().nullish(),
+    date: z.string().nullish(),
+    url: z.string().nullish(),
+    attendees: z.array(z.object({})).nullish(),
+    recorded_by: z.object({}).nullish(),
+    summary: z.unknown(),
+    action_items: z.array(z.object({})).nullish(),
+    transcript: z.array(z.object({})).nullish(),
+    score: z.number().optional(),
+    matches: z.array(z.object({})).optional()
+  }))
+});
+
+// Tool definition advertised through tools/list
+export const searchMeetingsTool = defineTool({
+  name: "search_meetings",
+  description: "Search for Fathom meetings with a structured query. Free-text words are ranked across titles, summaries, action items, attendees and transcripts. Qualifiers: from:<recorder email or name>, with:<attendee email or name>, domain:<attendee email domain>, team:<recorder team>, after:<date>, before:<date> (YYYY-MM-DD, ISO 8601 or relative like 30d), has:action_items|summary|transcript|external, last:<N> (only the N most recent matches), \"quoted phrases\", OR between alternatives and -prefix for negation. The parsed query is echoed in the result. SECURITY: Meetings excluded by the server's access policy (by default Executive, Personal, No Team, and private calls) are never returned.",
+  inputSchema: searchMeetingsInput,
+  outputSchema: searchMeetingsOutput,
+  handler: searchMeetings
+});
+
+// What search_meetings' next_cursor encodes (base64url JSON). Results are fetched in windows of
+// up to 1000 meetings (all API pages of the search), so a position is the Fathom cursor a window
+// starts at plus an offset into its sorted matches. last:N searches have a single window.
+interface SearchCursor {
+  v: 1;
+  // Arguments of the original search, with its date range resolved
+  args: Record<string, unknown>;
+  fathom_cursor?: string;
+  offset: number;
+}
+
+// The arguments a cursor carries are validated like tool arguments, since clients can edit them
+const searchCursorSchema = z.object({
+  v: z.literal(1),
+  args: searchMeetingsInput,
+  fathom_cursor: z.string().optional(),
+  offset: z.number().int().min(0)
+});
+
+interface SearchWindow {
+  matches: FathomMeeting[];
+  // Where the next window starts, if Fathom has more pages
+  nextCursor?: string;
+  warning?: string;
+}
+
+function encodeCursor(state: SearchCursor): string {
+  return Buffer.from(JSON.stringify(state)).toString('base64url');
+}
+
+function decodeCursor(cursor: string): z.output<typeof searchCursorSchema> {
+  let state: unknown;
+  try {
+    state = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    state = null;
+  }
+  const result = searchCursorSchema.safeParse(state);
+  if (!result.success) {
+    throw new McpError(ErrorCode.InvalidParams, 'Invalid cursor: pass the next_cursor of a previous search_meetings result unchanged');
+  }
+  return result.data;
+}
+
+function meetingTime(meeting: FathomMeeting): number {
+  return Date.parse(meeting.scheduled_start_time || meeting.created_at) || 0;
+}
+
+// Most meetings fetched for one window; relevance and oldest sorts must fit in one
+const MAX_WINDOW_MEETINGS = 1000;
+
+// Deterministic order: the requested key, then date (newest first), then recording_id
+function sortComparator(sort: SearchSort, rankings: Map<FathomMeeting, RankedMeeting>) {
+  return (a: FathomMeeting, b: FathomMeeting) => {
+    if (sort === 'oldest') {
+      return meetingTime(a) - meetingTime(b) || a.recording_id - b.recording_id;
+    }
+    if (sort === 'relevance') {
+      const byScore = (rankings.get(b)?.score || 0) - (rankings.get(a)?.score || 0);
+      if (byScore) return byScore;
+    }
+    return meetingTime(b) - meetingTime(a) || b.recording_id - a.recording_id;
+  };
+}
+
+// Run a search_meetings call and return the JSON payload sent back to the client
+export async function searchMeetings(fathomClient: FathomClient, args: SearchMeetingsArgs) {
+  // A cursor carries the original search; only page_size may change between pages
+  const cursorState = args.cursor ? decodeCursor(args.cursor) : null;
+  if (cursorState) {
+    args = { ...cursorState.args, ...(args.page_size !== undefined ? { page_size: args.page_size } : {}) };
+  }
+  const pageSize = Math.min(Math.max(Math.floor(args.page_size ?? args.limit ?? 50) || 50, 1), 100);
+  const offset = Math.max(Math.floor(args.offset ?? 0) || 0, 0);
+
+  // NOTE: calendar_invitees API parameter is deprecated by Fathom (disabled after Nov 13, 2024)
+  // We now use client-side filtering for emails and calendar_invitees_domains for API filtering
+  logger.debug('Searching meetings', { search_term: args.search_term, cursor: !!cursorState });
+  
+  // Parse the structured query (from:, with:, domain:, team:, after:, before:, has:, last:, "phrases", OR, -negation)
+  const parsedQuery = parseQuery(args.search_term || '');
+  const compiledQuery = compileQuery(parsedQuery);
+  logger.debug('Parsed query', { query: formatQuery(parsedQuery) });
+
+  // last:N keeps the N most recent matches
+  const requestedLastCount = compiledQuery.last;
+  const isLastRequest = requestedLastCount !== null;
+  const sort: SearchSort = args.sort || (compiledQuery.freeText && !isLastRequest ? 'relevance' : 'newest');
+  
+  // Build API parameters with native filtering
+  // Content needed by has: clauses is fetched even when it is not returned
+  const apiParams: FathomListMeetingsParams = {
+    include_summary: args.include_summary !== false || compiledQuery.requires.summary, // Default to true
+    include_action_items: args.include_action_items !== false || compiledQuery.requires.action_items, // Default to true
+    include_transcript: args.include_transcript || compiledQuery.requires.transcript,
+    include_crm_matches: false, // We don't need CRM data for search
+    limit: 100 // High limit to get comprehensive results
+  };
+
+  // Handle date filtering (explicit arguments win over after:/before: in the query)
+  if (args.created_after) {
+    apiParams.created_after = args.created_after;
+  } else if (compiledQuery.apiParams.created_after) {
+    apiParams.created_after = compiledQuery.apiParams.created_after;
+  } else if (args.days_back) {
+    const daysBack = Math.min(args.days_back, 365); // Cap at 1 year
+    apiParams.created_after = new Date(Date.now() - daysBack * 24 * 60 * 60 * 1000).toISOString();
+    logger.debug('Date filter', { days_back: daysBack });
+  } else {
+    // Default to 180 days
+    apiParams.created_after = new Date(Date.now() - 180 * 24 * 60 * 60 * 1000).toISOString();
+    logger.debug('Date filter', { days_back: 180 });
+  }
+
+  if (args.created_before) {
+    apiParams.created_before = args.created_before;
+  } else if (compiledQuery.apiParams.created_before) {
+    apiParams.created_before = compiledQuery.apiParams.created_before;
+  }
+
+  // Identity filters from the query (domain:, with:, from:, team:) narrow the API request
+  if (compiledQuery.apiParams.calendar_invitees_domains) {
+    apiParams.calendar_invitees_domains = [...compiledQuery.apiParams.calendar_invitees_domains];
+  }
+  if (compiledQuery.apiParams.recorded_by) {
+    apiParams.recorded_by = [...compiledQuery.apiParams.recorded_by];
+  }
+  if (compiledQuery.apiParams.teams) {
+    apiParams.teams = [...compiledQuery.apiParams.teams];
+  }
+
+  // Track emails for client-side filtering (calendar_invitees API param is deprecated)
+  let emailsToFilter: string[] = [];
+  
+  // Helper function to extract domain from email
+  const extractDomain = (email: string): string | null => {
+    const match = email.match(/@([\w.-]+\.[a-z]{2,})/i);
+    return match ? match[1] : null;
+  };
+
+  // Handle explicit calendar_invitees parameter (NOTE: API param deprecated, will filter client-side)
+  
+  if (args.calendar_invitees && args.calendar_invitees.length > 0) {
+    // Filter out invalid entries (names instead of emails)
+    const validEmails = args.calendar_invitees.filter((email: string) => 
+      email.includes('@') && email.includes('.')
+    );
+    const invalidEntries = args.calendar_invitees.filter((email: string) => 
+      !email.includes('@') || !email.includes('.')
+    );
+    
+    if (invalidEntries.length > 0) {
+      logger.debug('Ignoring calendar_invitees that are not emails', { ignored: invalidEntries.length });
+    }
+    
+    if (validEmails.length > 0) {
+      emailsToFilter = [...new Set([...emailsToFilter, ...validEmails])];
+      
+      // Extract domains from emails for API filtering (better performance)
+      const domains = validEmails.map(extractDomain).filter((d: string | null): d is string => d !== null);
+      if (domains.length > 0) {
+        if (!apiParams.calendar_invitees_domains) apiParams.calendar_invitees_domains = [];
+        apiParams.calendar_invitees_domains.push(...domains);
+        logger.debug('Filtering calendar_invitees by domain (API) and email (client-side)', { emails: validEmails.length, domains });
+      } else {
+        logger.debug('Filtering calendar_invitees client-side only', { emails: validEmails.length });
+      }
+    }
+  }
+  
+  // Deduplicate domains
+  if (apiParams.calendar_invitees_domains) {
+    apiParams.calendar_invitees_domains = [...new Set(apiParams.calendar_invitees_domains)];
+  }
+  
+  if (args.calendar_invitees_domains) {
+    if (!apiParams.calendar_invitees_domains) apiParams.calendar_invitees_domains = [];
+    apiParams.calendar_invitees_domains.push(...args.calendar_invitees_domains);
+    apiParams.calendar_invitees_domains = [...new Set(apiParams.calendar_invitees_domains)];
+  }
+  if (args.recorded_by) {
+    apiParams.recorded_by = [...new Set([...(apiParams.recorded_by || []), ...args.recorded_by])];
+  }
+  
+  // Repeated by continuation cursors; the date range is pinned so Fathom cursors stay valid
+  const searchArgs: Record<string, unknown> = {
+    ...args,
+    created_after: apiParams.created_after,
+    ...(apiParams.created_before ? { created_before: apiParams.created_before } : {})
+  };
+  ['cursor', 'offset', 'redact', 'pseudonymize_names'].forEach(key => delete searchArgs[key]);
+
+  logger.debug('Meeting list parameters', { api_params: apiParams, client_side_emails: emailsToFilter.length });
+
+  // Get meetings from API using native filtering
+  // NOTE: calendar_invitees is no longer sent to API (deprecated), will filter client-side instead
+  // A window is all API pages of the search, up to MAX_WINDOW_MEETINGS. Results are filtered, ranked
+  // and sorted one window at a time; Fathom returns newest first, so only newest spans windows.
+  const userExcludeTeams: string[] = (args.exclude_teams || []).map((team: string) => team.toLowerCase());
+  logger.debug('User team exclusions', { exclude_teams: userExcludeTeams });
+
+  // Only the free-text terms and phrases of the query are ranked, not its field filters
+  const freeText = compiledQuery.freeText;
+  const rankings = new Map<FathomMeeting, RankedMeeting>();
+  let pagesFetched = 0;
+
+  const fetchWindow = async (startCursor: string | undefined, firstWindow: boolean, windowSort: SearchSort): Promise<SearchWindow> => {
+    let allMeetings: FathomMeeting[] = [];
+    let cursor = startCursor;
+    let nextCursor: string | undefined;
+    let warning: string | undefined;
+    let totalFetched = 0;
+
+    do {
+      const currentParams = { ...apiParams, cursor };
+      let response;
+      try {
+        response = await fathomClient.listMeetings(currentParams);
+      } catch (error) {
+        // Keep what was fetched so far rather than failing the whole search; the cursor resumes at the failed page
+        if (firstWindow && totalFetched === 0) throw error;
+        const reason = error instanceof Error ? error.message : String(error);
+        warning = `Partial results: stopped after ${totalFetched} meetings because the Fathom API failed (${reason})`;
+        logger.warn('Search pagination stopped early', { fetched: totalFetched, error });
+        nextCursor = cursor;
+        break;
+      }
+      allMeetings = allMeetings.concat(response.items);
+      totalFetched += response.items.length;
+      cursor = nextCursor = response.next_cursor;
+
+      pagesFetched++;
+      logger.debug('Fetched search page', { items: response.items.length, total: totalFetched, has_next_page: !!cursor });
+
+      // Stop at the window limit; the next window picks up from here
+      if (totalFetched >= MAX_WINDOW_MEETINGS) {
+        logger.debug('Reached search window limit', { limit: MAX_WINDOW_MEETINGS });
+        break;
+      }
+    } while (cursor);
+
+    logger.debug('Search window fetched', { meetings: allMeetings.length, has_next_window: !!nextCursor });
+
+    // Apply client-side filtering by email addresses (calendar_invitees API param is deprecated)
+    if (emailsToFilter.length > 0) {
+      const beforeFilterCount = allMeetings.length;
+      const emailsToFilterLower = emailsToFilter.map(e => e.toLowerCase());
+      allMeetings = allMeetings.filter(meeting => {
+        // Check if any attendee email matches
+        return meeting.calendar_invitees?.some(attendee => {
+          const attendeeEmail = attendee.email?.toLowerCase();
+          return attendeeEmail && emailsToFilterLower.includes(attendeeEmail);
+        }) || false;
+      });
+      logger.debug('Client-side email filtering', { before: beforeFilterCount, after: allMeetings.length });
+    }
+
+    // Apply the query clauses exactly (API filters above only narrow the candidate set)
+    if (parsedQuery.clauses.length > 0) {
+      const beforeQueryCount = allMeetings.length;
+      allMeetings = allMeetings.filter(compiledQuery.predicate);
+      logger.debug('Query filtering', { before: beforeQueryCount, after: allMeetings.length });
+    }
+
+    // The access policy was already enforced by FathomClient; exclude_teams adds per-call exclusions
+    const filteredMeetings = allMeetings.filter(meeting => {
+      const isExcluded = userExcludeTeams.includes(meeting.recorded_by?.team?.toLowerCase() || '');
+
+      if (isExcluded) {
+        logger.debug('Excluding meeting by team', { recording_id: meeting.recording_id, team: meeting.recorded_by?.team });
+      }
+
+      return !isExcluded;
+    });
+
+    const excludedCount = allMeetings.length - filteredMeetings.length;
+    logger.debug('Team exclusions applied', { remaining: filteredMeetings.length, excluded: excludedCount });
+
+    // Rank the filtered meetings against the remaining free text (only if we have one)
+    let matches = filteredMeetings;
+    const ranked = freeText ? rankMeetings(filteredMeetings, freeText) : null;
+    if (ranked) {
+      logger.debug('Ranked meetings', { free_text: freeText, matching: ranked.length, candidates: filteredMeetings.length });
+      ranked.forEach(entry => rankings.set(entry.meeting, entry));
+      matches = ranked.map(entry => entry.meeting);
+    } else {
+      logger.debug('No searchable free text, keeping all filtered meetings', { meetings: filteredMeetings.length });
+    }
+
+    matches.sort(sortComparator(windowSort, rankings));
+    logger.debug('Search window matches', { matches: matches.length, candidates: filteredMeetings.length });
+    return { matches, nextCursor, warning };
+  };
+
+  let finalMeetings: FathomMeeting[];
+  let totalFound: number;
+  let hasMore: boolean;
+  let nextCursor: string | null = null;
+  let warning: string | undefined;
+
+  if (requestedLastCount !== null) {
+    // last:N: the N most recent matches, newest windows first, then in the requested order.
+    // Pages are offsets into that set; each page recomputes it from the start of the search.
+    const recent: FathomMeeting[] = [];
+    let window: SearchWindow | undefined;
+    do {
+      window = await fetchWindow(window?.nextCursor, !window, 'newest');
+      recent.push(...window.matches);
+    } while (recent.length < requestedLastCount && window.nextCursor && !window.warning);
+
+    const lastMatches = recent.slice(0, requestedLastCount).sort(sortComparator(sort, rankings));
+    const start = cursorState ? cursorState.offset : offset;
+    finalMeetings = lastMatches.slice(start, start + pageSize);
+    totalFound = lastMatches.length;
+    hasMore = start + finalMeetings.length < lastMatches.length;
+    if (hasMore) {
+      nextCursor = encodeCursor({ v: 1, args: searchArgs, offset: start + finalMeetings.length });
+    }
+    warning = window.warning;
+    logger.debug('Returning last N meetings', { last: requestedLastCount, found: lastMatches.length });
+  } else {
+    // Fill the page from the cursor position, moving on to the next window when one runs out
+    let position = { fathom_cursor: cursorState?.fathom_cursor, offset: cursorState ? cursorState.offset : offset };
+    let window = await fetchWindow(position.fathom_cursor, true, sort);
+    // relevance and oldest order one window; a search with more meetings than that is refused
+    // rather than answered in an order that would not hold across pages
+    if (sort !== 'newest' && window.nextCursor && !window.warning) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `sort=${sort} needs a search covering at most ${MAX_WINDOW_MEETINGS} meetings and this one covers more: narrow the date range or add filters, or use sort=newest`
+      );
+    }
+    const spansWindows = sort === 'newest';
+    finalMeetings = [];
+    totalFound = window.matches.length;
+
+    while (true) {
+      const taken = window.matches.slice(position.offset, position.offset + pageSize - finalMeetings.length);
+      finalMeetings.push(...taken);
+      position.offset += taken.length;
+      if (finalMeetings.length >= pageSize || !spansWindows || !window.nextCursor || window.warning) break;
+
+      position = { fathom_cursor: window.nextCursor, offset: Math.max(0, position.offset - window.matches.length) };
+      window = await fetchWindow(position.fathom_cursor, false, sort);
+      totalFound += window.matches.length;
+    }
+
+    warning = window.warning;
+    hasMore = position.offset < window.matches.length || (spansWindows && !!window.nextCursor);
+    if (hasMore) {
+      // Continue in the next window once this one is used up
+      if (position.offset >= window.matches.length && window.nextCursor) {
+        position = { fathom_cursor: window.nextCursor, offset: position.offset - window.matches.length };
+      }
+      nextCursor = encodeCursor({ v: 1, args: searchArgs, ...position });
+    }
+  }
+
+  searchPagesFetched.observe(pagesFetched);
+  logger.info('Search completed', { pages_fetched: pagesFetched, total_found: totalFound, returned: finalMeetings.length, sort });
+
+  const formattedMeetings = finalMeetings.map(meeting => ({
+    recording_id: meeting.recording_id,
+    title: meeting.title || meeting.meeting_title,
+    date: meeting.scheduled_start_time || meeting.created_at,
+    url: meeting.share_url || meeting.url,
+    attendees: meeting.calendar_invitees,
+    recorded_by: meeting.recorded_by,
+    summary: args.include_summary !== false ? meeting.default_summary : undefined,
+    action_items: args.include_action_items !== false ? meeting.action_items : undefined,
+    transcript: args.include_transcript ? meeting.transcript : undefined,
+    score: rankings.get(meeting)?.score,
+    matches: rankings.get(meeting)?.matches
+  }));
+
+  return {
+    search_term: args.search_term,
+    parsed_query: {
+      interpreted_as: formatQuery(parsedQuery),
+      clauses: parsedQuery.clauses,
+      api_filters: compiledQuery.apiParams,
+      free_text: compiledQuery.freeText
+    },
+    sort,
+    total_found: totalFound,
+    showing: finalMeetings.length,
+    has_more: hasMore,
+    next_cursor: nextCursor,
+    filters_applied: {
+      access_policy_rules: fathomClient.getAccessPolicy().getConfig().rules.map(rule => rule.id),
+      exclude_teams: args.exclude_teams || [],
+      days_back: args.days_back || 180,
+      include_summary: args.include_summary !== false,
+      include_action_items: args.include_action_items !== false,
+      include_transcript: args.include_transcript || false
+    },
+    ...(warning ? { warning } : {}),
+    cache: fathomClient instanceof CachedFathomClient ? fathomClient.getStatus(apiParams) : { source: 'live' as const },
+    meetings: formattedMeetings
+  };
+}
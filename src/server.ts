@@ -0,0 +1,160 @@
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import {
+  CallToolRequestSchema,
+  CompleteRequestSchema,
+  ErrorCode,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ListToolsRequestSchema,
+  McpError,
+  ReadResourceRequestSchema
+} from "@modelcontextprotocol/sdk/types.js";
+import { randomUUID } from "node:crypto";
+import { z } from "zod";
+import { FathomClient } from "./fathom-client.js";
+import { accountTimelineTool } from "./account-timeline.js";
+import { exportActionItemsTool } from "./action-item-export.js";
+import { listActionItemsTool } from "./action-items.js";
+import { followUpReportTool } from "./follow-up-report.js";
+import { getLogContext, logger, withLogContext } from "./logger.js";
+import { completeArgument, getPrompt, listPrompts } from "./meeting-prompts.js";
+import { meetingAnalyticsTool } from "./meeting-analytics.js";
+import { listMeetingResources, listResourceTemplates, readMeetingResource } from "./meeting-resources.js";
+import { meetingStatsTool } from "./meeting-stats.js";
+import { getMeetingTool, getSummaryTool, getTranscriptTool } from "./meeting-tools.js";
+import { toolCallDuration, toolCalls } from "./metrics.js";
+import { userFromAuthInfo } from "./oauth.js";
+import { RedactionArgs, redactResult } from "./redaction.js";
+import { searchMeetingsTool } from "./search-meetings.js";
+import { parseToolArguments, ToolContext, ToolDefinition, toolListEntry } from "./tool-registry.js";
+import { exportTranscriptTool } from "./transcript-export.js";
+
+export const SERVER_NAME = 'mcp-fathom-server';
+export const SERVER_VERSION = '1.0.0';
+
+// Tools exposed by this server, shared by every transport
+const toolDefinitions: ToolDefinition[] = [searchMeetingsTool, getMeetingTool, getTranscriptTool, getSummaryTool, listActionItemsTool, exportActionItemsTool, exportTranscriptTool, meetingAnalyticsTool, meetingStatsTool, accountTimelineTool, followUpReportTool];
+const toolsByName = new Map(toolDefinitions.map(tool => [tool.name, tool]));
+
+// Per-call redaction arguments accepted by every tool
+const redactionArguments = z.object({
+  redact: z.boolean().optional()
+    .describe("Mask emails, phone numbers, IBANs and card numbers in the result (may be enforced by the server regardless of this flag)"),
+  pseudonymize_names: z.boolean().optional()
+    .describe("With redaction, replace attendee and speaker names by consistent pseudonyms (Person A, Person B, ...)")
+});
+
+const tools = toolDefinitions.map(tool => toolListEntry(tool, redactionArguments));
+
+// Dispatch a tools/call request: validate the arguments, run the tool and return its result
+// both as structuredContent and as a JSON text block for clients without outputSchema support
+async function callTool(fathomClient: FathomClient, name: string, rawArgs: unknown, context: ToolContext) {
+  const tool = toolsByName.get(name);
+  if (!tool) {
+    throw new McpError(ErrorCode.InvalidParams, `Unknown tool: ${name}`);
+  }
+
+  const args = parseToolArguments(tool, tool.inputSchema.merge(redactionArguments), rawArgs);
+  const redaction = fathomClient.getAccessPolicy().getRedaction();
+  const output = await tool.handler(fathomClient, args, context);
+  const result = (tool.redactsResult ? output : redactResult(redaction, output, args as RedactionArgs)) as Record<string, unknown>;
+
+  const check = tool.outputSchema.safeParse(result);
+  if (!check.success) {
+    logger.warn('Tool result does not match its output schema', {
+      issues: check.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`)
+    });
+  }
+
+  return {
+    content: [{
+      type: "text" as const,
+      text: JSON.stringify(result, null, 2)
+    }],
+    structuredContent: result
+  };
+}
+
+// Run a tool call with its own log context (stdio calls get a request id here), counted and timed
+async function instrumentedCallTool(fathomClient: FathomClient, name: string, rawArgs: unknown, context: ToolContext) {
+  const requestId = getLogContext().request_id || randomUUID();
+  return withLogContext({ request_id: requestId, tool: name }, async () => {
+    const start = Date.now();
+    const labels = { tool: toolsByName.has(name) ? name : 'unknown' };
+    try {
+      const result = await toolCallDuration.time(labels, () => callTool(fathomClient, name, rawArgs, context));
+      toolCalls.inc({ ...labels, outcome: 'success' });
+      logger.info('Tool call completed', { duration_ms: Date.now() - start });
+      return result;
+    } catch (error) {
+      toolCalls.inc({ ...labels, outcome: 'error' });
+      logger.warn('Tool call failed', { duration_ms: Date.now() - start, error });
+      throw error;
+    }
+  });
+}
+
+export interface ServerOptions {
+  // Tools this server may expose (null or omitted: all tools)
+  allowedTools?: string[] | null;
+}
+
+// Build an SDK MCP server exposing the Fathom tools, meeting resources and prompts (one per stdio process or HTTP session)
+export function createServer(fathomClient: FathomClient, options: ServerOptions = {}): Server {
+  const server = new Server(
+    { name: SERVER_NAME, version: SERVER_VERSION },
+    { capabilities: { tools: {}, resources: { listChanged: true }, prompts: {}, completions: {} } }
+  );
+
+  const isAllowed = (name: string) => !options.allowedTools || options.allowedTools.includes(name);
+
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({
+    tools: tools.filter(tool => isAllowed(tool.name))
+  }));
+
+  // The HTTP transport passes on the verified OAuth token of each request as authInfo
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+    const { name, arguments: args } = request.params;
+    if (!isAllowed(name)) {
+      throw new McpError(ErrorCode.InvalidParams, `Tool not allowed for this access token: ${name}`);
+    }
+    return instrumentedCallTool(fathomClient, name, args, { user: userFromAuthInfo(extra.authInfo) });
+  });
+
+  server.setRequestHandler(ListResourcesRequestSchema, async (request) =>
+    listMeetingResources(fathomClient, isAllowed, request.params?.cursor)
+  );
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+    resourceTemplates: listResourceTemplates(isAllowed)
+  }));
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    const { uri } = request.params;
+    // Resource reads carry no arguments, so only enforced redaction applies
+    const result = redactResult(fathomClient.getAccessPolicy().getRedaction(), await readMeetingResource(fathomClient, isAllowed, uri), {});
+    return {
+      contents: [{
+        uri,
+        mimeType: "application/json",
+        text: JSON.stringify(result, null, 2)
+      }]
+    };
+  });
+
+  server.setRequestHandler(ListPromptsRequestSchema, async () => ({
+    prompts: listPrompts(isAllowed)
+  }));
+
+  server.setRequestHandler(GetPromptRequestSchema, async (request) =>
+    getPrompt(fathomClient, isAllowed, request.params.name, request.params.arguments)
+  );
+
+  server.setRequestHandler(CompleteRequestSchema, async (request) =>
+    completeArgument(fathomClient, isAllowed, request.params.ref, request.params.argument)
+  );
+
+  return server;
+}
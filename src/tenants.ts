@@ -0,0 +1,220 @@
+import { createHash, timingSafeEqual } from 'crypto';
+import { readFileSync, statSync, unwatchFile, watchFile } from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import { AccessPolicy } from './access-policy.js';
+import { FathomClient } from './fathom-client.js';
+import { logger } from './logger.js';
+import { CachedFathomClient } from './meeting-cache.js';
+
+// Registry of bearer tokens, each mapped to a tenant with its own Fathom API key,
+// allowed tools and access policy. Tokens are stored as SHA-256 hashes only.
+
+const tenantSchema = z.object({
+  id: z.string().regex(/^[a-zA-Z0-9_-]+$/, 'may only contain letters, digits, _ and -'),
+  name: z.string().min(1),
+  // hex SHA-256 of the bearer token (generate with: echo -n "$TOKEN" | sha256sum)
+  token_sha256: z.string().regex(/^[a-fA-F0-9]{64}$/, 'must be a hex SHA-256 hash'),
+  fathom_api_key: z.string().min(1).optional(),
+  // name of an environment variable holding the Fathom API key, to keep keys out of the file
+  fathom_api_key_env: z.string().min(1).optional(),
+  // omitted: every tool is allowed
+  allowed_tools: z.array(z.string()).optional(),
+  // access policy file, relative to the registry file; omitted: the server default policy
+  policy_file: z.string().optional(),
+  // name of an environment variable holding the Fathom webhook signing secret (whsec_...)
+  webhook_secret_env: z.string().min(1).optional(),
+  expires_at: z.string().datetime({ offset: true }).optional()
+}).strict().refine(tenant => tenant.fathom_api_key || tenant.fathom_api_key_env, {
+  message: 'fathom_api_key or fathom_api_key_env is required'
+});
+
+const registrySchema = z.object({
+  tenants: z.array(tenantSchema)
+}).strict();
+
+export interface Tenant {
+  id: string;
+  name: string;
+  // null: every tool is allowed
+  allowedTools: string[] | null;
+  expiresAt: Date | null;
+  // secret verifying Fathom webhooks for this tenant (null: webhooks disabled)
+  webhookSecret: string | null;
+  fathomClient: FathomClient;
+}
+
+export type AuthResult =
+  | { ok: true; tenant: Tenant }
+  | { ok: false; reason: 'invalid' | 'expired' };
+
+// Builds the FathomClient for a tenant (tenantId is null in single-tenant mode)
+export type ClientFactory = (apiKey: string, tenantId: string | null, policy: AccessPolicy) => FathomClient;
+
+interface Entry {
+  tokenHash: Buffer;
+  tenant: Tenant;
+  // identifies the client configuration so unchanged tenants keep their client across reloads
+  clientKey: string;
+}
+
+export function hashToken(token: string): Buffer {
+  return createHash('sha256').update(token, 'utf8').digest();
+}
+
+export class TenantRegistry {
+  private entries: Entry[] = [];
+  private filePath: string | null = null;
+  private reloadListeners: Array<() => void> = [];
+
+  constructor(private createClient: ClientFactory, private defaultPolicy: AccessPolicy) {}
+
+  // Single-tenant mode: one static token and API key from the environment
+  static fromStaticToken(
+    token: string,
+    apiKey: string,
+    createClient: ClientFactory,
+    defaultPolicy: AccessPolicy,
+    webhookSecret: string | null = null
+  ): TenantRegistry {
+    const registry = new TenantRegistry(createClient, defaultPolicy);
+    registry.entries = [{
+      tokenHash: hashToken(token),
+      clientKey: 'default',
+      tenant: {
+        id: 'default',
+        name: 'default',
+        allowedTools: null,
+        expiresAt: null,
+        webhookSecret,
+        fathomClient: createClient(apiKey, null, defaultPolicy)
+      }
+    }];
+    return registry;
+  }
+
+  static fromFile(filePath: string, createClient: ClientFactory, defaultPolicy: AccessPolicy): TenantRegistry {
+    const registry = new TenantRegistry(createClient, defaultPolicy);
+    registry.filePath = filePath;
+    registry.reload();
+    return registry;
+  }
+
+  getTenants(): Tenant[] {
+    return this.entries.map(entry => entry.tenant);
+  }
+
+  getTenant(id: string): Tenant | undefined {
+    return this.entries.find(entry => entry.tenant.id === id)?.tenant;
+  }
+
+  // Called after every successful reload
+  onReload(listener: () => void): void {
+    this.reloadListeners.push(listener);
+  }
+
+  // Re-read the registry file. On error the previous tenants stay active.
+  reload(): void {
+    if (!this.filePath) return;
+
+    const raw = JSON.parse(readFileSync(this.filePath, 'utf8'));
+    const result = registrySchema.safeParse(raw);
+    if (!result.success) {
+      const issues = result.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`).join('; ');
+      throw new Error(`Invalid tenant registry ${this.filePath}: ${issues}`);
+    }
+
+    const baseDir = path.dirname(this.filePath);
+    const previous = new Map(this.entries.map(entry => [entry.clientKey, entry.tenant.fathomClient]));
+    const ids = new Set<string>();
+
+    const entries: Entry[] = result.data.tenants.map(config => {
+      if (ids.has(config.id)) {
+        throw new Error(`Invalid tenant registry ${this.filePath}: duplicate tenant id ${config.id}`);
+      }
+      ids.add(config.id);
+
+      const apiKey = config.fathom_api_key || process.env[config.fathom_api_key_env!];
+      if (!apiKey) {
+        throw new Error(`Tenant ${config.id}: environment variable ${config.fathom_api_key_env} is not set`);
+      }
+
+      const webhookSecret = config.webhook_secret_env ? process.env[config.webhook_secret_env] : null;
+      if (webhookSecret === undefined) {
+        throw new Error(`Tenant ${config.id}: environment variable ${config.webhook_secret_env} is not set`);
+      }
+
+      // An edited policy file gets a new client on the next reload, even when its path is unchanged
+      const policyPath = config.policy_file ? path.resolve(baseDir, config.policy_file) : null;
+      const policySource = policyPath ? `${policyPath}\n${statSync(policyPath).mtimeMs}` : 'default';
+      const clientKey = createHash('sha256').update(`${config.id}\n${apiKey}\n${policySource}`).digest('hex');
+      const fathomClient = previous.get(clientKey)
+        || this.createClient(apiKey, config.id, policyPath ? AccessPolicy.load(policyPath) : this.defaultPolicy);
+
+      return {
+        tokenHash: Buffer.from(config.token_sha256, 'hex'),
+        clientKey,
+        tenant: {
+          id: config.id,
+          name: config.name,
+          allowedTools: config.allowed_tools || null,
+          expiresAt: config.expires_at ? new Date(config.expires_at) : null,
+          webhookSecret,
+          fathomClient
+        }
+      };
+    });
+
+    // Stop background work of clients that are no longer used
+    const kept = new Set(entries.map(entry => entry.clientKey));
+    this.entries.forEach(entry => {
+      if (!kept.has(entry.clientKey) && entry.tenant.fathomClient instanceof CachedFathomClient) {
+        entry.tenant.fathomClient.stopBackgroundRefresh();
+      }
+    });
+
+    this.entries = entries;
+    logger.info('Tenant registry loaded', { tenants: entries.length, file: this.filePath });
+    this.reloadListeners.forEach(listener => listener());
+  }
+
+  // Reload when the registry file changes or on SIGHUP
+  watch(): void {
+    if (!this.filePath) return;
+    const filePath = this.filePath;
+
+    const reload = () => {
+      try {
+        this.reload();
+      } catch (error) {
+        logger.error('Tenant registry reload failed, keeping previous tenants', { file: this.filePath, error });
+      }
+    };
+
+    unwatchFile(filePath);
+    watchFile(filePath, { interval: 2000 }, (current, prev) => {
+      if (current.mtimeMs !== prev.mtimeMs) reload();
+    }).unref();
+    process.on('SIGHUP', reload);
+  }
+
+  // Constant-time token lookup: every entry is compared, whatever matches first
+  authenticate(token: string): AuthResult {
+    const presented = hashToken(token);
+    let match: Entry | null = null;
+
+    for (const entry of this.entries) {
+      if (timingSafeEqual(presented, entry.tokenHash) && !match) {
+        match = entry;
+      }
+    }
+
+    if (!match) {
+      return { ok: false, reason: 'invalid' };
+    }
+    if (match.tenant.expiresAt && match.tenant.expiresAt.getTime() <= Date.now()) {
+      return { ok: false, reason: 'expired' };
+    }
+    return { ok: true, tenant: match.tenant };
+  }
+}
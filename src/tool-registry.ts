@@ -0,0 +1,86 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import { zodToJsonSchema } from "zod-to-json-schema";
+import { FathomClient } from "./fathom-client.js";
+import { UserIdentity } from "./oauth.js";
+
+// A tool is declared once: Zod schemas for its arguments and result, its handler and its metadata.
+// tools/list entries are generated from the schemas and tools/call arguments are validated against them.
+
+// Per-call information about the caller
+export interface ToolContext {
+  // User verified from an OAuth access token; null for static bearer tokens and stdio
+  user: UserIdentity | null;
+}
+
+// Whether the caller may use a tool (see ServerOptions.allowedTools); resources and prompts
+// returning the same data as a tool are gated by it too
+export type ToolFilter = (tool: string) => boolean;
+
+export interface ToolDefinition<I extends z.AnyZodObject = z.AnyZodObject, O extends z.AnyZodObject = z.AnyZodObject> {
+  name: string;
+  description: string;
+  inputSchema: I;
+  outputSchema: O;
+  // Receives validated arguments (defaults applied) and returns the structured result
+  handler(fathomClient: FathomClient, args: z.input<I>, context: ToolContext): Promise<z.input<O>>;
+  // The handler redacts its result itself (rendered files are built from redacted data),
+  // so the result is not redacted again
+  redactsResult?: boolean;
+}
+
+export function defineTool<I extends z.AnyZodObject, O extends z.AnyZodObject>(tool: ToolDefinition<I, O>): ToolDefinition<I, O> {
+  return tool;
+}
+
+// Dates are accepted in any format Date.parse understands (ISO 8601 recommended)
+export const dateString = () => z.string().refine(value => !Number.isNaN(Date.parse(value)), { message: 'Expected an ISO 8601 date' });
+
+// Objects in results may carry more fields than declared (Fathom data is passed through)
+function toJsonSchema(schema: z.ZodTypeAny): Record<string, unknown> {
+  const { $schema, ...jsonSchema } = zodToJsonSchema(schema, { $refStrategy: 'none', removeAdditionalStrategy: 'strict' }) as Record<string, unknown>;
+  return jsonSchema;
+}
+
+// tools/list entry; extraInput holds arguments the server accepts for every tool
+export function toolListEntry(tool: ToolDefinition, extraInput: z.AnyZodObject) {
+  return {
+    name: tool.name,
+    description: tool.description,
+    inputSchema: toJsonSchema(tool.inputSchema.merge(extraInput)),
+    outputSchema: toJsonSchema(tool.outputSchema)
+  };
+}
+
+// Validate tools/call arguments; invalid ones are reported field by field as JSON-RPC -32602
+export function parseToolArguments<T extends z.AnyZodObject>(tool: ToolDefinition, schema: T, args: unknown): z.output<T> {
+  const result = schema.safeParse(args ?? {});
+  if (!result.success) {
+    const issues = result.error.issues.map(issue => ({ path: issue.path.join('.') || '(root)', message: issue.message }));
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Invalid arguments for tool ${tool.name}: ${issues.map(issue => `${issue.path}: ${issue.message}`).join('; ')}`,
+      { issues }
+    );
+  }
+  return result.data;
+}
+
+// Result pieces shared by the tools returning Fathom meeting data
+export const meetingHeaderOutput = {
+  recording_id: z.number(),
+  title: z.string().nullish(),
+  date: z.string().nullish(),
+  url: z.string().nullish()
+};
+
+export const summaryOutput = z.object({
+  template_name: z.string().nullish(),
+  markdown_formatted: z.string().nullish()
+});
+
+export const transcriptOutput = z.array(z.object({
+  speaker: z.object({ display_name: z.string().nullish() }),
+  text: z.string(),
+  timestamp: z.string()
+}));
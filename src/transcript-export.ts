@@ -0,0 +1,280 @@
+import { z } from "zod";
+import { FathomClient } from "./fathom-client.js";
+import { logger } from "./logger.js";
+import { parseMeetingReference, requireMeeting } from "./meeting-lookup.js";
+import { meetingReferenceInput } from "./meeting-tools.js";
+import { defineTool, meetingHeaderOutput } from "./tool-registry.js";
+import { FathomMeeting, FathomTranscriptEntry } from "./types.js";
+
+export const TRANSCRIPT_FORMATS = ['srt', 'vtt', 'markdown', 'text'] as const;
+export type TranscriptFormat = typeof TRANSCRIPT_FORMATS[number];
+
+// Duration given to the last cue, which has no next entry to end it
+const LAST_CUE_MIN_SECONDS = 2;
+const LAST_CUE_MAX_SECONDS = 10;
+const SECONDS_PER_WORD = 0.4;
+
+const exportTranscriptInput = meetingReferenceInput.extend({
+  format: z.enum(TRANSCRIPT_FORMATS).default("markdown")
+    .describe("Output format: srt, vtt (WebVTT), markdown or text"),
+  merge_speakers: z.boolean().default(false)
+    .describe("Merge consecutive lines from the same speaker into one cue or paragraph"),
+  speakers: z.array(z.string()).optional()
+    .describe("Only keep lines from these speakers (display names, case-insensitive)"),
+  include_links: z.boolean().default(true)
+    .describe("Markdown only: link each timestamp to the meeting's share URL at that time")
+});
+
+export type ExportTranscriptArgs = z.input<typeof exportTranscriptInput>;
+
+export const exportTranscriptTool = defineTool({
+  name: "export_transcript",
+  description: "Export the transcript of one Fathom meeting as SRT or WebVTT subtitles, speaker-grouped Markdown or compact plain text. Consecutive lines from the same speaker can be merged and the transcript filtered to selected speakers. SECURITY: Meetings excluded by the access policy are never returned.",
+  inputSchema: exportTranscriptInput,
+  outputSchema: z.object({
+    ...meetingHeaderOutput,
+    format: z.enum(TRANSCRIPT_FORMATS),
+    filename: z.string(),
+    filters_applied: z.object({
+      merge_speakers: z.boolean(),
+      speakers: z.array(z.string())
+    }),
+    speakers: z.array(z.object({ display_name: z.string(), lines: z.number() })),
+    content: z.string()
+  }),
+  handler: exportTranscript
+});
+
+export interface TranscriptExportOptions {
+  format: TranscriptFormat;
+  mergeSpeakers: boolean;
+  speakers: string[];
+  includeLinks: boolean;
+}
+
+// A transcript line with explicit start and end times in seconds
+export interface Cue {
+  speaker: string;
+  // matched calendar invitee, when Fathom identified the speaker
+  email?: string;
+  text: string;
+  start: number;
+  end: number;
+}
+
+// Fathom timestamps are HH:MM:SS (MM:SS for short recordings), optionally with fractions
+function parseTimestamp(timestamp: string): number {
+  const parts = (timestamp || '').trim().split(':').map(part => parseFloat(part));
+  if (parts.length === 0 || parts.some(part => Number.isNaN(part))) {
+    return 0;
+  }
+  return parts.reduce((total, part) => total * 60 + part, 0);
+}
+
+function formatClock(seconds: number, separator: ',' | '.'): string {
+  const totalMs = Math.round(seconds * 1000);
+  const hours = Math.floor(totalMs / 3600000);
+  const minutes = Math.floor((totalMs % 3600000) / 60000);
+  const secs = Math.floor((totalMs % 60000) / 1000);
+  const ms = totalMs % 1000;
+  const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${separator}${pad(ms, 3)}`;
+}
+
+function formatTimestamp(seconds: number): string {
+  return formatClock(seconds, '.').slice(0, 8);
+}
+
+// End each cue where the next entry starts; the last one gets a duration estimated from its length
+export function transcriptCues(transcript: FathomTranscriptEntry[]): Cue[] {
+  const cues = transcript.map(entry => ({
+    speaker: entry.speaker?.display_name || 'Unknown speaker',
+    email: entry.speaker?.matched_calendar_invitee_email?.toLowerCase(),
+    text: (entry.text || '').trim(),
+    start: parseTimestamp(entry.timestamp),
+    end: 0
+  }));
+
+  cues.forEach((cue, index) => {
+    const next = cues[index + 1];
+    if (next && next.start > cue.start) {
+      cue.end = next.start;
+    } else {
+      const words = cue.text.split(/\s+/).filter(Boolean).length;
+      cue.end = cue.start + Math.min(Math.max(words * SECONDS_PER_WORD, LAST_CUE_MIN_SECONDS), LAST_CUE_MAX_SECONDS);
+    }
+  });
+
+  return cues;
+}
+
+// Merging happens before speaker filtering, so lines are only merged when nobody spoke in between
+function prepareCues(transcript: FathomTranscriptEntry[], options: TranscriptExportOptions): Cue[] {
+  let cues = transcriptCues(transcript);
+
+  if (options.mergeSpeakers) {
+    cues = cues.reduce<Cue[]>((merged, cue) => {
+      const previous = merged[merged.length - 1];
+      if (previous && previous.speaker === cue.speaker) {
+        previous.text = `${previous.text} ${cue.text}`.trim();
+        previous.end = cue.end;
+      } else {
+        merged.push({ ...cue });
+      }
+      return merged;
+    }, []);
+  }
+
+  if (options.speakers.length > 0) {
+    const wanted = new Set(options.speakers.map(speaker => speaker.trim().toLowerCase()));
+    cues = cues.filter(cue => wanted.has(cue.speaker.toLowerCase()));
+  }
+
+  return cues.filter(cue => cue.text);
+}
+
+function renderSrt(cues: Cue[]): string {
+  return cues.map((cue, index) =>
+    `${index + 1}\n${formatClock(cue.start, ',')} --> ${formatClock(cue.end, ',')}\n${cue.speaker}: ${cue.text}\n`
+  ).join('\n');
+}
+
+function renderVtt(cues: Cue[]): string {
+  const escape = (value: string) => value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+  const body = cues.map(cue =>
+    `${formatClock(cue.start, '.')} --> ${formatClock(cue.end, '.')}\n<v ${escape(cue.speaker)}>${escape(cue.text)}\n`
+  ).join('\n');
+  return `WEBVTT\n\n${body}`;
+}
+
+// Consecutive lines of one speaker form one block, whether or not merge_speakers is set
+function renderMarkdown(cues: Cue[], meeting: FathomMeeting, includeLinks: boolean): string {
+  const title = meeting.title || meeting.meeting_title;
+  const date = meeting.scheduled_start_time || meeting.created_at;
+  const shareUrl = meeting.share_url || meeting.url;
+  const lines = [`# ${title}`, '', `${date}${shareUrl ? ` · [Recording](${shareUrl})` : ''}`];
+
+  let currentSpeaker: string | null = null;
+  for (const cue of cues) {
+    const stamp = formatTimestamp(cue.start);
+    const link = includeLinks && shareUrl
+      ? `[${stamp}](${shareUrl}${shareUrl.includes('?') ? '&' : '?'}timestamp=${Math.floor(cue.start)})`
+      : stamp;
+
+    if (cue.speaker !== currentSpeaker) {
+      lines.push('', `**${cue.speaker}** ${link}`, '');
+      currentSpeaker = cue.speaker;
+    }
+    lines.push(cue.text);
+  }
+
+  return `${lines.join('\n')}\n`;
+}
+
+function renderText(cues: Cue[]): string {
+  return cues.map(cue => `[${formatTimestamp(cue.start)}] ${cue.speaker}: ${cue.text}`).join('\n') + '\n';
+}
+
+export function renderTranscript(meeting: FathomMeeting, transcript: FathomTranscriptEntry[], options: TranscriptExportOptions): string {
+  const cues = prepareCues(transcript, options);
+  switch (options.format) {
+    case 'srt':
+      return renderSrt(cues);
+    case 'vtt':
+      return renderVtt(cues);
+    case 'text':
+      return renderText(cues);
+    default:
+      return renderMarkdown(cues, meeting, options.includeLinks);
+  }
+}
+
+export const TRANSCRIPT_CONTENT_TYPES: Record<TranscriptFormat, string> = {
+  srt: 'application/x-subrip; charset=utf-8',
+  vtt: 'text/vtt; charset=utf-8',
+  markdown: 'text/markdown; charset=utf-8',
+  text: 'text/plain; charset=utf-8'
+};
+
+const FILE_EXTENSIONS: Record<TranscriptFormat, string> = {
+  srt: 'srt',
+  vtt: 'vtt',
+  markdown: 'md',
+  text: 'txt'
+};
+
+// Export options from validated tool arguments
+export function parseExportOptions(args: ExportTranscriptArgs): TranscriptExportOptions {
+  return {
+    format: args.format ?? 'markdown',
+    mergeSpeakers: args.merge_speakers ?? false,
+    speakers: (args.speakers || []).filter(speaker => speaker.trim()),
+    includeLinks: args.include_links ?? true
+  };
+}
+
+// Query parameters of the HTTP download as tool arguments: speakers are comma-separated and
+// numbers and booleans are parsed, then the result is validated like tool arguments
+export function transcriptArgsFromQuery(query: Record<string, unknown>): Record<string, unknown> {
+  const args: Record<string, unknown> = { ...query };
+  if (query.recording_id !== undefined) {
+    args.recording_id = Number(query.recording_id);
+  }
+  if (query.speakers !== undefined) {
+    args.speakers = (Array.isArray(query.speakers) ? query.speakers : String(query.speakers).split(','))
+      .map(speaker => String(speaker).trim())
+      .filter(Boolean);
+  }
+  for (const key of ['merge_speakers', 'include_links']) {
+    // Other values are left as they are, for validation to reject
+    if (query[key] === 'true') args[key] = true;
+    if (query[key] === 'false') args[key] = false;
+  }
+  delete args.redact;
+  delete args.pseudonymize_names;
+  return args;
+}
+
+// Fetch and render a transcript; shared by the tool and the HTTP download route
+export async function buildTranscriptExport(fathomClient: FathomClient, args: ExportTranscriptArgs) {
+  const options = parseExportOptions(args);
+  const ref = parseMeetingReference(args);
+  const meeting = await requireMeeting(fathomClient, ref, { created_after: args.created_after });
+
+  logger.debug('Exporting transcript', { recording_id: meeting.recording_id, format: options.format });
+  const { transcript } = await fathomClient.getRecordingTranscript(meeting);
+  const content = renderTranscript(meeting, transcript || [], options);
+
+  // Speakers of the full transcript, so callers can pick names for the speakers filter
+  const lineCounts = new Map<string, number>();
+  (transcript || []).forEach(entry => {
+    const speaker = entry.speaker?.display_name || 'Unknown speaker';
+    lineCounts.set(speaker, (lineCounts.get(speaker) || 0) + 1);
+  });
+
+  return {
+    meeting,
+    options,
+    filename: `fathom-${meeting.recording_id}.${FILE_EXTENSIONS[options.format]}`,
+    speakers: [...lineCounts.entries()].map(([display_name, lines]) => ({ display_name, lines })),
+    content
+  };
+}
+
+export async function exportTranscript(fathomClient: FathomClient, args: ExportTranscriptArgs) {
+  const { meeting, options, filename, speakers, content } = await buildTranscriptExport(fathomClient, args);
+  return {
+    recording_id: meeting.recording_id,
+    title: meeting.title || meeting.meeting_title,
+    date: meeting.scheduled_start_time || meeting.created_at,
+    url: meeting.share_url || meeting.url,
+    format: options.format,
+    filename,
+    filters_applied: {
+      merge_speakers: options.mergeSpeakers,
+      speakers: options.speakers
+    },
+    speakers,
+    content
+  };
+}
@@ -1,3 +1,17 @@
+export interface FathomTranscriptEntry {
+  speaker: {
+    display_name: string;
+    matched_calendar_invitee_email?: string;
+  };
+  text: string;
+  timestamp: string;
+}
+
+export interface FathomSummary {
+  template_name: string;
+  markdown_formatted: string;
+}
+
 export interface FathomMeeting {
   title: string;
   meeting_title: string;
@@ -11,18 +25,8 @@ export interface FathomMeeting {
   recording_end_time?: string;
   calendar_invitees_domains_type?: string;
   transcript_language?: string;
-  transcript?: Array<{
-    speaker: {
-      display_name: string;
-      matched_calendar_invitee_email?: string;
-    };
-    text: string;
-    timestamp: string;
-  }>;
-  default_summary?: {
-    template_name: string;
-    markdown_formatted: string;
-  };
+  transcript?: FathomTranscriptEntry[];
+  default_summary?: FathomSummary;
   action_items?: Array<{
     description: string;
     user_generated: boolean;
@@ -78,6 +82,8 @@ export interface FathomListMeetingsParams {
   include_crm_matches?: boolean;
   include_summary?: boolean;
   include_transcript?: boolean;
+  // Page size
+  limit?: number;
   meeting_type?: 'all' | 'internal' | 'external';
   recorded_by?: string[];
   teams?: string[];
@@ -87,4 +93,12 @@ export interface FathomListMeetingsResponse {
   items: FathomMeeting[];
   limit: number;
   next_cursor?: string;
-}
\ No newline at end of file
+}
+
+export interface FathomRecordingSummaryResponse {
+  summary: FathomSummary;
+}
+
+export interface FathomRecordingTranscriptResponse {
+  transcript: FathomTranscriptEntry[];
+}
@@ -0,0 +1,213 @@
+import axios from 'axios';
+import { createHmac, timingSafeEqual } from 'crypto';
+import { z } from 'zod';
+import { logger } from './logger.js';
+import { CachedFathomClient } from './meeting-cache.js';
+import { redactResult } from './redaction.js';
+import { Tenant } from './tenants.js';
+import { FathomMeeting } from './types.js';
+
+// Fathom webhook receiver. Fathom signs deliveries following the Standard Webhooks scheme:
+// webhook-signature is "v1,<base64 HMAC-SHA256 of `${webhook-id}.${webhook-timestamp}.${body}`>",
+// possibly several space-separated signatures during secret rotation.
+
+// Deliveries older or further in the future than this are rejected as replays
+export const WEBHOOK_TOLERANCE_SECONDS = 5 * 60;
+const OUTBOUND_TIMEOUT_MS = 10000;
+
+export class WebhookVerificationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WebhookVerificationError';
+  }
+}
+
+export interface WebhookEvent {
+  id: string;
+  timestamp: Date;
+  tenant: Tenant;
+  meeting: FathomMeeting;
+}
+
+// A consumer of verified webhook events
+export interface WebhookHandler {
+  name: string;
+  handle(event: WebhookEvent): Promise<void>;
+}
+
+// The fields every handler relies on; the rest of the meeting is passed through as-is
+const meetingSchema = z.object({
+  recording_id: z.number().int().positive(),
+  created_at: z.string(),
+  title: z.string().optional(),
+  meeting_title: z.string().optional(),
+  calendar_invitees: z.array(z.object({ email: z.string() }).passthrough()).optional(),
+  recorded_by: z.object({ email: z.string() }).passthrough().optional()
+}).passthrough();
+
+// whsec_-prefixed secrets are base64 encoded; anything else is used as raw bytes
+function secretKey(secret: string): Buffer {
+  return secret.startsWith('whsec_') ? Buffer.from(secret.slice('whsec_'.length), 'base64') : Buffer.from(secret, 'utf8');
+}
+
+// Ids of deliveries already accepted within the tolerance window; a delivery whose processing
+// fails is forgotten again, so the sender's retry is accepted
+const seenDeliveries = new Map<string, number>();
+
+function deliveryKey(id: string, timestamp: number): string {
+  return `${id}:${timestamp}`;
+}
+
+function rememberDelivery(key: string, now: number): boolean {
+  for (const [seenKey, seenAt] of seenDeliveries) {
+    if (now - seenAt > WEBHOOK_TOLERANCE_SECONDS * 1000) seenDeliveries.delete(seenKey);
+  }
+  if (seenDeliveries.has(key)) return false;
+  seenDeliveries.set(key, now);
+  return true;
+}
+
+export function signWebhook(secret: string, id: string, timestamp: number, body: string | Buffer): string {
+  const signature = createHmac('sha256', secretKey(secret))
+    .update(`${id}.${timestamp}.`)
+    .update(body)
+    .digest('base64');
+  return `v1,${signature}`;
+}
+
+// Check signature and timestamp of a delivery; throws WebhookVerificationError when either is wrong
+export function verifyWebhook(
+  secret: string,
+  headers: Record<string, string | string[] | undefined>,
+  body: Buffer,
+  now: number = Date.now()
+): { id: string; timestamp: Date } {
+  const header = (name: string) => {
+    const value = headers[name];
+    return Array.isArray(value) ? value[0] : value;
+  };
+  const id = header('webhook-id');
+  const timestampHeader = header('webhook-timestamp');
+  const signatures = header('webhook-signature');
+  if (!id || !timestampHeader || !signatures) {
+    throw new WebhookVerificationError('Missing webhook-id, webhook-timestamp or webhook-signature header');
+  }
+
+  const timestamp = Number(timestampHeader);
+  if (!Number.isInteger(timestamp)) {
+    throw new WebhookVerificationError('Invalid webhook-timestamp header');
+  }
+  if (Math.abs(now / 1000 - timestamp) > WEBHOOK_TOLERANCE_SECONDS) {
+    throw new WebhookVerificationError('Webhook timestamp outside the tolerance window');
+  }
+
+  const expected = Buffer.from(signWebhook(secret, id, timestamp, body).slice(3), 'base64');
+  const valid = signatures.split(' ').some(candidate => {
+    const [version, value] = candidate.split(',');
+    if (version !== 'v1' || !value) return false;
+    const presented = Buffer.from(value, 'base64');
+    return presented.length === expected.length && timingSafeEqual(presented, expected);
+  });
+  if (!valid) {
+    throw new WebhookVerificationError('Invalid webhook signature');
+  }
+
+  if (!rememberDelivery(deliveryKey(id, timestamp), now)) {
+    throw new WebhookVerificationError('Webhook delivery already received');
+  }
+
+  return { id, timestamp: new Date(timestamp * 1000) };
+}
+
+// Accept a retry of this delivery, after its payload or handlers failed
+export function forgetWebhookDelivery(delivery: { id: string; timestamp: Date }): void {
+  seenDeliveries.delete(deliveryKey(delivery.id, delivery.timestamp.getTime() / 1000));
+}
+
+// The payload is the meeting itself, as returned by /meetings (some senders wrap it in data)
+export function parseWebhookMeeting(body: Buffer): FathomMeeting {
+  let payload: unknown;
+  try {
+    payload = JSON.parse(body.toString('utf8'));
+  } catch {
+    throw new Error('Webhook body is not valid JSON');
+  }
+
+  const envelope = typeof payload === 'object' && payload !== null ? payload as Record<string, unknown> : null;
+  const result = meetingSchema.safeParse(envelope && envelope.recording_id === undefined && envelope.data ? envelope.data : payload);
+  if (!result.success) {
+    const issues = result.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`).join('; ');
+    throw new Error(`Invalid webhook payload: ${issues}`);
+  }
+  return result.data as unknown as FathomMeeting;
+}
+
+// Store new meetings in the tenant's meeting cache so searches see them before the next sync
+export function createLocalStoreHandler(): WebhookHandler {
+  return {
+    name: 'local-store',
+    async handle(event) {
+      if (event.tenant.fathomClient instanceof CachedFathomClient) {
+        await event.tenant.fathomClient.storeMeeting(event.meeting);
+      }
+    }
+  };
+}
+
+// Forward meetings allowed by the tenant's access policy to another service as JSON, with the
+// tenant's enforced redaction applied, signed with the same scheme when a secret is configured
+export function createOutboundWebhookHandler(url: string, secret: string | null): WebhookHandler {
+  return {
+    name: 'outbound-webhook',
+    async handle(event) {
+      if (!event.tenant.fathomClient.getAccessPolicy().isAllowed(event.meeting)) {
+        logger.info('Webhook meeting denied by access policy, not forwarded', { webhook_id: event.id, recording_id: event.meeting.recording_id });
+        return;
+      }
+
+      // Nobody asks for optional redaction here, so only enforced redaction applies
+      const { meeting } = redactResult(event.tenant.fathomClient.getAccessPolicy().getRedaction(), { meeting: event.meeting }, {}) as { meeting: FathomMeeting };
+      const body = JSON.stringify({
+        type: 'meeting.created',
+        id: event.id,
+        tenant: event.tenant.id,
+        meeting
+      });
+      const timestamp = Math.floor(Date.now() / 1000);
+      await axios.post(url, body, {
+        timeout: OUTBOUND_TIMEOUT_MS,
+        headers: {
+          'Content-Type': 'application/json',
+          'webhook-id': event.id,
+          'webhook-timestamp': String(timestamp),
+          ...(secret ? { 'webhook-signature': signWebhook(secret, event.id, timestamp, body) } : {})
+        }
+      });
+    }
+  };
+}
+
+// Tell the tenant's connected MCP sessions that the resource list changed
+export function createListChangedHandler(notify: (tenantId: string) => Promise<void>): WebhookHandler {
+  return {
+    name: 'resources-list-changed',
+    async handle(event) {
+      if (event.tenant.fathomClient.getAccessPolicy().isAllowed(event.meeting)) {
+        await notify(event.tenant.id);
+      }
+    }
+  };
+}
+
+// Run every handler; one failing handler does not stop the others. Returns the names of the failed handlers.
+export async function dispatchWebhookEvent(handlers: WebhookHandler[], event: WebhookEvent): Promise<string[]> {
+  const results = await Promise.allSettled(handlers.map(handler => handler.handle(event)));
+  const failed: string[] = [];
+  results.forEach((result, index) => {
+    if (result.status === 'rejected') {
+      logger.error('Webhook handler failed', { webhook_id: event.id, handler: handlers[index].name, error: result.reason });
+      failed.push(handlers[index].name);
+    }
+  });
+  return failed;
+}
@@ -0,0 +1,46 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import { AccessPolicy, DEFAULT_POLICY } from "../src/access-policy.js";
+import { exportActionItems } from "../src/action-item-export.js";
+import { FathomClient } from "../src/fathom-client.js";
+import { redactionSchema } from "../src/redaction.js";
+import { MockFathom, mockFathomClient, startMockFathom } from "./helpers.js";
+
+describe('export_action_items with enforced redaction', () => {
+  let mock: MockFathom;
+  let fathomClient: FathomClient;
+  let assigneeNames: string[];
+
+  before(async () => {
+    mock = await startMockFathom();
+    assigneeNames = (await exportActionItems(mockFathomClient(mock), { format: 'csv' })).assignees
+      .map(assignee => assignee.name)
+      .filter((name): name is string => !!name);
+    fathomClient = mockFathomClient(mock, new AccessPolicy({
+      ...DEFAULT_POLICY,
+      redaction: redactionSchema.parse({ mode: 'enforced', pseudonymize_names: true })
+    }));
+  });
+
+  after(() => mock.close());
+
+  for (const format of ['ics', 'csv', 'markdown'] as const) {
+    it(`leaves no assignee name or email in ${format} files`, async () => {
+      const result = await exportActionItems(fathomClient, { format });
+      // Unfold iCalendar continuation lines, so names split across a fold are found too
+      const content = result.content.replace(/\r\n /g, '');
+      assert.ok(assigneeNames.length > 1);
+      assigneeNames.forEach(name => assert.ok(!content.includes(name), `${name} in ${format} export`));
+      assert.doesNotMatch(content, /[\w.+-]+@[\w-]+\.[\w.]+/);
+      assert.match(content, /Person A/);
+      assert.ok((result.filters_applied as Record<string, unknown>).redactions);
+    });
+  }
+
+  it('keeps one Markdown section per assignee', async () => {
+    const result = await exportActionItems(fathomClient, { format: 'markdown' });
+    const sections = result.content.split('\n').filter(line => line.startsWith('## '));
+    assert.equal(sections.length, result.assignees.length);
+    assert.equal(new Set(sections).size, sections.length);
+  });
+});
@@ -0,0 +1,114 @@
+import assert from "node:assert/strict";
+import { once } from "node:events";
+import { AddressInfo, Server } from "node:net";
+import { after, afterEach, before, beforeEach, describe, it, mock } from "node:test";
+import express from "express";
+import { FathomClient } from "../src/fathom-client.js";
+import { FathomNotFoundError, FathomRateLimitError, FathomUpstreamError } from "../src/fathom-errors.js";
+// Sets the test log level
+import "./helpers.js";
+
+interface StubResponse {
+  status: number;
+  headers?: Record<string, string>;
+}
+
+describe('FathomClient retries', () => {
+  let server: Server;
+  let baseUrl: string;
+  // Responses for the next requests, in order; an empty list answers 200
+  let responses: StubResponse[] = [];
+  let requestTimes: number[] = [];
+
+  before(async () => {
+    const app = express();
+    app.get('/meetings', (req, res) => {
+      requestTimes.push(Date.now());
+      const { status, headers = {} } = responses.shift() || { status: 200 };
+      res.status(status).set(headers).json(status === 200 ? { items: [], next_cursor: null } : { error: 'stub' });
+    });
+    server = app.listen(0, '127.0.0.1');
+    await once(server, 'listening');
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(() => new Promise(resolve => server.close(resolve)));
+
+  beforeEach(() => {
+    responses = [];
+    requestTimes = [];
+  });
+
+  afterEach(() => mock.restoreAll());
+
+  const client = (maxRetries = 4) => new FathomClient('test-api-key', { baseUrl, maxRetries });
+  const waits = () => requestTimes.slice(1).map((time, index) => time - requestTimes[index]);
+
+  it('retries 5xx and 429 responses until one succeeds', async () => {
+    mock.method(Math, 'random', () => 0);
+    responses = [{ status: 503 }, { status: 429 }, { status: 500 }];
+    assert.deepEqual((await client().listMeetingsUnfiltered()).items, []);
+    assert.equal(requestTimes.length, 4);
+  });
+
+  it('backs off exponentially with jitter', async () => {
+    // A jitter factor of 0.2 waits 100ms, 200ms and 400ms after the first three attempts
+    mock.method(Math, 'random', () => 0.2);
+    responses = [{ status: 503 }, { status: 503 }, { status: 503 }];
+    await client().listMeetingsUnfiltered();
+    const [first, second, third] = waits();
+    assert.ok(first >= 95, `first wait ${first}ms`);
+    assert.ok(second >= 195 && second > first, `second wait ${second}ms`);
+    assert.ok(third >= 395 && third > second, `third wait ${third}ms`);
+  });
+
+  it('gives up after maxRetries with a typed error', async () => {
+    mock.method(Math, 'random', () => 0);
+    responses = [{ status: 502 }, { status: 502 }, { status: 502 }];
+    await assert.rejects(client(2).listMeetingsUnfiltered(), (error: unknown) => {
+      assert.ok(error instanceof FathomUpstreamError);
+      assert.equal(error.status, 502);
+      return true;
+    });
+    assert.equal(requestTimes.length, 3);
+  });
+
+  it('does not retry other client errors', async () => {
+    responses = [{ status: 404 }];
+    await assert.rejects(client().listMeetingsUnfiltered(), FathomNotFoundError);
+    assert.equal(requestTimes.length, 1);
+  });
+
+  it('waits for Retry-After in seconds instead of the backoff', async () => {
+    mock.method(Math, 'random', () => 0);
+    responses = [{ status: 429, headers: { 'Retry-After': '1' } }];
+    await client().listMeetingsUnfiltered();
+    assert.ok(waits()[0] >= 990, `waited ${waits()[0]}ms`);
+  });
+
+  it('reads Retry-After as an HTTP date', async () => {
+    mock.method(Math, 'random', () => 0);
+    // HTTP dates have whole seconds, so this lies between one and two seconds ahead
+    responses = [{ status: 503, headers: { 'Retry-After': new Date(Date.now() + 2000).toUTCString() } }];
+    await client().listMeetingsUnfiltered();
+    assert.ok(waits()[0] >= 900, `waited ${waits()[0]}ms`);
+  });
+
+  it('fails at once when Retry-After is too long to wait for', async () => {
+    responses = [{ status: 429, headers: { 'Retry-After': '120' } }];
+    await assert.rejects(client().listMeetingsUnfiltered(), (error: unknown) => {
+      assert.ok(error instanceof FathomRateLimitError);
+      assert.equal(error.retryAfterSeconds, 120);
+      return true;
+    });
+    assert.equal(requestTimes.length, 1);
+  });
+
+  it('pauses the next request when the rate-limit window is used up', async () => {
+    responses = [{ status: 200, headers: { 'RateLimit-Remaining': '0', 'RateLimit-Reset': '1' } }];
+    const fathomClient = client();
+    await fathomClient.listMeetingsUnfiltered();
+    await fathomClient.listMeetingsUnfiltered();
+    assert.ok(waits()[0] >= 990, `waited ${waits()[0]}ms`);
+  });
+});
@@ -0,0 +1,51 @@
+import { once } from "node:events";
+import { AddressInfo } from "node:net";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { AccessPolicy } from "../src/access-policy.js";
+import { FathomClient } from "../src/fathom-client.js";
+import { setLogLevel } from "../src/logger.js";
+import { BUNDLED_FIXTURES_DIR, createMockFathomApp, MockFathomOptions } from "../src/mock-fathom-server.js";
+import { createServer, ServerOptions } from "../src/server.js";
+
+// Shared setup for the regression tests: the mock Fathom API on a free port, serving the
+// bundled fixtures with dates shifted to today, and MCP clients connected in memory.
+
+setLogLevel(process.env.LOG_LEVEL || 'error');
+
+export const MOCK_API_KEY = 'test-api-key';
+
+export interface MockFathom {
+  baseUrl: string;
+  close(): Promise<void>;
+}
+
+export async function startMockFathom(options: Partial<MockFathomOptions> = {}): Promise<MockFathom> {
+  const app = await createMockFathomApp({
+    fixturesDir: BUNDLED_FIXTURES_DIR,
+    apiKey: MOCK_API_KEY,
+    rebaseDates: true,
+    ...options
+  });
+  const server = app.listen(0, '127.0.0.1');
+  await once(server, 'listening');
+  return {
+    baseUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    close: () => new Promise<void>(resolve => server.close(() => resolve()))
+  };
+}
+
+// Client with the default access policy (Executive, Personal, No Team and private calls excluded)
+export function mockFathomClient(mock: MockFathom, policy: AccessPolicy = AccessPolicy.load()): FathomClient {
+  const client = new FathomClient(MOCK_API_KEY, { baseUrl: mock.baseUrl, maxRetries: 0 });
+  client.setAccessPolicy(policy);
+  return client;
+}
+
+export async function connectMcpClient(fathomClient: FathomClient, options: ServerOptions = {}): Promise<Client> {
+  const [serverTransport, clientTransport] = InMemoryTransport.createLinkedPair();
+  await createServer(fathomClient, options).connect(serverTransport);
+  const client = new Client({ name: 'mcp-fathom-server-tests', version: '1.0.0' });
+  await client.connect(clientTransport);
+  return client;
+}
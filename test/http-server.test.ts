@@ -0,0 +1,186 @@
+import assert from "node:assert/strict";
+import { ChildProcess, spawn } from "node:child_process";
+import { createHash } from "node:crypto";
+import { once } from "node:events";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { createServer as createNetServer, AddressInfo } from "node:net";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { after, before, describe, it } from "node:test";
+import { signWebhook } from "../src/webhooks.js";
+import { MOCK_API_KEY, MockFathom, startMockFathom } from "./helpers.js";
+
+// The HTTP server (src/index.ts) in multi-tenant mode, as a child process against the mock Fathom API
+
+const TOKENS = { full: 'full-access-token', limited: 'limited-access-token', admin: 'admin-token' };
+const WEBHOOK_SECRET = 'full-webhook-secret';
+
+async function freePort(): Promise<number> {
+  const server = createNetServer().listen(0, '127.0.0.1');
+  await once(server, 'listening');
+  const { port } = server.address() as AddressInfo;
+  await new Promise(resolve => server.close(resolve));
+  return port;
+}
+
+// Streamable HTTP answers with a JSON body or a single-event SSE stream
+async function rpcBody(response: Response): Promise<any> {
+  const text = await response.text();
+  const data = text.split('\n').find(line => line.startsWith('data: '));
+  return JSON.parse(data ? data.slice(6) : text);
+}
+
+describe('HTTP server in multi-tenant mode', () => {
+  let mock: MockFathom;
+  let server: ChildProcess;
+  let baseUrl: string;
+  let dir: string;
+  let requestId = 0;
+
+  const mcp = (token: string, body: unknown, sessionId?: string) => fetch(`${baseUrl}/mcp`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${token}`,
+      'Content-Type': 'application/json',
+      'Accept': 'application/json, text/event-stream',
+      ...(sessionId ? { 'Mcp-Session-Id': sessionId, 'Mcp-Protocol-Version': '2025-06-18' } : {})
+    },
+    body: JSON.stringify(body)
+  });
+
+  const call = (method: string, params?: unknown) => ({ jsonrpc: '2.0', id: ++requestId, method, params });
+
+  const openSession = async (token: string): Promise<string> => {
+    const response = await mcp(token, call('initialize', {
+      protocolVersion: '2025-06-18',
+      capabilities: {},
+      clientInfo: { name: 'mcp-fathom-server-tests', version: '1.0.0' }
+    }));
+    assert.equal(response.status, 200);
+    await response.body?.cancel();
+    const sessionId = response.headers.get('mcp-session-id')!;
+    const initialized = await mcp(token, { jsonrpc: '2.0', method: 'notifications/initialized' }, sessionId);
+    assert.equal(initialized.status, 202);
+    return sessionId;
+  };
+
+  before(async () => {
+    mock = await startMockFathom();
+    dir = mkdtempSync(path.join(tmpdir(), 'mcp-fathom-test-'));
+    const sha256 = (token: string) => createHash('sha256').update(token).digest('hex');
+    writeFileSync(path.join(dir, 'tenants.json'), JSON.stringify({
+      tenants: [
+        { id: 'full', name: 'Full access', token_sha256: sha256(TOKENS.full), fathom_api_key: MOCK_API_KEY, webhook_secret_env: 'TEST_WEBHOOK_SECRET' },
+        { id: 'limited', name: 'Search only', token_sha256: sha256(TOKENS.limited), fathom_api_key: MOCK_API_KEY, allowed_tools: ['search_meetings'] }
+      ]
+    }));
+
+    const port = await freePort();
+    baseUrl = `http://127.0.0.1:${port}`;
+    server = spawn(process.execPath, ['--import', 'tsx', 'src/index.ts'], {
+      env: {
+        ...process.env,
+        PORT: String(port),
+        MCP_TENANTS_FILE: path.join(dir, 'tenants.json'),
+        FATHOM_API_BASE_URL: mock.baseUrl,
+        FATHOM_API_KEY: '',
+        MCP_BEARER_TOKEN: '',
+        MCP_ADMIN_TOKEN: TOKENS.admin,
+        TEST_WEBHOOK_SECRET: WEBHOOK_SECRET,
+        FATHOM_DATA_DIR: '',
+        LOG_LEVEL: 'error'
+      },
+      stdio: ['ignore', 'ignore', 'inherit']
+    });
+
+    const deadline = Date.now() + 30000;
+    while (true) {
+      try {
+        if ((await fetch(`${baseUrl}/health`)).ok) break;
+      } catch {
+        // not listening yet
+      }
+      if (Date.now() > deadline) throw new Error('HTTP server did not start');
+      await new Promise(resolve => setTimeout(resolve, 200));
+    }
+  });
+
+  after(async () => {
+    if (server.exitCode === null) {
+      server.kill();
+      await once(server, 'exit');
+    }
+    await mock.close();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('requires a known bearer token', async () => {
+    assert.equal((await mcp('', call('tools/list'))).status, 401);
+    assert.equal((await mcp('unknown-token', call('tools/list'))).status, 403);
+  });
+
+  it('filters tools by the tenant allowed_tools', async () => {
+    const sessionId = await openSession(TOKENS.limited);
+    const list = await rpcBody(await mcp(TOKENS.limited, call('tools/list'), sessionId));
+    assert.deepEqual(list.result.tools.map((tool: { name: string }) => tool.name), ['search_meetings']);
+
+    const denied = await rpcBody(await mcp(TOKENS.limited, call('tools/call', { name: 'get_meeting', arguments: { recording_id: 9001 } }), sessionId));
+    assert.equal(denied.error.code, -32602);
+  });
+
+  it('keeps sessions to the token that opened them', async () => {
+    const sessionId = await openSession(TOKENS.full);
+    const response = await mcp(TOKENS.limited, call('tools/list'), sessionId);
+    assert.equal(response.status, 403);
+    await response.body?.cancel();
+  });
+
+  it('applies the access policy to search results', async () => {
+    const sessionId = await openSession(TOKENS.full);
+    const search = await rpcBody(await mcp(TOKENS.full, call('tools/call', { name: 'search_meetings', arguments: { search_term: '', page_size: 100 } }), sessionId));
+    const ids = search.result.structuredContent.meetings.map((meeting: { recording_id: number }) => meeting.recording_id);
+    assert.ok(ids.length > 0);
+    assert.ok(!ids.includes(9004) && !ids.includes(9008));
+
+  });
+
+  it('audits policy decisions with the admin token only', async () => {
+    const tenantCheck = await fetch(`${baseUrl}/policy/check/full/9004`, { headers: { Authorization: `Bearer ${TOKENS.full}` } });
+    assert.equal(tenantCheck.status, 401);
+    await tenantCheck.body?.cancel();
+
+    const headers = { Authorization: `Bearer ${TOKENS.admin}` };
+    const denied = await (await fetch(`${baseUrl}/policy/check/full/9004`, { headers })).json() as { allowed: boolean; evaluated: Record<string, unknown> };
+    assert.equal(denied.allowed, false);
+    assert.ok(!('title' in denied.evaluated) && !('recorder_email' in denied.evaluated));
+    const allowed = await (await fetch(`${baseUrl}/policy/check/full/9001`, { headers })).json() as { allowed: boolean; evaluated: Record<string, unknown> };
+    assert.equal(allowed.allowed, true);
+    assert.ok(allowed.evaluated.title);
+  });
+
+  it('validates transcript download parameters', async () => {
+    const headers = { Authorization: `Bearer ${TOKENS.full}` };
+    assert.equal((await fetch(`${baseUrl}/transcripts/9001?format=xml`, { headers })).status, 400);
+    assert.equal((await fetch(`${baseUrl}/transcripts/9004`, { headers })).status, 404);
+    const download = await fetch(`${baseUrl}/transcripts/9001?format=vtt`, { headers });
+    assert.equal(download.status, 200);
+    assert.match(await download.text(), /^WEBVTT/);
+  });
+
+  it('receives signed Fathom webhooks once', async () => {
+    const body = JSON.stringify({ recording_id: 9101, created_at: new Date().toISOString(), title: 'Webhook meeting' });
+    const timestamp = Math.floor(Date.now() / 1000);
+    const headers = {
+      'Content-Type': 'application/json',
+      'webhook-id': 'msg_http_test',
+      'webhook-timestamp': String(timestamp),
+      'webhook-signature': signWebhook(WEBHOOK_SECRET, 'msg_http_test', timestamp, body)
+    };
+    const post = (url: string, payload: string) => fetch(`${baseUrl}${url}`, { method: 'POST', headers, body: payload });
+
+    assert.equal((await post('/webhooks/fathom/full', body.replace('Webhook', 'Changed'))).status, 401);
+    assert.equal((await post('/webhooks/fathom/limited', body)).status, 404);
+    assert.equal((await post('/webhooks/fathom/full', body)).status, 202);
+    assert.equal((await post('/webhooks/fathom/full', body)).status, 401);
+  });
+});
@@ -0,0 +1,59 @@
+import assert from "node:assert/strict";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { after, before, beforeEach, describe, it } from "node:test";
+import { CachedFathomClient } from "../src/meeting-cache.js";
+import { FathomMeeting } from "../src/types.js";
+import { MOCK_API_KEY, MockFathom, startMockFathom } from "./helpers.js";
+
+const pushedMeeting = (recordingId: number) => ({
+  recording_id: recordingId,
+  title: `Pushed ${recordingId}`,
+  created_at: new Date().toISOString()
+}) as unknown as FathomMeeting;
+
+describe('meeting cache writes', () => {
+  let mock: MockFathom;
+  let dir: string;
+
+  const readCache = () => JSON.parse(readFileSync(path.join(dir, 'meetings.json'), 'utf8')) as { meetings: FathomMeeting[]; pushed_ids: number[] };
+  const cachedClient = () => new CachedFathomClient(MOCK_API_KEY, dir, { baseUrl: mock.baseUrl, maxRetries: 0 });
+
+  before(async () => {
+    mock = await startMockFathom();
+  });
+
+  after(() => mock.close());
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), 'mcp-fathom-cache-test-'));
+  });
+
+  it('keeps every meeting stored by concurrent webhooks', async () => {
+    writeFileSync(path.join(dir, 'meetings.json'), JSON.stringify({ synced_at: null, meetings: [pushedMeeting(1)] }));
+    const client = cachedClient();
+    try {
+      await Promise.all([2, 3, 4, 5, 6, 7, 8, 9].map(id => client.storeMeeting(pushedMeeting(id))));
+      const cache = readCache();
+      assert.deepEqual(cache.meetings.map(meeting => meeting.recording_id).sort((a, b) => a - b), [1, 2, 3, 4, 5, 6, 7, 8, 9]);
+      assert.deepEqual(cache.pushed_ids.sort((a, b) => a - b), [2, 3, 4, 5, 6, 7, 8, 9]);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('keeps a meeting stored by webhook while a sync runs', async () => {
+    const client = cachedClient();
+    try {
+      const synced = await Promise.all([client.sync(), client.storeMeeting(pushedMeeting(999999))]).then(([count]) => count);
+      const cache = readCache();
+      assert.ok(synced > 0);
+      assert.equal(cache.meetings.length, synced + 1);
+      assert.ok(cache.meetings.some(meeting => meeting.recording_id === 999999));
+      assert.deepEqual(cache.pushed_ids, [999999]);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
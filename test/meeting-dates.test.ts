@@ -0,0 +1,63 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { accountTimeline } from "../src/account-timeline.js";
+import { collectActionItems } from "../src/action-items.js";
+import { FathomClient } from "../src/fathom-client.js";
+import { followUpReport } from "../src/follow-up-report.js";
+import { meetingStats } from "../src/meeting-stats.js";
+import { FathomListMeetingsResponse, FathomMeeting } from "../src/types.js";
+// Sets the test log level
+import "./helpers.js";
+
+// Two meetings whose timestamps sort the wrong way as text: 09:00+02:00 is 07:00Z, an hour before 08:00Z
+const meeting = (recordingId: number, time: string) => ({
+  recording_id: recordingId,
+  title: `Meeting ${recordingId}`,
+  url: `https://fathom.video/calls/${recordingId}`,
+  created_at: time,
+  scheduled_start_time: time,
+  recording_start_time: time,
+  recording_end_time: new Date(Date.parse(time) + 30 * 60000).toISOString(),
+  recorded_by: { name: 'Dana Reyes', email: 'dana@northwind.io', team: 'Sales' },
+  calendar_invitees: [{ name: 'John Smith', email: 'john@acme.com', email_domain: 'acme.com', is_external: true }],
+  action_items: [{ description: `Follow up on ${recordingId}`, completed: false, assignee: { name: 'Dana Reyes', email: 'dana@northwind.io', team: 'Sales' } }]
+}) as unknown as FathomMeeting;
+
+const EARLIER = meeting(1, '2026-10-01T09:00:00+02:00');
+const LATER = meeting(2, '2026-10-01T08:00:00Z');
+
+// Serves the two meetings, textually out of order, whatever the filters
+class StubFathomClient extends FathomClient {
+  constructor() {
+    super('test-api-key');
+  }
+
+  async listMeetingsUnfiltered(): Promise<FathomListMeetingsResponse> {
+    return { items: [LATER, EARLIER], limit: 100 };
+  }
+}
+
+describe('meeting dates with different UTC offsets', () => {
+  const client = new StubFathomClient();
+
+  it('orders the account timeline by instant', async () => {
+    const result = await accountTimeline(client, { domain: 'acme.com' });
+    assert.deepEqual(result.timeline.map(entry => entry.recording_id), [1, 2]);
+    assert.equal(result.last_meeting, LATER.scheduled_start_time);
+  });
+
+  it('lists the most recent action items first', async () => {
+    const { items } = await collectActionItems(client, {});
+    assert.deepEqual(items.map(item => item.meeting.recording_id), [2, 1]);
+  });
+
+  it('starts the follow-up report at the latest meeting', async () => {
+    const result = await followUpReport(client, { domain: 'acme.com' });
+    assert.equal(result.follow_ups[0].earlier.recording_id, 2);
+  });
+
+  it('reports the latest meeting per external domain', async () => {
+    const result = await meetingStats(client, { days_back: 90 });
+    assert.equal(result.top_external_domains[0].last_meeting, LATER.recording_start_time);
+  });
+});
@@ -0,0 +1,168 @@
+import assert from "node:assert/strict";
+import { createHash, randomBytes } from "node:crypto";
+import { once } from "node:events";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { AddressInfo, Server } from "node:net";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { after, before, describe, it } from "node:test";
+import express from "express";
+import { BuiltInAuthorizationServer, createAuthorizationServerRouter, hashPassword, LOGIN_PATH } from "../src/oauth-server.js";
+// Sets the test log level
+import "./helpers.js";
+
+const PASSWORD = 'correct horse battery staple';
+const SCOPES = ['fathom:read', 'fathom:export'];
+const REDIRECT_URI = 'http://localhost/callback';
+
+describe('built-in authorization server', () => {
+  let dir: string;
+  let usersFile: string;
+  let httpServer: Server;
+  let authServer: BuiltInAuthorizationServer;
+  let baseUrl: string;
+  let clientId: string;
+
+  const writeUsers = (disabled: boolean, tenant = 'sales') => writeFileSync(usersFile, JSON.stringify({
+    users: [
+      { email: 'ada@example.com', password_scrypt: hashPassword(PASSWORD), tenant, disabled },
+      { email: 'bob@example.com', password_scrypt: hashPassword(PASSWORD) }
+    ]
+  }));
+
+  const form = (url: string, body: Record<string, string>, headers: Record<string, string> = {}) => fetch(`${baseUrl}${url}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded', ...headers },
+    body: new URLSearchParams(body),
+    redirect: 'manual'
+  });
+
+  // Starts an authorization request and returns its sign-in request id and PKCE verifier
+  const startAuthorization = async () => {
+    const verifier = randomBytes(32).toString('base64url');
+    const params = new URLSearchParams({
+      response_type: 'code',
+      client_id: clientId,
+      redirect_uri: REDIRECT_URI,
+      code_challenge: createHash('sha256').update(verifier).digest('base64url'),
+      code_challenge_method: 'S256'
+    });
+    const page = await (await fetch(`${baseUrl}/authorize?${params}`)).text();
+    const requestId = /name="request_id" value="([^"]+)"/.exec(page)![1];
+    return { requestId, verifier };
+  };
+
+  const signIn = (requestId: string, email: string, password = PASSWORD, clientIp?: string) =>
+    form(LOGIN_PATH, { request_id: requestId, email, password }, clientIp ? { 'X-Forwarded-For': clientIp } : {});
+
+  const tokensFor = async (email: string) => {
+    const { requestId, verifier } = await startAuthorization();
+    const login = await signIn(requestId, email);
+    assert.equal(login.status, 302);
+    const code = new URL(login.headers.get('location')!).searchParams.get('code')!;
+    return form('/token', { grant_type: 'authorization_code', code, code_verifier: verifier, client_id: clientId, redirect_uri: REDIRECT_URI });
+  };
+
+  before(async () => {
+    dir = mkdtempSync(path.join(tmpdir(), 'mcp-fathom-oauth-test-'));
+    usersFile = path.join(dir, 'users.json');
+    writeUsers(false);
+
+    const app = express();
+    app.set('trust proxy', 'loopback');
+    httpServer = app.listen(0, '127.0.0.1');
+    await once(httpServer, 'listening');
+    baseUrl = `http://localhost:${(httpServer.address() as AddressInfo).port}`;
+    authServer = new BuiltInAuthorizationServer({ issuer: baseUrl, audience: `${baseUrl}/mcp`, usersFile, scopes: SCOPES, tenantClaim: 'tenant' });
+    app.use(createAuthorizationServerRouter(authServer, baseUrl, SCOPES));
+
+    const registration = await fetch(`${baseUrl}/register`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ client_name: 'oauth tests', redirect_uris: [REDIRECT_URI], token_endpoint_auth_method: 'none' })
+    });
+    clientId = ((await registration.json()) as { client_id: string }).client_id;
+  });
+
+  after(async () => {
+    await new Promise(resolve => httpServer.close(resolve));
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('limits failed sign-ins per email across authorization requests', async () => {
+    for (let request = 0; request < 2; request++) {
+      const { requestId } = await startAuthorization();
+      for (let attempt = 1; attempt <= 5; attempt++) {
+        const response = await signIn(requestId, 'bob@example.com', 'wrong password');
+        assert.equal(response.status, attempt < 5 ? 401 : 400);
+        await response.body?.cancel();
+      }
+    }
+    const { requestId } = await startAuthorization();
+    const blocked = await signIn(requestId, 'bob@example.com');
+    assert.equal(blocked.status, 429);
+    assert.ok(Number(blocked.headers.get('retry-after')) > 0);
+    await blocked.body?.cancel();
+  });
+
+  it('limits failed sign-ins per client IP behind a trusted proxy', async () => {
+    for (let request = 0; request < 10; request++) {
+      const { requestId } = await startAuthorization();
+      for (let attempt = 1; attempt <= 5; attempt++) {
+        const response = await signIn(requestId, `guess${request}-${attempt}@example.com`, 'wrong password', '203.0.113.1');
+        await response.body?.cancel();
+      }
+    }
+    const { requestId } = await startAuthorization();
+    const blocked = await signIn(requestId, 'ada@example.com', PASSWORD, '203.0.113.1');
+    assert.equal(blocked.status, 429);
+    await blocked.body?.cancel();
+    const other = await signIn(requestId, 'ada@example.com', PASSWORD, '203.0.113.2');
+    assert.equal(other.status, 302);
+  });
+
+  it('keeps the granted scopes on refresh', async () => {
+    const tokens = await (await tokensFor('ada@example.com')).json() as { access_token: string; refresh_token: string; scope: string };
+    assert.equal(tokens.scope, SCOPES.join(' '));
+    assert.equal((await authServer.verifyAccessToken(tokens.access_token)).clientId, clientId);
+
+    const narrowed = await form('/token', { grant_type: 'refresh_token', refresh_token: tokens.refresh_token, client_id: clientId, scope: 'fathom:read' });
+    assert.equal(narrowed.status, 400);
+    assert.equal(((await narrowed.json()) as { error: string }).error, 'invalid_scope');
+  });
+
+  it('refuses tokens for users disabled after sign-in', async () => {
+    const { requestId, verifier } = await startAuthorization();
+    const login = await signIn(requestId, 'ada@example.com');
+    const code = new URL(login.headers.get('location')!).searchParams.get('code')!;
+    const tokens = await (await tokensFor('ada@example.com')).json() as { refresh_token: string };
+
+    writeUsers(true);
+    authServer.loadUsers();
+    try {
+      const exchange = await form('/token', { grant_type: 'authorization_code', code, code_verifier: verifier, client_id: clientId, redirect_uri: REDIRECT_URI });
+      assert.equal(exchange.status, 400);
+      assert.equal(((await exchange.json()) as { error: string }).error, 'invalid_grant');
+      const refresh = await form('/token', { grant_type: 'refresh_token', refresh_token: tokens.refresh_token, client_id: clientId });
+      assert.equal(refresh.status, 400);
+      assert.equal(((await refresh.json()) as { error: string }).error, 'invalid_grant');
+    } finally {
+      writeUsers(false);
+      authServer.loadUsers();
+    }
+  });
+
+  it('rejects access tokens of users moved to another tenant', async () => {
+    const tokens = await (await tokensFor('ada@example.com')).json() as { access_token: string };
+    assert.equal((await authServer.verifyAccessToken(tokens.access_token)).extra?.tenant, 'sales');
+
+    writeUsers(false, 'support');
+    authServer.loadUsers();
+    try {
+      await assert.rejects(authServer.verifyAccessToken(tokens.access_token), /tenant has changed/);
+    } finally {
+      writeUsers(false);
+      authServer.loadUsers();
+    }
+  });
+});
@@ -0,0 +1,40 @@
+import assert from "node:assert/strict";
+import { generateKeyPairSync, sign } from "node:crypto";
+import { describe, it } from "node:test";
+import { InvalidTokenError } from "@modelcontextprotocol/sdk/server/auth/errors.js";
+import { verifyJwt } from "../src/oauth.js";
+
+const { privateKey, publicKey } = generateKeyPairSync('ec', { namedCurve: 'prime256v1' });
+const OPTIONS = { issuer: 'https://auth.example.com', audience: 'https://mcp.example.com/mcp', requiredScopes: [] };
+
+const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+function signedToken(header: unknown, payload: unknown): string {
+  const signingInput = `${encode(header)}.${encode(payload)}`;
+  const signature = sign('sha256', Buffer.from(signingInput), { key: privateKey, dsaEncoding: 'ieee-p1363' });
+  return `${signingInput}.${signature.toString('base64url')}`;
+}
+
+const verify = (token: string) => verifyJwt(token, async () => publicKey, OPTIONS);
+
+describe('verifyJwt', () => {
+  it('accepts a valid token', async () => {
+    const claims = await verify(signedToken({ alg: 'ES256' }, { aud: OPTIONS.audience, iss: OPTIONS.issuer, sub: 'ada', exp: Math.floor(Date.now() / 1000) + 60 }));
+    assert.equal(claims.sub, 'ada');
+  });
+
+  for (const [name, header, payload] of [
+    ['null header', null, { sub: 'ada' }],
+    ['array header', ['ES256'], { sub: 'ada' }],
+    ['null payload', { alg: 'ES256' }, null],
+    ['string payload', { alg: 'ES256' }, 'ada']
+  ] as const) {
+    it(`rejects a ${name} as a malformed token`, async () => {
+      await assert.rejects(verify(signedToken(header, payload)), (error: unknown) => {
+        assert.ok(error instanceof InvalidTokenError);
+        assert.equal(error.message, 'Malformed token');
+        return true;
+      });
+    });
+  }
+});
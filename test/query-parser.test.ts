@@ -0,0 +1,99 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { compileQuery, formatQuery, parseQuery } from "../src/query-parser.js";
+import { FathomMeeting } from "../src/types.js";
+
+function meeting(overrides: Partial<FathomMeeting> = {}): FathomMeeting {
+  return {
+    recording_id: 1,
+    title: 'Acme renewal kickoff',
+    meeting_title: 'Acme renewal kickoff',
+    created_at: '2024-03-10T10:00:00Z',
+    recorded_by: { name: 'Dana Reyes', email: 'dana@northwind.io', team: 'Sales' },
+    calendar_invitees: [
+      { name: 'Dana Reyes', email: 'dana@northwind.io', email_domain: 'northwind.io', is_external: false },
+      { name: 'John Smith', email: 'john@acme.com', email_domain: 'acme.com', is_external: true }
+    ],
+    ...overrides
+  } as FathomMeeting;
+}
+
+function rejects(query: string, message: RegExp) {
+  assert.throws(() => parseQuery(query), (error: unknown) => {
+    assert.ok(error instanceof McpError);
+    assert.equal(error.code, ErrorCode.InvalidParams);
+    assert.match(error.message, message);
+    return true;
+  });
+}
+
+describe('parseQuery', () => {
+  it('parses qualifiers, phrases, OR and negation', () => {
+    const parsed = parseQuery('domain:acme.com OR domain:globex.com -team:Support "pricing review" renewal');
+    assert.equal(formatQuery(parsed), '(domain:acme.com OR domain:globex.com) AND NOT team:Support AND "pricing review" AND renewal');
+  });
+
+  it('never guesses filters from plain words', () => {
+    const compiled = compileQuery(parseQuery('team offsite last 3 meetings'));
+    assert.equal(compiled.freeText, 'team offsite last 3 meetings');
+    assert.equal(compiled.last, null);
+    assert.deepEqual(compiled.apiParams, {});
+  });
+
+  it('reads last:N as a result count, not a filter', () => {
+    const parsed = parseQuery('last:3 acme');
+    const compiled = compileQuery(parsed);
+    assert.equal(compiled.last, 3);
+    assert.equal(compiled.freeText, 'acme');
+    assert.equal(formatQuery(parsed), 'last:3 AND acme');
+    assert.ok(compiled.predicate(meeting()));
+  });
+
+  it('reports syntax errors as invalid params', () => {
+    rejects('"unterminated', /unterminated quote/);
+    rejects('has:video', /unknown has:video/);
+    rejects('last:0', /last:0 must be a number/);
+    rejects('-last:3', /cannot be negated/);
+    rejects('last:2 last:3', /only be given once/);
+    rejects('after:someday', /not a valid date/);
+    rejects('acme OR', /OR needs a term/);
+  });
+});
+
+describe('compileQuery', () => {
+  it('sends identity and date filters to the API', () => {
+    const compiled = compileQuery(parseQuery('domain:acme.com team:Sales from:dana@northwind.io after:2024-01-01'));
+    assert.deepEqual(compiled.apiParams.calendar_invitees_domains, ['acme.com']);
+    assert.deepEqual(compiled.apiParams.teams, ['Sales']);
+    assert.deepEqual(compiled.apiParams.recorded_by, ['dana@northwind.io']);
+    assert.equal(compiled.apiParams.created_after, '2024-01-01T00:00:00.000Z');
+  });
+
+  it('applies every clause exactly on the results', () => {
+    const matches = (query: string, candidate = meeting()) => compileQuery(parseQuery(query)).predicate(candidate);
+    assert.ok(matches('with:john@acme.com'));
+    assert.ok(matches('with:"john smith"'));
+    assert.ok(!matches('with:jane@acme.com'));
+    assert.ok(matches('domain:acme.com has:external'));
+    assert.ok(!matches('-domain:acme.com'));
+    assert.ok(matches('team:sales OR team:support'));
+    assert.ok(!matches('before:2024-03-01'));
+    assert.ok(!matches('has:action_items'));
+    assert.ok(matches('has:action_items', meeting({ action_items: [{ description: 'Send pricing' }] } as Partial<FathomMeeting>)));
+  });
+
+  it('compares dates as instants, with before: a day including that day', () => {
+    const createdAt = (created_at: string) => meeting({ created_at });
+    const matches = (query: string, candidate: FathomMeeting) => compileQuery(parseQuery(query)).predicate(candidate);
+    assert.ok(matches('before:2024-03-10', createdAt('2024-03-10T23:59:59.500Z')));
+    assert.ok(!matches('before:2024-03-10', createdAt('2024-03-11T00:00:00Z')));
+    assert.ok(matches('after:2024-03-10', createdAt('2024-03-10T00:00:00Z')));
+    assert.ok(!matches('after:2024-03-10', createdAt('2024-03-09T23:59:59.999Z')));
+    // 01:30+02:00 is 23:30Z on the day before; as strings it would sort after the bound
+    assert.ok(!matches('after:2024-03-10', createdAt('2024-03-10T01:30:00+02:00')));
+    assert.ok(matches('before:2024-03-10T12:00:00Z', createdAt('2024-03-10T11:59:59.999Z')));
+    assert.ok(matches('after:2024-03-10T12:00:00Z', createdAt('2024-03-10T12:00:00+00:00')));
+    assert.equal(compileQuery(parseQuery('before:2024-03-10')).apiParams.created_before, '2024-03-10T23:59:59.999Z');
+  });
+});
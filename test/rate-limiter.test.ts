@@ -0,0 +1,65 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, it, mock } from "node:test";
+import { RateLimiter } from "../src/rate-limiter.js";
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('RateLimiter', () => {
+  afterEach(() => mock.restoreAll());
+
+  it('rejects options that would stall every request', () => {
+    for (const options of [
+      { requestsPerMinute: NaN, maxConcurrent: 1 },
+      { requestsPerMinute: 0, maxConcurrent: 1 },
+      { requestsPerMinute: 60, maxConcurrent: 0 },
+      { requestsPerMinute: 60, maxConcurrent: NaN }
+    ]) {
+      assert.throws(() => new RateLimiter(options), /must be a positive/);
+    }
+  });
+
+  it('runs at most maxConcurrent requests at once, in order', async () => {
+    const limiter = new RateLimiter({ requestsPerMinute: 600, maxConcurrent: 2 });
+    let active = 0;
+    let peak = 0;
+    const started: number[] = [];
+    await Promise.all([0, 1, 2, 3, 4].map(index => limiter.schedule(async () => {
+      started.push(index);
+      peak = Math.max(peak, ++active);
+      await sleep(20);
+      active--;
+    })));
+    assert.equal(peak, 2);
+    assert.deepEqual(started, [0, 1, 2, 3, 4]);
+  });
+
+  it('holds requests once the bucket is empty until a token is due', async () => {
+    // A frozen clock, so the bucket refills only when the test moves time on
+    let now = Date.now();
+    mock.method(Date, 'now', () => now);
+    // 1200 per minute: a full bucket of 1200, then one token every 50ms
+    const limiter = new RateLimiter({ requestsPerMinute: 1200, maxConcurrent: 2000 });
+    await Promise.all(Array.from({ length: 1200 }, () => limiter.schedule(async () => undefined)));
+    let started = false;
+    const next = limiter.schedule(async () => { started = true; });
+    await sleep(80);
+    assert.equal(started, false);
+    now += 50;
+    await next;
+    assert.equal(started, true);
+  });
+
+  it('starts nothing before a pause ends', async () => {
+    const limiter = new RateLimiter({ requestsPerMinute: 600, maxConcurrent: 4 });
+    const start = Date.now();
+    limiter.pauseUntil(start + 150);
+    await limiter.schedule(async () => undefined);
+    assert.ok(Date.now() - start >= 140, `waited ${Date.now() - start}ms`);
+  });
+
+  it('releases the slot when a request fails', async () => {
+    const limiter = new RateLimiter({ requestsPerMinute: 600, maxConcurrent: 1 });
+    await assert.rejects(limiter.schedule(async () => { throw new Error('boom'); }), /boom/);
+    assert.equal(await limiter.schedule(async () => 'next'), 'next');
+  });
+});
@@ -0,0 +1,120 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { RedactionConfig, redactionSchema, redactResult, Redactor } from "../src/redaction.js";
+
+const config = (overrides: Partial<RedactionConfig> = {}): RedactionConfig => redactionSchema.parse(overrides);
+
+function redact(text: string, overrides: Partial<RedactionConfig> = {}) {
+  const redactor = new Redactor(config(overrides));
+  return { text: redactor.redact(text), counts: redactor.getCounts() };
+}
+
+describe('Redactor patterns', () => {
+  it('masks emails', () => {
+    const { text, counts } = redact('Mail jane.doe+sales@acme.com or JOHN@Globex.co.uk');
+    assert.equal(text, 'Mail [email] or [email]');
+    assert.equal(counts.emails, 2);
+  });
+
+  it('masks phone numbers with a prefix, brackets or separators', () => {
+    const { text, counts } = redact('Call +1 (415) 555-0134, 030 1234 5678 or +14155550134');
+    assert.equal(text, 'Call [phone], [phone] or [phone]');
+    assert.equal(counts.phones, 3);
+  });
+
+  it('masks IBANs, grouped or not', () => {
+    const { text, counts } = redact('Pay to DE89 3704 0044 0532 0130 00 or GB29NWBK60161331926819');
+    assert.equal(text, 'Pay to [iban] or [iban]');
+    assert.equal(counts.ibans, 2);
+  });
+
+  it('masks card numbers that pass the Luhn check only', () => {
+    const { text, counts } = redact('Card 4111 1111 1111 1111, not 4111 1111 1111 1112');
+    assert.equal(text, 'Card [card], not 4111 1111 1111 1112');
+    assert.equal(counts.credit_cards, 1);
+  });
+
+  it('applies custom patterns with their replacement or name', () => {
+    const { text, counts } = redact('Ticket SEC-1234 for project Falcon', {
+      custom_patterns: [
+        { name: 'ticket', pattern: 'SEC-\\d+' },
+        { name: 'codename', pattern: 'Falcon', replacement: '[project]' }
+      ]
+    });
+    assert.equal(text, 'Ticket [ticket] for project [project]');
+    assert.deepEqual(counts.custom, { ticket: 1, codename: 1 });
+  });
+
+  it('runs only the enabled detectors', () => {
+    const { text } = redact('jane@acme.com +1 415 555 0134', { emails: false });
+    assert.equal(text, 'jane@acme.com [phone]');
+  });
+
+  it('leaves dates, times, ids and amounts alone', () => {
+    const samples = [
+      'Met on 2024-03-10 at 10:30, 2024-03-10T10:30:00Z',
+      'Renewal signed 12.03.2024 and 03/12/2024',
+      'Recording 123456789, see https://fathom.video/calls/123456789',
+      'Q3 revenue 1,250,000 up 12.5% on 2024, version 1.17.1',
+      'Order ABCD1234EFGH5678'
+    ];
+    for (const sample of samples) {
+      const { text, counts } = redact(sample);
+      assert.equal(text, sample);
+      assert.deepEqual(counts, { emails: 0, phones: 0, ibans: 0, credit_cards: 0, names: 0, custom: {} });
+    }
+  });
+
+  it('never changes timestamps, urls and ids by key', () => {
+    const redactor = new Redactor(config());
+    const payload = { recording_id: 'jane@acme.com', created_at: '+1 415 555 0134', share_url: 'https://x.test/jane@acme.com', note: 'jane@acme.com' };
+    assert.deepEqual(redactor.redact(payload), { ...payload, note: '[email]' });
+  });
+});
+
+describe('name pseudonyms', () => {
+  const meeting = {
+    calendar_invitees: [{ name: 'Jane Doe', email: 'jane@acme.com' }, { name: 'John Smith', email: 'john@acme.com' }],
+    summary: 'Jane Doe asked John Smith about pricing; jane doe agreed. Janet Doerr was not there.',
+    transcript: [
+      { speaker: { display_name: 'John Smith' }, text: 'Thanks, Jane Doe.' },
+      { speaker: { display_name: 'Jane Doe' }, text: 'Talk soon, John Smith.' }
+    ]
+  };
+
+  it('gives each person the same pseudonym throughout one response', () => {
+    const redacted = new Redactor(config({ pseudonymize_names: true })).redact(meeting);
+    assert.deepEqual(redacted.calendar_invitees.map(invitee => invitee.name), ['Person A', 'Person B']);
+    assert.equal(redacted.summary, 'Person A asked Person B about pricing; Person A agreed. Janet Doerr was not there.');
+    assert.deepEqual(redacted.transcript, [
+      { speaker: { display_name: 'Person B' }, text: 'Thanks, Person A.' },
+      { speaker: { display_name: 'Person A' }, text: 'Talk soon, Person B.' }
+    ]);
+  });
+
+  it('keeps names without pseudonymize_names', () => {
+    const redacted = new Redactor(config()).redact(meeting);
+    assert.equal(redacted.summary, meeting.summary);
+  });
+});
+
+describe('redactResult', () => {
+  const result = { note: 'Mail jane@acme.com', filters_applied: { status: 'open' } };
+
+  it('redacts in optional mode only when asked', () => {
+    assert.equal(redactResult(config(), result, {}), result);
+    assert.equal(redactResult(config({ mode: 'off' }), result, { redact: true }), result);
+    const redacted = redactResult(config(), result, { redact: true }) as typeof result & { filters_applied: { redactions: { emails: number } } };
+    assert.equal(redacted.note, 'Mail [email]');
+    assert.equal(redacted.filters_applied.status, 'open');
+    assert.equal(redacted.filters_applied.redactions.emails, 1);
+  });
+
+  it('always redacts in enforced mode, and pseudonymizes on request', () => {
+    const people = { people: [{ name: 'Jane Doe', email: 'jane@acme.com' }] };
+    const redacted = redactResult(config({ mode: 'enforced' }), people, { pseudonymize_names: true }) as { people: Array<{ name: string; email: string }>; filters_applied: { redactions: { names: number; emails: number } } };
+    assert.deepEqual(redacted.people, [{ name: 'Person A', email: '[email]' }]);
+    assert.equal(redacted.filters_applied.redactions.names, 1);
+    assert.equal(redacted.filters_applied.redactions.emails, 1);
+  });
+});
@@ -0,0 +1,82 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import { AccessPolicy } from "../src/access-policy.js";
+import { FathomClient } from "../src/fathom-client.js";
+import { searchMeetings, SearchMeetingsArgs } from "../src/search-meetings.js";
+import { MockFathom, mockFathomClient, startMockFathom } from "./helpers.js";
+
+// Fixture meetings 9004 (Executive team) and 9008 (no team) are excluded by the default policy
+const ALLOWED_IDS = [9001, 9002, 9003, 9005, 9006, 9007, 9009, 9010, 9011, 9012];
+
+describe('search_meetings against the mock Fathom API', () => {
+  let mock: MockFathom;
+  let fathomClient: FathomClient;
+
+  before(async () => {
+    mock = await startMockFathom({ pageSize: 3 });
+    fathomClient = mockFathomClient(mock);
+  });
+
+  after(() => mock.close());
+
+  const search = (args: Partial<SearchMeetingsArgs>) => searchMeetings(fathomClient, { search_term: '', ...args });
+  const ids = (result: { meetings: Array<{ recording_id: number }> }) => result.meetings.map(meeting => meeting.recording_id);
+
+  it('never returns meetings excluded by the access policy', async () => {
+    const result = await search({ page_size: 100 });
+    assert.deepEqual(ids(result).sort(), ALLOWED_IDS);
+    assert.deepEqual(result.filters_applied.access_policy_rules.length > 0, true);
+  });
+
+  it('returns excluded meetings once the policy allows them', async () => {
+    const openClient = mockFathomClient(mock, new AccessPolicy({ default_effect: 'allow', rules: [] }));
+    const result = await searchMeetings(openClient, { search_term: 'team:Executive' });
+    assert.deepEqual(ids(result), [9004]);
+  });
+
+  it('filters by domain and ranks free text', async () => {
+    const result = await search({ search_term: 'domain:acme.com pricing' });
+    assert.equal(result.sort, 'relevance');
+    assert.deepEqual(ids(result), [9009]);
+    assert.deepEqual(result.parsed_query.api_filters, { calendar_invitees_domains: ['acme.com'] });
+  });
+
+  it('applies exclude_teams on top of the policy', async () => {
+    const result = await search({ exclude_teams: ['sales'], page_size: 100 });
+    assert.ok(result.meetings.every(meeting => (meeting.recorded_by as { team?: string }).team !== 'Sales'));
+    assert.deepEqual(ids(result).sort(), [9002, 9003, 9007, 9010]);
+  });
+
+  it('walks every match exactly once with next_cursor', async () => {
+    for (const sort of ['newest', 'oldest'] as const) {
+      const seen: number[] = [];
+      let result = await search({ sort, page_size: 4 });
+      seen.push(...ids(result));
+      while (result.next_cursor) {
+        result = await search({ cursor: result.next_cursor, page_size: 4 });
+        seen.push(...ids(result));
+      }
+      assert.equal(result.has_more, false);
+      assert.deepEqual([...seen].sort(), ALLOWED_IDS);
+      assert.deepEqual(seen, sort === 'newest' ? [...ALLOWED_IDS] : [...ALLOWED_IDS].reverse());
+    }
+  });
+
+  it('pages last:N results with a usable cursor', async () => {
+    const first = await search({ search_term: 'last:3', page_size: 2 });
+    assert.equal(first.parsed_query.interpreted_as, 'last:3');
+    assert.deepEqual(ids(first), [9001, 9002]);
+    assert.equal(first.has_more, true);
+    const second = await search({ cursor: first.next_cursor!, page_size: 2 });
+    assert.deepEqual(ids(second), [9003]);
+    assert.equal(second.has_more, false);
+    assert.equal(second.next_cursor, null);
+  });
+
+  it('rejects edited cursors as invalid params', async () => {
+    const first = await search({ page_size: 2 });
+    const state = JSON.parse(Buffer.from(first.next_cursor!, 'base64url').toString('utf8'));
+    state.args.sort = 'random';
+    await assert.rejects(search({ cursor: Buffer.from(JSON.stringify(state)).toString('base64url') }), /Invalid cursor/);
+  });
+});
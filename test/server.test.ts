@@ -0,0 +1,120 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { FathomClient } from "../src/fathom-client.js";
+import { connectMcpClient, MockFathom, mockFathomClient, startMockFathom } from "./helpers.js";
+
+async function assertInvalidParams(promise: Promise<unknown>, message: RegExp) {
+  await assert.rejects(promise, (error: unknown) => {
+    assert.ok(error instanceof McpError);
+    assert.equal(error.code, ErrorCode.InvalidParams);
+    assert.match(error.message, message);
+    return true;
+  });
+}
+
+describe('MCP server with an allowed_tools list', () => {
+  let mock: MockFathom;
+  let fathomClient: FathomClient;
+  let client: Client;
+
+  before(async () => {
+    mock = await startMockFathom();
+    fathomClient = mockFathomClient(mock);
+    client = await connectMcpClient(fathomClient, { allowedTools: ['search_meetings', 'get_summary'] });
+  });
+
+  after(async () => {
+    await client.close();
+    await mock.close();
+  });
+
+  it('lists and runs only the allowed tools', async () => {
+    const { tools } = await client.listTools();
+    assert.deepEqual(tools.map(tool => tool.name), ['search_meetings', 'get_summary']);
+
+    const result = await client.callTool({ name: 'search_meetings', arguments: { search_term: 'domain:globex.com' } });
+    const meetings = (result.structuredContent as { meetings: Array<{ recording_id: number }> }).meetings;
+    assert.deepEqual(meetings.map(meeting => meeting.recording_id), [9002, 9007]);
+
+    await assertInvalidParams(client.callTool({ name: 'get_transcript', arguments: { recording_id: 9001 } }), /Tool not allowed/);
+  });
+
+  it('reports invalid arguments and queries as invalid params', async () => {
+    await assertInvalidParams(client.callTool({ name: 'search_meetings', arguments: { search_term: 'x', page_size: 500 } }), /page_size/);
+    await assertInvalidParams(client.callTool({ name: 'search_meetings', arguments: { search_term: 'has:video' } }), /unknown has:video/);
+  });
+
+  it('exposes only the resources of allowed tools', async () => {
+    const { resources } = await client.listResources();
+    assert.deepEqual(resources, []);
+    const { resourceTemplates } = await client.listResourceTemplates();
+    assert.deepEqual(resourceTemplates.map(template => template.uriTemplate), ['fathom://meeting/{recording_id}/summary']);
+
+    const summary = await client.readResource({ uri: 'fathom://meeting/9001/summary' });
+    assert.equal(summary.contents.length, 1);
+    await assertInvalidParams(client.readResource({ uri: 'fathom://meeting/9001/transcript' }), /Resource not allowed/);
+  });
+
+  it('offers no prompt whose tools are not allowed', async () => {
+    const { prompts } = await client.listPrompts();
+    assert.deepEqual(prompts, []);
+    await assertInvalidParams(client.getPrompt({ name: 'follow_up_email', arguments: { recording_id: '9001' } }), /Prompt not allowed/);
+    await assertInvalidParams(
+      client.complete({ ref: { type: 'ref/prompt', name: 'weekly_recap' }, argument: { name: 'team', value: '' } }),
+      /Prompt not allowed/
+    );
+  });
+});
+
+describe('MCP server without tool restrictions', () => {
+  let mock: MockFathom;
+  let client: Client;
+
+  before(async () => {
+    mock = await startMockFathom();
+    client = await connectMcpClient(mockFathomClient(mock));
+  });
+
+  after(async () => {
+    await client.close();
+    await mock.close();
+  });
+
+  it('does not return policy-excluded meetings through tools or resources', async () => {
+    await assert.rejects(client.callTool({ name: 'get_meeting', arguments: { recording_id: 9004 } }), /not found/i);
+    await assert.rejects(client.readResource({ uri: 'fathom://meeting/9008' }), /Resource not found/);
+    const { resources } = await client.listResources();
+    assert.ok(resources.length > 0);
+    assert.ok(resources.every(resource => !/\/(9004|9008)$/.test(resource.uri)));
+  });
+
+  it('reports a wrong follow_up_report selector as invalid params', async () => {
+    await assertInvalidParams(client.callTool({ name: 'follow_up_report', arguments: {} }), /Exactly one of/);
+    await assertInvalidParams(
+      client.callTool({ name: 'follow_up_report', arguments: { recording_id: 9001, domain: 'acme.com' } }),
+      /Exactly one of/
+    );
+  });
+
+  it('reports an empty account_timeline domain as invalid params', async () => {
+    await assertInvalidParams(client.callTool({ name: 'account_timeline', arguments: { domain: '  ' } }), /domain/);
+  });
+
+  it('offers prepare_call only with account_timeline, which returns its CRM data', async () => {
+    const limited = await connectMcpClient(mockFathomClient(mock), { allowedTools: ['search_meetings', 'list_action_items'] });
+    try {
+      const { prompts } = await limited.listPrompts();
+      assert.deepEqual(prompts.map(prompt => prompt.name), ['weekly_recap']);
+      await assertInvalidParams(limited.getPrompt({ name: 'prepare_call', arguments: { domain: 'acme.com' } }), /Prompt not allowed/);
+    } finally {
+      await limited.close();
+    }
+  });
+
+  it('completes prompt arguments from allowed meetings only', async () => {
+    const { completion } = await client.complete({ ref: { type: 'ref/prompt', name: 'weekly_recap' }, argument: { name: 'team', value: '' } });
+    assert.deepEqual([...completion.values].sort(), ['Customer Success', 'Engineering', 'Sales']);
+  });
+});
@@ -0,0 +1,154 @@
+import assert from "node:assert/strict";
+import { createHmac, randomUUID } from "node:crypto";
+import { once } from "node:events";
+import { AddressInfo, Server } from "node:net";
+import { after, before, describe, it } from "node:test";
+import express from "express";
+import { AccessPolicy, DEFAULT_POLICY } from "../src/access-policy.js";
+import { FathomClient } from "../src/fathom-client.js";
+import { redactionSchema } from "../src/redaction.js";
+import { Tenant } from "../src/tenants.js";
+import { FathomMeeting } from "../src/types.js";
+import {
+  createOutboundWebhookHandler,
+  forgetWebhookDelivery,
+  parseWebhookMeeting,
+  signWebhook,
+  verifyWebhook,
+  WebhookVerificationError
+} from "../src/webhooks.js";
+import "./helpers.js";
+
+const SECRET = 'test-webhook-secret';
+const NOW = Date.parse('2026-10-19T12:00:00Z');
+const NOW_SECONDS = NOW / 1000;
+
+const MEETING = {
+  recording_id: 9101,
+  created_at: '2026-10-19T11:00:00Z',
+  title: 'Acme renewal kickoff',
+  recorded_by: { name: 'Dana Reyes', email: 'dana@northwind.io', team: 'Sales' },
+  calendar_invitees: [{ name: 'John Smith', email: 'john@acme.com', email_domain: 'acme.com', is_external: true }]
+};
+
+function delivery(options: { secret?: string; id?: string; timestamp?: number; body?: string } = {}) {
+  const id = options.id || `msg_${randomUUID()}`;
+  const timestamp = options.timestamp ?? NOW_SECONDS;
+  const body = options.body ?? JSON.stringify(MEETING);
+  const headers: Record<string, string> = {
+    'webhook-id': id,
+    'webhook-timestamp': String(timestamp),
+    'webhook-signature': signWebhook(options.secret || SECRET, id, timestamp, body)
+  };
+  return { id, timestamp, body: Buffer.from(body), headers };
+}
+
+function rejects(fn: () => unknown, message: RegExp) {
+  assert.throws(fn, (error: unknown) => {
+    assert.ok(error instanceof WebhookVerificationError);
+    assert.match(error.message, message);
+    return true;
+  });
+}
+
+describe('verifyWebhook', () => {
+  it('accepts a valid signature', () => {
+    const { id, headers, body } = delivery();
+    const verified = verifyWebhook(SECRET, headers, body, NOW);
+    assert.equal(verified.id, id);
+    assert.equal(verified.timestamp.getTime(), NOW);
+  });
+
+  it('rejects a tampered body', () => {
+    const { headers } = delivery();
+    rejects(() => verifyWebhook(SECRET, headers, Buffer.from(JSON.stringify({ ...MEETING, title: 'Changed' })), NOW), /Invalid webhook signature/);
+  });
+
+  it('accepts any of several signatures during secret rotation', () => {
+    const { headers, body } = delivery();
+    const old = delivery({ secret: 'previous-secret', id: headers['webhook-id'], body: body.toString() });
+    headers['webhook-signature'] = `${old.headers['webhook-signature']} ${headers['webhook-signature']}`;
+    assert.equal(verifyWebhook(SECRET, headers, body, NOW).id, headers['webhook-id']);
+    rejects(() => verifyWebhook('other-secret', delivery().headers, body, NOW), /Invalid webhook signature/);
+  });
+
+  it('rejects timestamps outside the tolerance window', () => {
+    const stale = delivery({ timestamp: NOW_SECONDS - 6 * 60 });
+    rejects(() => verifyWebhook(SECRET, stale.headers, stale.body, NOW), /outside the tolerance window/);
+    const future = delivery({ timestamp: NOW_SECONDS + 6 * 60 });
+    rejects(() => verifyWebhook(SECRET, future.headers, future.body, NOW), /outside the tolerance window/);
+    const recent = delivery({ timestamp: NOW_SECONDS - 4 * 60 });
+    assert.ok(verifyWebhook(SECRET, recent.headers, recent.body, NOW));
+  });
+
+  it('accepts a delivery once, and again after it was forgotten', () => {
+    const { headers, body } = delivery();
+    const verified = verifyWebhook(SECRET, headers, body, NOW);
+    rejects(() => verifyWebhook(SECRET, headers, body, NOW), /already received/);
+    forgetWebhookDelivery(verified);
+    assert.ok(verifyWebhook(SECRET, headers, body, NOW));
+  });
+
+  it('base64-decodes whsec_ secrets', () => {
+    const key = Buffer.from('0123456789abcdef0123456789abcdef');
+    const secret = `whsec_${key.toString('base64')}`;
+    const { id, headers, body } = delivery({ secret });
+    const expected = createHmac('sha256', key).update(`${id}.${NOW_SECONDS}.`).update(body).digest('base64');
+    assert.equal(headers['webhook-signature'], `v1,${expected}`);
+    assert.ok(verifyWebhook(secret, headers, body, NOW));
+  });
+});
+
+describe('parseWebhookMeeting', () => {
+  it('reads the meeting, bare or wrapped in data', () => {
+    assert.equal(parseWebhookMeeting(Buffer.from(JSON.stringify(MEETING))).recording_id, 9101);
+    assert.equal(parseWebhookMeeting(Buffer.from(JSON.stringify({ data: MEETING }))).recording_id, 9101);
+  });
+
+  it('rejects invalid JSON and payloads without a meeting', () => {
+    assert.throws(() => parseWebhookMeeting(Buffer.from('{')), /not valid JSON/);
+    assert.throws(() => parseWebhookMeeting(Buffer.from('null')), /Invalid webhook payload/);
+    assert.throws(() => parseWebhookMeeting(Buffer.from(JSON.stringify({ title: 'No id' }))), /recording_id/);
+  });
+});
+
+describe('outbound webhook handler', () => {
+  let receiver: Server;
+  let url: string;
+  const received: Array<{ headers: Record<string, unknown>; body: string }> = [];
+
+  before(async () => {
+    const app = express();
+    app.post('/hook', express.text({ type: '*/*' }), (req, res) => {
+      received.push({ headers: req.headers, body: req.body });
+      res.sendStatus(204);
+    });
+    receiver = app.listen(0, '127.0.0.1');
+    await once(receiver, 'listening');
+    url = `http://127.0.0.1:${(receiver.address() as AddressInfo).port}/hook`;
+  });
+
+  after(() => new Promise(resolve => receiver.close(resolve)));
+
+  it('forwards a signed meeting with the tenant\'s enforced redaction applied', async () => {
+    const fathomClient = new FathomClient('unused');
+    fathomClient.setAccessPolicy(new AccessPolicy({
+      ...DEFAULT_POLICY,
+      redaction: redactionSchema.parse({ mode: 'enforced', pseudonymize_names: true })
+    }));
+    const tenant = { id: 'acme', name: 'Acme', allowedTools: null, expiresAt: null, webhookSecret: null, fathomClient } as Tenant;
+
+    await createOutboundWebhookHandler(url, SECRET).handle({
+      id: 'msg_outbound',
+      timestamp: new Date(),
+      tenant,
+      meeting: MEETING as unknown as FathomMeeting
+    });
+
+    assert.equal(received.length, 1);
+    const { headers, body } = received[0];
+    assert.ok(verifyWebhook(SECRET, headers as Record<string, string>, Buffer.from(body)));
+    assert.doesNotMatch(body, /@|Dana Reyes|John Smith/);
+    assert.equal(JSON.parse(body).meeting.recording_id, 9101);
+  });
+});